@@ -1,13 +1,37 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { BillData, PackingStatus } from './types';
-import { extractBillDetails } from './services/geminiService';
-import { subscribeToBills, saveBillToSupabase, deleteBillFromSupabase, COLOR_PALETTE, compressImage, isCloudConfigured, setupSupabase, disconnectCloud } from './services/storageService';
+import { BillData, PackingStatus, ExtractedBillDetails, UserRole, Customer, DispatchManifest } from './types';
+import { GeminiStatus, GEMINI_MODELS, DEFAULT_GEMINI_MODEL, subscribeToGeminiStatus, getGeminiStatus } from './services/geminiService';
+import { runExtraction, ExtractionProvider, EXTRACTION_PROVIDERS, ExtractionPreference, getExtractionPreference, setExtractionPreference } from './services/extractionService';
+import { subscribeToBills, loadBillsFrom, saveBill, trashBill, restoreBill, deleteBillForever, purgeExpiredTrash, getTrashRetentionDays, setTrashRetentionDays, subscribeToSyncState, resolveConflict, retryFailedChange, discardFailedChange, SyncState, COLOR_PALETTE, readImageFile, getBillImages, withBillImages, loadImageAsBase64, isCloudConfigured, switchWorkspace, removeWorkspaceProfile, testWorkspaceConnection, ConnectionCheck, SchemaState, subscribeToSchemaState, checkSchemaVersion, subscribeToCustomers, loadCustomers, saveCustomers, subscribeToManifests, loadManifests, saveManifest } from './services/storageService';
+import { buildMigrationSql, LATEST_SCHEMA_VERSION } from './services/migrations';
 import BillCard from './components/BillCard';
-import CameraCapture from './components/CameraCapture';
+import CameraCapture, { CaptureMode } from './components/CameraCapture';
 import DailyPlanner from './components/DailyPlanner';
+import TrashBin from './components/TrashBin';
+import DataProblems from './components/DataProblems';
+import FailedChanges from './components/FailedChanges';
+import CustomerDirectory from './components/CustomerDirectory';
+import DispatchBoard from './components/DispatchBoard';
+import DeliveryConfirmation from './components/DeliveryConfirmation';
+import LabelPrintDialog from './components/LabelPrintDialog';
+import LoadingCheck from './components/LoadingCheck';
+import { getPackerName, setPackerName, setBillStatus, getPackingProgress, isBillOpen } from './services/packingService';
+import { needsReview, createExtractionReview, mergePageExtraction } from './services/reviewService';
+import ConflictResolver from './components/ConflictResolver';
+import { ScannedCode, invoiceNoFromCode, findBillByInvoiceNo } from './services/codeScanner';
+import { AuthState, getAuthState, subscribeToAuthState, signOut, updateDisplayName, setMemberRole, describeUser } from './services/authService';
+import { can, isEditAllowed, ROLE_LABELS } from './services/permissions';
+import { UndoEntry, recordUndo, subscribeToUndoStack, takeUndoEntries, undoChange, clearUndoStack } from './services/undoService';
+import { WorkspaceProfile, WorkspaceState, subscribeToWorkspaces, createWorkspace, saveWorkspace, getDefaultBoxCount } from './services/workspaceService';
+import { DataProblem, subscribeToDataProblems, dismissDataProblem } from './services/validationService';
+import { findCustomer, applyCustomer, learnCustomers } from './services/customerService';
+import { DELIVERY_STATUS_LABELS, deliverBills } from './services/dispatchService';
+import { getDayLoadingSummary, getLoadingProgress } from './services/loadingService';
+import { getBillBoxTotals, getDayBoxTotals, getBoxSheetRows, describeBoxTotals, formatWeight } from './services/boxService';
+import AuthScreen from './components/AuthScreen';
 import * as XLSX from 'xlsx';
-import { Camera, FileSpreadsheet, Plus, Calendar, Loader2, CheckCircle, AlertTriangle, Clock, Archive, ListChecks, X, Trash2, CheckSquare, FolderInput, Palette, Check, CloudLightning, RotateCcw, ChevronLeft, ChevronRight, Image as ImageIcon, AlertOctagon, Save, Settings, Database, ShieldCheck, Copy, WifiOff, ClipboardList, Ban } from 'lucide-react';
+import { Camera, FileSpreadsheet, Plus, Calendar, Loader2, CheckCircle, AlertTriangle, Clock, Archive, ListChecks, X, Trash2, CheckSquare, FolderInput, Palette, Check, CloudLightning, RotateCcw, ChevronLeft, ChevronRight, Image as ImageIcon, AlertOctagon, Save, Settings, Database, ShieldCheck, Copy, WifiOff, ClipboardList, Ban, GitMerge, ShieldAlert, ScanBarcode, PackageCheck, LogOut, UserCircle, Users, Undo2, FileWarning, BookUser, Truck, QrCode, CloudAlert } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 
 // Robust ID generation
@@ -27,20 +51,49 @@ const formatDateForDisplay = (dateStr: string) => {
   return date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
 };
 
+const formatSyncTime = (timestamp: number | null) => {
+  if (!timestamp) return 'never';
+  return new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+// How long the Undo snackbar stays up after a bulk action
+const UNDO_TOAST_MS = 8000;
+// Quiet period before bills are folded into the customer directory
+const CUSTOMER_LEARN_DELAY_MS = 2000;
+
 const App: React.FC = () => {
-  const [allBills, setAllBills] = useState<BillData[]>([]);
+  const [allBills, setAllBills] = useState<BillData[]>([]); // Everything except the trash
+  const [trashedBills, setTrashedBills] = useState<BillData[]>([]);
+  const trashedBillsRef = useRef<BillData[]>([]);
+  trashedBillsRef.current = trashedBills;
+  const allBillsRef = useRef<BillData[]>([]); // Latest list for async work that outlives a render
+  allBillsRef.current = allBills;
   const [currentDate, setCurrentDate] = useState<string>(getTodayDateString());
   const [loadingId, setLoadingId] = useState<string | null>(null);
   const [processStatus, setProcessStatus] = useState<string>('');
   const [expandedId, setExpandedId] = useState<string | null>(null);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   
   // App Config State
   const [isConfigured, setIsConfigured] = useState(false);
   const [showSetupModal, setShowSetupModal] = useState(false);
-  const [supabaseUrl, setSupabaseUrl] = useState('');
-  const [supabaseKey, setSupabaseKey] = useState('');
+  const [workspaceState, setWorkspaceState] = useState<WorkspaceState>({ workspaces: [], activeId: null });
+  const [workspaceForm, setWorkspaceForm] = useState<WorkspaceProfile>(createWorkspace());
+  const [connectionChecks, setConnectionChecks] = useState<ConnectionCheck[] | null>(null);
+  const [isTestingConnection, setIsTestingConnection] = useState(false);
+  const [isSwitchingWorkspace, setIsSwitchingWorkspace] = useState(false);
+  const [connectionKey, setConnectionKey] = useState(0); // Bumped on every reconnect so feeds re-subscribe
   const [configError, setConfigError] = useState('');
+  const [schemaState, setSchemaState] = useState<SchemaState | null>(null);
+  const [isCheckingSchema, setIsCheckingSchema] = useState(false);
+  const [packerNameInput, setPackerNameInput] = useState(getPackerName());
+  const [authState, setAuthState] = useState<AuthState>(getAuthState());
+  const [extractionPreference, setExtractionPreferenceState] = useState<ExtractionPreference>(getExtractionPreference());
+  const [geminiStatus, setGeminiStatus] = useState<GeminiStatus>(getGeminiStatus());
+
+  // Review Filter State
+  const [showReviewOnly, setShowReviewOnly] = useState(false);
 
   // Selection Mode State
   const [isSelectionMode, setIsSelectionMode] = useState(false);
@@ -54,16 +107,50 @@ const App: React.FC = () => {
   // Duplicate Warning State
   const [duplicateAlert, setDuplicateAlert] = useState<{
       existing: BillData;
-      newData: { customerName: string; address: string; invoiceNo: string; billDate: string };
+      newData: ExtractedBillDetails;
       base64: string | undefined;
   } | null>(null);
   
+  // Conflict Merge State
+  const [conflictsHidden, setConflictsHidden] = useState(false);
+
   // Camera State
   const [showCamera, setShowCamera] = useState(false);
+  const [cameraPageMode, setCameraPageMode] = useState(false); // Opened from a bill to add pages to it
+  const [cameraMode, setCameraMode] = useState<CaptureMode>('photo');
+  const [scanMatchId, setScanMatchId] = useState<string | null>(null); // Bill found by the last code scan
 
   // Daily Planner State
   const [showPlanner, setShowPlanner] = useState(false);
 
+  // Trash State
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashRetentionDays, setTrashRetentionDaysState] = useState(getTrashRetentionDays());
+
+  // Undo State
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [undoToast, setUndoToast] = useState<UndoEntry | null>(null); // Snackbar for the latest bulk action
+  const [showUndoHistory, setShowUndoHistory] = useState(false);
+
+  // Records quarantined by validation
+  const [dataProblems, setDataProblems] = useState<DataProblem[]>([]);
+  const [showDataProblems, setShowDataProblems] = useState(false);
+  const [showFailedChanges, setShowFailedChanges] = useState(false);
+
+  // Customer directory (learned once the device and cloud copies are loaded)
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const customersRef = useRef<Customer[]>([]);
+  customersRef.current = customers;
+  const [customersReady, setCustomersReady] = useState(false);
+  const [showCustomers, setShowCustomers] = useState(false);
+
+  // Delivery runs
+  const [manifests, setManifests] = useState<DispatchManifest[]>([]);
+  const [showDispatch, setShowDispatch] = useState(false);
+  const [showLoadingCheck, setShowLoadingCheck] = useState(false);
+  const [deliveryBills, setDeliveryBills] = useState<BillData[] | null>(null); // Being confirmed as delivered
+  const [labelBills, setLabelBills] = useState<BillData[] | null>(null); // Box labels being printed
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const galleryInputRef = useRef<HTMLInputElement>(null);
 
@@ -76,29 +163,192 @@ const App: React.FC = () => {
       }
   }, []);
 
-  // Real-time Cloud Sync
+  // Signed-in user and organisation
+  useEffect(() => subscribeToAuthState(setAuthState), []);
+
+  // Saved workspaces; the form starts on the active one
+  useEffect(() => subscribeToWorkspaces(setWorkspaceState), []);
+  const activeWorkspace = workspaceState.workspaces.find(w => w.id === workspaceState.activeId) || null;
+  const activeWorkspaceId = activeWorkspace?.id;
   useEffect(() => {
-    if (!isConfigured) return;
-    
+    setWorkspaceForm(activeWorkspace || createWorkspace());
+    setConnectionChecks(null);
+  }, [activeWorkspaceId]);
+
+  // Cloud bills are only visible to a signed-in member of the organisation
+  const orgId = authState.membership?.orgId;
+  const authReady = !isConfigured || authState.status === 'ready';
+  const canManageConfig = can('config:manage');
+
+  // Local store + Real-time Cloud Sync
+  useEffect(() => {
+    if (!authReady) {
+      setAllBills([]);
+      setTrashedBills([]);
+      return;
+    }
     const unsubscribe = subscribeToBills((bills) => {
-      setAllBills(bills);
-      setIsSyncing(false);
+      setAllBills(bills.filter(b => !b.deletedAt));
+      setTrashedBills(bills.filter(b => !!b.deletedAt));
     });
     return () => unsubscribe();
-  }, [isConfigured]);
+  }, [isConfigured, authReady, orgId, connectionKey]);
+
+  // Clear out bills that have been in the trash longer than the retention period
+  useEffect(() => {
+    if (!authReady) return;
+    purgeExpiredTrash()
+      .then(purged => {
+        if (purged.length > 0) setTrashedBills(prev => prev.filter(b => !purged.includes(b.id)));
+      })
+      .catch(e => console.error("Failed to purge the trash:", e));
+  }, [authReady, orgId, trashRetentionDays]);
+
+  // Keep the name field in step with the account once signed in
+  useEffect(() => {
+    if (authState.membership) setPackerNameInput(authState.membership.displayName);
+  }, [authState.membership?.displayName]);
+
+  // Page in older entry dates when navigating back past the loaded window
+  useEffect(() => {
+    if (!isConfigured || !authReady) return;
+    setIsLoadingHistory(true);
+    loadBillsFrom(currentDate)
+      .catch(e => console.error("Failed to load older bills:", e))
+      .finally(() => setIsLoadingHistory(false));
+  }, [currentDate, isConfigured, authReady, orgId, connectionKey]);
+
+  // Sync queue status for the header indicator
+  useEffect(() => subscribeToSyncState(setSyncState), []);
+
+  // Database schema compared with the migrations this build expects
+  useEffect(() => subscribeToSchemaState(setSchemaState), []);
+
+  // Whether Gemini can read bills right now (key set, online, not rejected)
+  useEffect(() => subscribeToGeminiStatus(setGeminiStatus), []);
+  const aiUnavailable = extractionPreference !== 'local' && geminiStatus.status !== 'ready';
+
+  const isSyncing = !!syncState?.isFlushing;
+  const pendingCount = syncState?.pendingCount || 0;
+  const conflicts = syncState?.conflicts || [];
+  const failedChanges = syncState?.failedChanges || [];
+
+  // Session undo history for bulk actions
+  useEffect(() => subscribeToUndoStack(setUndoStack), []);
+
+  // Rows that failed validation and were kept out of the lists
+  useEffect(() => subscribeToDataProblems(setDataProblems), []);
+
+  useEffect(() => subscribeToCustomers(setCustomers), []);
+  useEffect(() => subscribeToManifests(setManifests), []);
+  useEffect(() => {
+    setCustomersReady(false);
+    if (!authReady) return;
+    loadCustomers()
+      .then(() => setCustomersReady(true))
+      .catch(e => console.error("Failed to load customers:", e));
+    loadManifests().catch(e => console.error("Failed to load manifests:", e));
+  }, [isConfigured, authReady, orgId, connectionKey]);
+
+  // Learn new shops and spellings from bills. Waits for typing to settle, and skips the
+  // bill being edited and AI reads nobody has checked yet.
+  useEffect(() => {
+    if (!customersReady) return;
+    const timer = setTimeout(() => {
+      const settled = allBills.filter(b => b.id !== expandedId && !needsReview(b));
+      const learned = learnCustomers(settled, customersRef.current);
+      if (learned.length > 0) saveCustomers(learned).catch(e => console.error("Failed to save customers:", e));
+    }, CUSTOMER_LEARN_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [allBills, expandedId, customersReady]);
+
+  useEffect(() => {
+    if (!undoToast) return;
+    const timer = setTimeout(() => setUndoToast(null), UNDO_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [undoToast]);
+
+  // Re-open the merge dialog whenever a new conflict arrives
+  useEffect(() => {
+    if (conflicts.length > 0) setConflictsHidden(false);
+  }, [conflicts.length]);
 
   // --- CONFIG HANDLERS ---
-  const handleSaveConfig = () => {
+  const updateWorkspaceForm = (patch: Partial<WorkspaceProfile>) => {
+      setWorkspaceForm(prev => ({ ...prev, ...patch }));
+      setConnectionChecks(null);
+  };
+
+  const handleTestConnection = async () => {
+      setIsTestingConnection(true);
+      setConfigError('');
       try {
-          setupSupabase(supabaseUrl, supabaseKey);
-          setIsConfigured(true);
-          setShowSetupModal(false);
+          const checks = await testWorkspaceConnection(createWorkspace(workspaceForm));
+          setConnectionChecks(checks);
+          return checks;
+      } finally {
+          setIsTestingConnection(false);
+      }
+  };
+
+  // `reconnect` applies edited details to the workspace already in use
+  const handleSwitchWorkspace = async (id: string | null, reconnect = false) => {
+      if (id === workspaceState.activeId && !reconnect) return;
+      setIsSwitchingWorkspace(true);
+      try {
+          clearUndoStack();
+          setAllBills([]);
+          setTrashedBills([]);
+          await switchWorkspace(id);
+          setIsConfigured(isCloudConfigured());
+          setConnectionKey(key => key + 1);
+      } finally {
+          setIsSwitchingWorkspace(false);
+      }
+  };
+
+  // Tests first; a failed table or bucket check needs a second tap to save anyway
+  const handleSaveConfig = async () => {
+      try {
+          const checks = connectionChecks || await handleTestConnection();
+          const connectionFailed = checks.some(c => !c.ok && c.label !== 'Database version');
+          if (connectionFailed && !connectionChecks) return;
+
+          const saved = saveWorkspace(workspaceForm);
+          await handleSwitchWorkspace(saved.id, true);
           setConfigError('');
+          setConnectionChecks(null);
+          if (!connectionFailed) setShowSetupModal(false);
       } catch (e: any) {
           setConfigError(e.message);
       }
   };
 
+  const handleRemoveWorkspace = async () => {
+      const saved = workspaceState.workspaces.find(w => w.id === workspaceForm.id);
+      if (!saved) return;
+      if (await removeWorkspaceProfile(saved)) {
+          setIsConfigured(isCloudConfigured());
+          setWorkspaceForm(createWorkspace());
+      }
+  };
+
+  // Says so when on-device OCR only runs because Gemini can't (read live, mid-extraction)
+  const providerLabel = (provider: ExtractionProvider) =>
+      provider.id === 'local' && getExtractionPreference() !== 'local' && getGeminiStatus().status !== 'ready'
+          ? `${provider.label} (AI not available)`
+          : provider.label;
+
+  const handleExtractionPreference = (preference: ExtractionPreference) => {
+      setExtractionPreference(preference);
+      setExtractionPreferenceState(preference);
+  };
+
+  const handleRecheckSchema = () => {
+      setIsCheckingSchema(true);
+      checkSchemaVersion(true).finally(() => setIsCheckingSchema(false));
+  };
+
   const copyToClipboard = (text: string) => {
       navigator.clipboard.writeText(text);
       alert("SQL Copied!");
@@ -117,9 +367,25 @@ const App: React.FC = () => {
     .sort((a, b) => b.createdAt - a.createdAt);
 
   const backlogBills = allBills
-    .filter(b => b.status === PackingStatus.PENDING && b.entryDate < currentDate)
+    .filter(b => isBillOpen(b) && b.entryDate < currentDate)
     .sort((a, b) => a.entryDate.localeCompare(b.entryDate)); 
 
+  const partialBacklogCount = backlogBills.filter(b => b.status === PackingStatus.PARTIAL).length;
+
+  // The open card is what the camera adds pages to
+  const expandedBill = expandedId ? allBills.find(b => b.id === expandedId) || null : null;
+
+  // Bills whose AI extraction was empty, failed or unsure, oldest first
+  const reviewBills = allBills
+    .filter(needsReview)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  // Delivery runs for the day (the Dispatch button shows once there is something to send)
+  const hasDeliveries = todayNewBills.some(b => b.isDelivery);
+  const dayManifestCount = manifests.filter(m => m.date === currentDate && !m.deletedAt).length;
+  const dayLoading = getDayLoadingSummary(todayNewBills);
+  const dayBoxes = getDayBoxTotals(todayNewBills);
+
   // --- ACTIONS ---
 
   const toggleSelectionMode = () => {
@@ -136,7 +402,7 @@ const App: React.FC = () => {
   };
 
   const openGroupModal = () => {
-      if (selectedIds.size === 0) return;
+      if (selectedIds.size === 0 || !can('bill:regroup')) return;
       const selectedBills = allBills.filter(b => selectedIds.has(b.id));
       const commonName = selectedBills.find(b => b.description)?.description || "";
       const commonColor = selectedBills.find(b => b.colorTheme)?.colorTheme || "";
@@ -147,50 +413,62 @@ const App: React.FC = () => {
 
   const applyGroupSettings = async () => {
       setShowGroupModal(false);
+      if (!can('bill:regroup')) return;
       
       const now = Date.now();
-      const updates = allBills.map(b => {
-          if (selectedIds.has(b.id)) {
-              return { ...b, description: groupNameInput, colorTheme: groupColorInput || undefined, updatedAt: now };
-          }
-          return b;
-      });
-      
-      setAllBills(updates);
-
-      if (isConfigured) {
-        setIsSyncing(true);
-        const promises = updates
-            .filter(b => selectedIds.has(b.id))
-            .map(b => saveBillToSupabase(b));
-        await Promise.all(promises);
-        setIsSyncing(false);
-      }
+      const changes = allBills
+          .filter(b => selectedIds.has(b.id))
+          .map(b => ({ before: b, after: { ...b, description: groupNameInput, colorTheme: groupColorInput || undefined, updatedAt: now } }));
+      const updated = new Map(changes.map(c => [c.after.id, c.after]));
+
+      setAllBills(prev => prev.map(b => updated.get(b.id) || b));
+      await Promise.all(changes.map(c => saveBill(c.after)));
+      showUndo(recordUndo(`Grouped ${changes.length} bill${changes.length === 1 ? '' : 's'}${groupNameInput ? ` as ${groupNameInput}` : ''}`, changes));
       
       setIsSelectionMode(false);
       setSelectedIds(new Set());
   };
 
+  const showUndo = (entry: UndoEntry | null) => setUndoToast(entry);
+
+  // Rolls back the given bulk action and every one made after it
+  const handleUndo = async (entryId: string) => {
+      setUndoToast(null);
+      setShowUndoHistory(false);
+      const entries = takeUndoEntries(entryId);
+      const current = new Map([...allBillsRef.current, ...trashedBillsRef.current].map(b => [b.id, b]));
+      const reverted = new Map<string, BillData>();
+      let blocked = 0;
+      entries.forEach(entry => entry.changes.forEach(change => {
+          const bill = reverted.get(change.before.id) || current.get(change.before.id);
+          if (!bill) return; // Deleted for good since
+          const undone = undoChange(bill, change);
+          if (!isEditAllowed(bill, undone)) {
+              blocked++;
+              return;
+          }
+          reverted.set(undone.id, undone);
+      }));
+
+      reverted.forEach(b => current.set(b.id, b));
+      const bills = Array.from(current.values()).sort((a, b) => b.createdAt - a.createdAt);
+      setAllBills(bills.filter(b => !b.deletedAt));
+      setTrashedBills(bills.filter(b => !!b.deletedAt));
+      await Promise.all(Array.from(reverted.values()).map(b => saveBill(b)));
+      if (blocked > 0) window.alert(`${blocked} change(s) could not be undone because they need a supervisor.`);
+  };
+
   const handlePackSelected = async () => {
     if (selectedIds.size === 0) return;
     if (window.confirm(`Mark ${selectedIds.size} bills as PACKED?`)) {
-        const now = Date.now();
-        const updates = allBills.map(b => {
-            if (selectedIds.has(b.id)) {
-                return { ...b, status: PackingStatus.PACKED, packedAt: now, updatedAt: now };
-            }
-            return b;
-        });
-        setAllBills(updates);
-
-        if (isConfigured) {
-            setIsSyncing(true);
-            const promises = updates
-                .filter(b => selectedIds.has(b.id))
-                .map(b => saveBillToSupabase(b));
-        await Promise.all(promises);
-        setIsSyncing(false);
-        }
+        const changes = allBills
+            .filter(b => selectedIds.has(b.id))
+            .map(b => ({ before: b, after: setBillStatus(b, PackingStatus.PACKED) }));
+        const updated = new Map(changes.map(c => [c.after.id, c.after]));
+
+        setAllBills(prev => prev.map(b => updated.get(b.id) || b));
+        await Promise.all(changes.map(c => saveBill(c.after)));
+        showUndo(recordUndo(`Packed ${changes.length} bill${changes.length === 1 ? '' : 's'}`, changes));
 
         setIsSelectionMode(false);
         setSelectedIds(new Set());
@@ -198,72 +476,58 @@ const App: React.FC = () => {
   };
 
   const handleDeleteSelected = async () => {
-      if (selectedIds.size === 0) return;
-      if (window.confirm(`Permanently delete ${selectedIds.size} bills?`)) {
-          
-          if (isConfigured) {
-            setIsSyncing(true);
-            const deletes = Array.from(selectedIds).map((id: string) => deleteBillFromSupabase(id));
-            await Promise.all(deletes);
-            setIsSyncing(false);
-          }
+      if (selectedIds.size === 0 || !can('bill:delete')) return;
+      if (window.confirm(`Move ${selectedIds.size} bills to the Trash?`)) {
+          const selected = allBills.filter(b => selectedIds.has(b.id));
+          const trashed = await Promise.all(selected.map(b => trashBill(b)));
 
           setAllBills(prev => prev.filter(b => !selectedIds.has(b.id)));
+          setTrashedBills(prev => [...trashed, ...prev]);
+          showUndo(recordUndo(`Deleted ${trashed.length} bill${trashed.length === 1 ? '' : 's'}`, selected.map((before, i) => ({ before, after: trashed[i] }))));
           setIsSelectionMode(false);
           setSelectedIds(new Set());
       }
   }
 
   // Helper to create and save bill after all checks
-  const createBill = async (extracted: { customerName: string; address: string; invoiceNo: string; billDate: string }, base64Image?: string, manualData?: any) => {
-    const newBill: BillData = {
+  const createBill = async (extracted: ExtractedBillDetails, base64Image?: string, manualData?: any) => {
+    const draft: BillData = {
       id: generateId(),
-      imageUrl: '', 
+      imageUrl: base64Image || '', // Kept locally as base64 until the sync queue uploads it
+      imageUrls: base64Image ? [base64Image] : [],
       customerName: extracted.customerName || '',
       address: extracted.address || '',
       invoiceNo: extracted.invoiceNo || '',
       billDate: extracted.billDate || '',
+      items: (extracted.items || []).map(item => ({ ...item, id: generateId() })),
+      totalAmount: extracted.totalAmount || 0,
+      extraction: createExtractionReview(extracted),
       status: PackingStatus.PENDING,
       isDelivery: false,
       hasCRN: false,
       isEditedBill: false,
       isAdditionalBill: false,
-      boxCount: manualData?.boxCount || 0,
+      boxCount: manualData?.boxCount || getDefaultBoxCount(),
       description: manualData?.description || '', 
       entryDate: currentDate,
       createdAt: Date.now(),
       updatedAt: Date.now(),
     };
-
-    // If offline, use base64 for display immediately
-    if (!isConfigured && base64Image) {
-        newBill.imageUrl = base64Image;
-    }
+    // Snap the typed or extracted name onto a known customer and fill in their defaults
+    const match = findCustomer(draft.customerName, customersRef.current);
+    const newBill = match ? applyCustomer(draft, match.customer, true) : draft;
 
     // Optimistic update
     setAllBills(prev => [newBill, ...prev]);
-    
-    // If working offline, stop here
-    if (!isConfigured) {
-        setExpandedId(newBill.id);
-        return; 
-    }
-
-    setIsSyncing(true);
-    if (base64Image) {
-        setProcessStatus('Uploading image to cloud...');
-    } else {
-        setProcessStatus('Syncing data...');
-    }
+    setProcessStatus('Saving on device...');
 
     try {
-        await saveBillToSupabase(newBill, base64Image);
+        // Persisted locally first; the sync queue pushes it to the cloud when reachable
+        await saveBill(newBill);
         setExpandedId(newBill.id);
     } catch (e: any) {
         setAllBills(prev => prev.filter(b => b.id !== newBill.id)); // Revert optimistic update
-        console.error("Failed to save to cloud: " + e.message);
-    } finally {
-        setIsSyncing(false);
+        console.error("Failed to save bill locally: " + e.message);
     }
   };
 
@@ -271,28 +535,14 @@ const App: React.FC = () => {
     setLoadingId('new');
     setProcessStatus('Compressing image...');
     
-    let extracted = { customerName: '', address: '', invoiceNo: '', billDate: '' };
+    let extracted: ExtractedBillDetails = { customerName: '', address: '', invoiceNo: '', billDate: '' };
     let base64Image: string | undefined = undefined;
 
     try {
       if (file) {
-          const reader = new FileReader();
-          const rawBase64 = (await new Promise((resolve, reject) => {
-              reader.onload = () => {
-                  if (typeof reader.result === 'string') {
-                      resolve(reader.result);
-                  } else {
-                      reject(new Error("Failed to read file"));
-                  }
-              };
-              reader.onerror = () => reject(reader.error);
-              reader.readAsDataURL(file);
-          })) as string;
-          
-          base64Image = await compressImage(rawBase64);
+          base64Image = await readImageFile(file);
           
-          setProcessStatus('Analyzing with AI...');
-          extracted = await extractBillDetails(base64Image);
+          extracted = await runExtraction([base64Image], (provider) => setProcessStatus(`Analyzing with ${providerLabel(provider)}...`));
 
           // --- DUPLICATE CHECK LOGIC ---
           setProcessStatus('Checking for duplicates...');
@@ -355,22 +605,115 @@ const App: React.FC = () => {
   };
 
   const handleUpdateBill = (updated: BillData) => {
+    const previous = allBillsRef.current.find(b => b.id === updated.id);
+    if (previous && !isEditAllowed(previous, updated)) {
+        console.warn(`Edit to bill ${updated.id} needs a supervisor; ignored.`);
+        return;
+    }
     setAllBills(prev => prev.map(b => b.id === updated.id ? updated : b));
-    if (isConfigured) {
-        saveBillToSupabase(updated).catch(() => {});
+    saveBill(updated).catch(e => console.error("Failed to save bill locally:", e));
+  };
+
+  // Adds a photo as the next page of an existing bill, then re-reads every page together
+  const handleAddPage = async (billId: string, file: File) => {
+    setLoadingId('new_page');
+    setProcessStatus('Compressing image...');
+    try {
+        const page = await readImageFile(file);
+        const bill = allBillsRef.current.find(b => b.id === billId);
+        if (!bill) return;
+        const pages = [...getBillImages(bill), page];
+        handleUpdateBill(withBillImages({ ...bill, updatedAt: Date.now() }, pages));
+
+        setProcessStatus('Loading earlier pages...');
+        const pageData = await Promise.all(pages.map(loadImageAsBase64));
+        const extracted = await runExtraction(pageData, (provider) => setProcessStatus(`Analyzing ${pages.length} pages with ${providerLabel(provider)}...`));
+
+        // The bill may have been edited while the pages were being read
+        const latest = allBillsRef.current.find(b => b.id === billId);
+        if (latest) {
+            const merged = mergePageExtraction(latest, extracted);
+            if (merged !== latest) handleUpdateBill(merged);
+        }
+    } catch (error) {
+        console.error("Failed to add page:", error);
+    } finally {
+        setLoadingId(null);
+        setProcessStatus('');
+    }
+  };
+
+  const handleOpenPageCamera = (billId: string) => {
+    setExpandedId(billId);
+    setCameraPageMode(true);
+    setShowCamera(true);
+  };
+
+  const handleSignOut = async () => {
+    if (pendingCount > 0 && !window.confirm(`${pendingCount} change(s) have not synced yet. They will upload after the next sign-in. Sign out anyway?`)) return;
+    try {
+        await signOut();
+        setShowSetupModal(false);
+    } catch (e: any) {
+        setConfigError(e.message);
     }
   };
 
+  const handleSaveDisplayName = () => {
+    if (!authState.membership || packerNameInput.trim() === authState.membership.displayName) return;
+    updateDisplayName(packerNameInput).catch(e => setConfigError(e.message));
+  };
+
+  const handleSetMemberRole = (userId: string, role: UserRole) => {
+    setMemberRole(userId, role).catch(e => setConfigError(e.message));
+  };
+
+  const handleResolveConflict = (merged: BillData) => {
+    setAllBills(prev => prev.map(b => b.id === merged.id ? merged : b));
+    resolveConflict(merged.id, merged).catch(e => console.error("Failed to save merged bill:", e));
+  };
+
+  const handleRetryFailedChange = (billId: string) => {
+    retryFailedChange(billId).catch(e => console.error("Failed to retry change:", e));
+  };
+
+  const handleDiscardFailedChange = (billId: string) => {
+    if (!window.confirm("Discard this change? The cloud copy will be kept.")) return;
+    discardFailedChange(billId).catch(e => console.error("Failed to discard change:", e));
+  };
+
   const handleDeleteBill = (id: string) => {
-    if (window.confirm("Are you sure you want to delete this bill?")) {
-      if (isConfigured) {
-          deleteBillFromSupabase(id);
-      }
+    if (!can('bill:delete')) return;
+    const bill = allBills.find(b => b.id === id);
+    if (bill && window.confirm("Move this bill to the Trash?")) {
+      trashBill(bill)
+        .then(trashed => setTrashedBills(prev => [trashed, ...prev]))
+        .catch(e => console.error("Failed to delete bill locally:", e));
       setAllBills(prev => prev.filter(b => b.id !== id));
       if (expandedId === id) setExpandedId(null);
     }
   };
 
+  const handleRestoreBill = (bill: BillData) => {
+    restoreBill(bill)
+      .then(restored => setAllBills(prev => [restored, ...prev].sort((a, b) => b.createdAt - a.createdAt)))
+      .catch(e => console.error("Failed to restore bill:", e));
+    setTrashedBills(prev => prev.filter(b => b.id !== bill.id));
+  };
+
+  const handleDeleteForever = (bill: BillData) => {
+    if (!can('bill:delete')) return;
+    if (window.confirm(`Delete ${bill.customerName || 'this bill'} and its photos for good? This cannot be undone.`)) {
+      deleteBillForever(bill.id).catch(e => console.error("Failed to delete bill locally:", e));
+      setTrashedBills(prev => prev.filter(b => b.id !== bill.id));
+    }
+  };
+
+  const handleTrashRetention = (days: number) => {
+    setTrashRetentionDays(days);
+    setTrashRetentionDaysState(getTrashRetentionDays());
+  };
+
   const handleExportExcel = () => {
     const data = allBills.map(b => ({
       'Entry Date': b.entryDate,
@@ -381,49 +724,79 @@ const App: React.FC = () => {
       'Color Theme': b.colorTheme || 'Auto',
       'Invoice No': b.invoiceNo,
       'Status': b.status,
+      'Items Packed': b.items?.length ? `${getPackingProgress(b).packed}/${b.items.length}` : '',
       'Packed At': b.packedAt ? new Date(b.packedAt).toLocaleString() : '',
+      'Packed By': describeUser(b.packedBy),
+      'Items': (b.items || []).length,
+      'Total Amount': b.totalAmount || '',
       'Boxes': b.boxCount,
+      'Box Breakdown': b.boxes?.length ? describeBoxTotals(getBillBoxTotals(b)) : '',
+      'Boxes Loaded': b.loadedBoxes?.length ? getLoadingProgress(b).loaded : '',
       'Delivery': b.isDelivery ? 'Yes' : 'No',
+      'Delivery Status': b.deliveryStatus ? DELIVERY_STATUS_LABELS[b.deliveryStatus] : '',
+      'Delivered At': b.deliveredAt ? new Date(b.deliveredAt).toLocaleString() : '',
+      'Received By': b.deliveryProof?.receiverName || '',
       'CRN': b.hasCRN ? 'Yes' : 'No',
       'Additional': b.isAdditionalBill ? 'Yes' : 'No',
       'Edited': b.isEditedBill ? 'Yes' : 'No',
+      'Created By': describeUser(b.createdBy),
+      'Last Edited By': describeUser(b.updatedBy),
     }));
     const ws = XLSX.utils.json_to_sheet(data);
     const wb = XLSX.utils.book_new();
     XLSX.utils.book_append_sheet(wb, ws, "Grace_Packing_Data");
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(getBoxSheetRows(allBills)), "Boxes");
     XLSX.writeFile(wb, `Grace_Packing_${currentDate}.xlsx`);
   };
 
-  const handleCameraCapture = (file: File) => {
-      handleAddBill(file);
-  };
-
-  // SQL string for setup
-  const sqlSetupString = `create table if not exists bills (
-  id text primary key,
-  "customerName" text,
-  address text,
-  "invoiceNo" text,
-  "billDate" text,
-  status text,
-  "isDelivery" boolean,
-  "hasCRN" boolean,
-  "isEditedBill" boolean,
-  "isAdditionalBill" boolean,
-  "boxCount" integer,
-  description text,
-  "colorTheme" text,
-  "entryDate" text,
-  "createdAt" bigint,
-  "updatedAt" bigint,
-  "packedAt" bigint,
-  "imageUrl" text
-);
-alter table bills enable row level security;
-create policy "Public Access" on bills for all using (true) with check (true);
-insert into storage.buckets (id, name, public) values ('receipts', 'receipts', true)
-on conflict (id) do nothing;
-create policy "Public Access" on storage.objects for all using ( bucket_id = 'receipts' ) with check ( bucket_id = 'receipts' );`;
+  const handleCameraCapture = (file: File, pageOfBillId?: string) => {
+      if (pageOfBillId) handleAddPage(pageOfBillId, file);
+      else handleAddBill(file);
+  };
+
+  const handleOpenScanner = () => {
+      setCameraMode('scan');
+      setShowCamera(true);
+  };
+
+  const closeCamera = () => {
+      setShowCamera(false);
+      setCameraPageMode(false);
+      setCameraMode('photo');
+  };
+
+  // A scanned invoice code opens its bill, or starts a new one with that number
+  const handleScanCode = async (code: ScannedCode) => {
+      closeCamera();
+      const invoiceNo = invoiceNoFromCode(code.value);
+      const match = findBillByInvoiceNo(allBillsRef.current, invoiceNo);
+      if (match) {
+          setIsSelectionMode(false);
+          setSelectedIds(new Set());
+          setCurrentDate(match.entryDate);
+          setExpandedId(match.id);
+          setScanMatchId(match.id);
+          return;
+      }
+      setLoadingId('new');
+      setProcessStatus('New bill from scan...');
+      await createBill({ customerName: '', address: '', invoiceNo, billDate: currentDate });
+      setLoadingId(null);
+      setProcessStatus('');
+  };
+
+  const scanMatch = scanMatchId ? allBills.find(b => b.id === scanMatchId) || null : null;
+
+  const handleMarkScannedPacked = () => {
+      if (scanMatch) handleUpdateBill(setBillStatus(scanMatch, PackingStatus.PACKED));
+      setScanMatchId(null);
+  };
+
+  // Only the migrations this database is missing (or all of them for a new project or
+  // another workspace), written for the table and bucket names in the form
+  const schemaOutdated = isConfigured && schemaState?.status === 'outdated';
+  const showPendingMigrations = schemaOutdated && workspaceForm.id === workspaceState.activeId;
+  const migrationSql = buildMigrationSql(showPendingMigrations ? schemaState?.remoteVersion ?? 0 : 0, createWorkspace(workspaceForm));
 
   return (
     <div className="min-h-screen pb-32 relative bg-[#f8f9fa]">
@@ -432,7 +805,14 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
       <AnimatePresence>
         {showCamera && (
             <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[200] bg-black">
-                <CameraCapture onCapture={handleCameraCapture} onClose={() => setShowCamera(false)} />
+                <CameraCapture
+                    onCapture={handleCameraCapture}
+                    onClose={closeCamera}
+                    onScan={handleScanCode}
+                    initialMode={cameraMode}
+                    pageTarget={expandedBill ? { id: expandedBill.id, label: expandedBill.customerName || expandedBill.invoiceNo || 'Untitled bill', pageCount: getBillImages(expandedBill).length } : null}
+                    startInPageMode={cameraPageMode}
+                />
             </motion.div>
         )}
       </AnimatePresence>
@@ -444,15 +824,33 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
             <h1 className="text-xl font-black text-black tracking-tight">Grace Best</h1>
             <div className="flex items-center gap-1 text-xs font-bold text-gray-400 h-4">
                {isSyncing ? (
-                 <span className="flex items-center gap-1 text-indigo-500"><Loader2 size={10} className="animate-spin"/> Syncing...</span>
-               ) : isConfigured ? (
-                 <span className="flex items-center gap-1 text-green-600"><CloudLightning size={10} /> Supabase</span>
+                 <span className="flex items-center gap-1 text-indigo-500"><Loader2 size={10} className="animate-spin"/> Syncing{pendingCount > 0 ? ` ${pendingCount}` : ''}...</span>
+               ) : isConfigured && syncState?.isOnline !== false ? (
+                 <span className="flex items-center gap-1 text-green-600" title={syncState?.lastError || undefined}>
+                    <CloudLightning size={10} /> Supabase
+                    {pendingCount > 0 && <span className="text-amber-600">· {pendingCount} queued</span>}
+                 </span>
                ) : (
-                 <button onClick={() => setShowSetupModal(true)} className="flex items-center gap-1 text-red-500 hover:bg-red-50 rounded px-1 -ml-1 transition-colors"><WifiOff size={10} /> Offline (Demo)</button>
+                 <button onClick={() => setShowSetupModal(true)} className="flex items-center gap-1 text-red-500 hover:bg-red-50 rounded px-1 -ml-1 transition-colors">
+                    <WifiOff size={10} /> {isConfigured ? 'Offline' : 'Offline (Demo)'}
+                    {pendingCount > 0 && <span>· {pendingCount} queued</span>}
+                    <span className="text-gray-400 font-medium">· synced {formatSyncTime(syncState?.lastSyncedAt || null)}</span>
+                 </button>
+               )}
+               {aiUnavailable && (
+                 <button onClick={() => setShowSetupModal(true)} title={geminiStatus.message} className="flex items-center gap-1 text-amber-600 hover:bg-amber-50 rounded px-1 transition-colors">
+                    <Ban size={10} /> AI off
+                 </button>
                )}
             </div>
           </div>
           <div className="flex items-center gap-2">
+
+             {conflicts.length > 0 && (
+               <button onClick={() => setConflictsHidden(false)} className="p-2.5 bg-orange-100 text-orange-700 rounded-xl font-bold hover:bg-orange-200 transition-colors flex items-center gap-1 text-xs">
+                  <GitMerge size={18} /> {conflicts.length}
+               </button>
+             )}
              
              {/* Improved Date Navigator */}
              <div className="flex items-center bg-gray-100 rounded-xl p-1 mr-1">
@@ -473,13 +871,55 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                </button>
              )}
              
+             {(reviewBills.length > 0 || showReviewOnly) && (
+               <button onClick={() => setShowReviewOnly(!showReviewOnly)} className={`p-2.5 rounded-xl font-bold transition-all flex items-center gap-1 text-xs ${showReviewOnly ? 'bg-amber-500 text-white shadow-lg' : 'bg-amber-100 text-amber-700 hover:bg-amber-200'}`}>
+                  <ShieldAlert size={18} /> {reviewBills.length}
+               </button>
+             )}
+
              <button onClick={() => setShowPlanner(true)} className={`p-2.5 rounded-xl transition-all ${showPlanner ? 'bg-black text-white shadow-lg' : 'bg-gray-100 text-black hover:bg-gray-200'}`}>
                 <ClipboardList size={20} />
              </button>
 
+             {(hasDeliveries || dayManifestCount > 0) && (
+               <button onClick={() => setShowDispatch(true)} className="p-2.5 bg-blue-50 hover:bg-blue-100 text-blue-700 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs">
+                  <Truck size={18} /> {dayManifestCount > 0 && dayManifestCount}
+               </button>
+             )}
+
+             {todayNewBills.length > 0 && (
+               <button onClick={() => setShowLoadingCheck(true)} className={`p-2.5 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs ${dayLoading.loadedBoxes > 0 && dayLoading.loadedBills === dayLoading.totalBills ? 'bg-green-50 hover:bg-green-100 text-green-700' : 'bg-gray-100 hover:bg-gray-200 text-black'}`}>
+                  <PackageCheck size={18} /> {dayLoading.loadedBoxes > 0 && `${dayLoading.loadedBills}/${dayLoading.totalBills}`}
+               </button>
+             )}
+
+             <button onClick={() => setShowCustomers(true)} className="p-2.5 bg-gray-100 hover:bg-gray-200 text-black rounded-xl transition-colors">
+                <BookUser size={20} />
+             </button>
+
              <button onClick={toggleSelectionMode} className={`p-2.5 rounded-xl transition-all ${isSelectionMode ? 'bg-black text-white shadow-lg scale-105' : 'bg-gray-100 text-black hover:bg-gray-200'}`}>
                 <ListChecks size={20} />
              </button>
+             {undoStack.length > 0 && (
+               <button onClick={() => setShowUndoHistory(true)} className="p-2.5 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs">
+                  <Undo2 size={18} /> {undoStack.length}
+               </button>
+             )}
+             {failedChanges.length > 0 && (
+               <button onClick={() => setShowFailedChanges(true)} className="p-2.5 bg-red-100 hover:bg-red-200 text-red-700 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs">
+                  <CloudAlert size={18} /> {failedChanges.length}
+               </button>
+             )}
+             {dataProblems.length > 0 && (
+               <button onClick={() => setShowDataProblems(true)} className="p-2.5 bg-orange-100 hover:bg-orange-200 text-orange-700 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs">
+                  <FileWarning size={18} /> {dataProblems.length}
+               </button>
+             )}
+             {trashedBills.length > 0 && can('bill:delete') && (
+               <button onClick={() => setShowTrash(true)} className="p-2.5 bg-gray-100 hover:bg-gray-200 text-gray-600 rounded-xl font-bold transition-colors flex items-center gap-1 text-xs">
+                  <Trash2 size={18} /> {trashedBills.length}
+               </button>
+             )}
              <button onClick={handleExportExcel} className="hidden sm:block p-2.5 bg-green-50 hover:bg-green-100 text-green-700 rounded-xl transition-colors">
                 <FileSpreadsheet size={20} />
              </button>
@@ -508,6 +948,140 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
         )}
       </AnimatePresence>
 
+      {/* --- TRASH --- */}
+      <AnimatePresence>
+        {showTrash && (
+            <TrashBin
+                bills={trashedBills}
+                retentionDays={trashRetentionDays}
+                onRetentionChange={handleTrashRetention}
+                onRestore={handleRestoreBill}
+                onDeleteForever={handleDeleteForever}
+                onClose={() => setShowTrash(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- DATA PROBLEMS --- */}
+      <AnimatePresence>
+        {showDataProblems && (
+            <DataProblems
+                problems={dataProblems}
+                onDismiss={dismissDataProblem}
+                onClose={() => setShowDataProblems(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- FAILED CHANGES --- */}
+      <AnimatePresence>
+        {showFailedChanges && (
+            <FailedChanges
+                changes={failedChanges}
+                onRetry={handleRetryFailedChange}
+                onDiscard={handleDiscardFailedChange}
+                onClose={() => setShowFailedChanges(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- CUSTOMERS --- */}
+      <AnimatePresence>
+        {showCustomers && (
+            <CustomerDirectory
+                customers={customers}
+                onSave={(changed) => saveCustomers(changed).catch(e => console.error("Failed to save customers:", e))}
+                onClose={() => setShowCustomers(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- DISPATCH --- */}
+      <AnimatePresence>
+        {showDispatch && (
+            <DispatchBoard
+                date={currentDate}
+                bills={allBills}
+                manifests={manifests}
+                onSaveManifest={(manifest) => saveManifest(manifest).catch(e => console.error("Failed to save manifest:", e))}
+                onUpdateBills={(updated) => updated.forEach(handleUpdateBill)}
+                onConfirmDelivery={setDeliveryBills}
+                onClose={() => setShowDispatch(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- PROOF OF DELIVERY --- */}
+      <AnimatePresence>
+        {deliveryBills && (
+            <DeliveryConfirmation
+                bills={deliveryBills}
+                onConfirm={(proof) => {
+                    deliverBills(deliveryBills, proof).forEach(handleUpdateBill);
+                    setDeliveryBills(null);
+                }}
+                onClose={() => setDeliveryBills(null)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- LOADING CHECK --- */}
+      <AnimatePresence>
+        {showLoadingCheck && (
+            <LoadingCheck
+                date={currentDate}
+                bills={allBills}
+                onUpdateBill={handleUpdateBill}
+                onClose={() => setShowLoadingCheck(false)}
+            />
+        )}
+      </AnimatePresence>
+
+      {/* --- BOX LABELS --- */}
+      <AnimatePresence>
+        {labelBills && (
+            <LabelPrintDialog bills={labelBills} onClose={() => setLabelBills(null)} />
+        )}
+      </AnimatePresence>
+
+      {/* --- UNDO HISTORY --- */}
+      <AnimatePresence>
+        {showUndoHistory && (
+            <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+                <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-sm rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[80vh]">
+                    <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+                        <div>
+                            <h2 className="text-xl font-black text-black flex items-center gap-2"><Undo2 className="text-indigo-600" /> Undo History</h2>
+                            <p className="text-gray-500 text-sm mt-1">Bulk changes made this session. Undoing one also undoes everything after it.</p>
+                        </div>
+                        <button onClick={() => setShowUndoHistory(false)} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+                    </div>
+                    <div className="p-4 overflow-y-auto space-y-2">
+                        {undoStack.length === 0 && <p className="text-center text-sm font-bold text-gray-400 py-6">Nothing to undo.</p>}
+                        {undoStack.map((entry, index) => (
+                            <div key={entry.id} className="p-3 bg-gray-50 rounded-xl border border-gray-200 flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-bold text-black truncate">{entry.label}</p>
+                                    <p className="text-[10px] font-bold text-gray-400">{new Date(entry.createdAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}</p>
+                                </div>
+                                <button onClick={() => handleUndo(entry.id)} className="px-3 py-2 rounded-lg text-xs font-bold text-indigo-600 bg-white border border-indigo-100 hover:bg-indigo-50 shrink-0">
+                                    {index === 0 ? 'Undo' : `Undo ${index + 1} Steps`}
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* --- SIGN IN --- */}
+      <AnimatePresence>
+          {isConfigured && !authReady && (
+              <AuthScreen authState={authState} onOpenSettings={() => setShowSetupModal(true)} />
+          )}
+      </AnimatePresence>
+
       {/* --- CLOUD SETUP MODAL --- */}
       <AnimatePresence>
           {showSetupModal && (
@@ -515,8 +1089,8 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                   <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
                       <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
                           <div>
-                            <h2 className="text-2xl font-black text-black flex items-center gap-2"><Database className="text-green-600" /> Connect Supabase</h2>
-                            <p className="text-gray-500 text-sm mt-1">Free open-source database & storage.</p>
+                            <h2 className="text-2xl font-black text-black flex items-center gap-2"><Database className="text-green-600" /> Workspaces</h2>
+                            <p className="text-gray-500 text-sm mt-1">Each warehouse connects to its own Supabase database & storage.</p>
                           </div>
                           <button onClick={() => setShowSetupModal(false)} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
                       </div>
@@ -528,29 +1102,193 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                              </div>
                           )}
                           <div className="space-y-4">
-                              <div className="grid grid-cols-1 gap-4">
+                              {workspaceState.workspaces.length > 0 && (
                                   <div>
-                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Project URL</label>
-                                      <input type="text" value={supabaseUrl} onChange={(e) => setSupabaseUrl(e.target.value)} placeholder="https://xyz.supabase.co" className="w-full p-3 bg-gray-50 rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Switch Workspace</label>
+                                      <div className="space-y-1.5">
+                                          {workspaceState.workspaces.map(workspace => (
+                                              <div key={workspace.id} className={`flex items-center gap-3 p-2 pl-3 rounded-xl border ${workspace.id === workspaceState.activeId ? 'bg-green-50 border-green-500' : 'bg-gray-50 border-gray-200'}`}>
+                                                  <div className="flex-1 min-w-0">
+                                                      <p className="text-xs font-black text-black truncate">{workspace.name}</p>
+                                                      <p className="text-[10px] font-bold text-gray-400 truncate">{workspace.supabaseUrl.replace(/^https?:\/\//, '')} · {workspace.tableName}</p>
+                                                  </div>
+                                                  {canManageConfig && workspace.id !== workspaceForm.id && (
+                                                      <button onClick={() => { setWorkspaceForm(workspace); setConnectionChecks(null); }} className="px-2 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:text-black">Edit</button>
+                                                  )}
+                                                  {workspace.id === workspaceState.activeId ? (
+                                                      <span className="px-2 text-[10px] font-black text-green-700 uppercase">In Use</span>
+                                                  ) : (
+                                                      <button onClick={() => handleSwitchWorkspace(workspace.id)} disabled={isSwitchingWorkspace} className="px-3 py-1.5 rounded-lg text-xs font-bold text-white bg-black hover:bg-gray-800 disabled:opacity-50 flex items-center gap-1">
+                                                          {isSwitchingWorkspace && <Loader2 size={12} className="animate-spin"/>} Switch
+                                                      </button>
+                                                  )}
+                                              </div>
+                                          ))}
+                                      </div>
+                                      {canManageConfig && workspaceState.workspaces.some(w => w.id === workspaceForm.id) && (
+                                          <button onClick={() => { setWorkspaceForm(createWorkspace()); setConnectionChecks(null); }} className="mt-2 text-xs font-bold text-green-700 hover:underline flex items-center gap-1"><Plus size={12}/> Add Workspace</button>
+                                      )}
                                   </div>
-                                  <div>
-                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Anon / Public Key</label>
-                                      <input type="password" value={supabaseKey} onChange={(e) => setSupabaseKey(e.target.value)} placeholder="eyJh..." className="w-full p-3 bg-gray-50 rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                              )}
+                              {canManageConfig && (
+                                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-4">
+                                      <p className="text-xs font-black text-black uppercase">{workspaceState.workspaces.some(w => w.id === workspaceForm.id) ? `Edit ${workspaceForm.name}` : 'New Workspace'}</p>
+                                      <div>
+                                          <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Name</label>
+                                          <input type="text" value={workspaceForm.name} onChange={(e) => updateWorkspaceForm({ name: e.target.value })} placeholder="Main Warehouse" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                      </div>
+                                      <div>
+                                          <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Project URL</label>
+                                          <input type="text" value={workspaceForm.supabaseUrl} onChange={(e) => updateWorkspaceForm({ supabaseUrl: e.target.value })} placeholder="https://xyz.supabase.co" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                      </div>
+                                      <div>
+                                          <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Anon / Public Key</label>
+                                          <input type="password" value={workspaceForm.supabaseKey} onChange={(e) => updateWorkspaceForm({ supabaseKey: e.target.value })} placeholder="eyJh..." className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                      </div>
+                                      <div className="grid grid-cols-2 gap-3">
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Table</label>
+                                              <input type="text" value={workspaceForm.tableName} onChange={(e) => updateWorkspaceForm({ tableName: e.target.value })} placeholder="bills" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                          </div>
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Photo Bucket</label>
+                                              <input type="text" value={workspaceForm.bucketName} onChange={(e) => updateWorkspaceForm({ bucketName: e.target.value })} placeholder="receipts" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                          </div>
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Gemini API Key</label>
+                                              <input type="password" value={workspaceForm.geminiApiKey || ''} onChange={(e) => updateWorkspaceForm({ geminiApiKey: e.target.value })} placeholder="Optional" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                          </div>
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Gemini Model</label>
+                                              <select value={workspaceForm.geminiModel || DEFAULT_GEMINI_MODEL} onChange={(e) => updateWorkspaceForm({ geminiModel: e.target.value })} title={GEMINI_MODELS.find(m => m.id === (workspaceForm.geminiModel || DEFAULT_GEMINI_MODEL))?.description} className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black">
+                                                  {GEMINI_MODELS.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                                              </select>
+                                          </div>
+                                          <div>
+                                              <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Default Boxes</label>
+                                              <input type="number" min={0} value={workspaceForm.defaultBoxCount} onChange={(e) => updateWorkspaceForm({ defaultBoxCount: parseInt(e.target.value) || 0 })} className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                          </div>
+                                      </div>
+                                      <button onClick={handleTestConnection} disabled={!workspaceForm.supabaseUrl || !workspaceForm.supabaseKey || isTestingConnection} className="text-xs font-bold text-gray-500 hover:text-black flex items-center gap-1 disabled:opacity-50">
+                                          {isTestingConnection ? <Loader2 size={12} className="animate-spin"/> : <CloudLightning size={12}/>} Test Connection
+                                      </button>
+                                      {connectionChecks && (
+                                          <ul className="space-y-1.5">
+                                              {connectionChecks.map(check => (
+                                                  <li key={check.label} className={`flex items-start gap-2 text-xs font-medium ${check.ok ? 'text-green-700' : 'text-red-600'}`}>
+                                                      {check.ok ? <CheckCircle size={14} className="shrink-0 mt-px"/> : <AlertTriangle size={14} className="shrink-0 mt-px"/>}
+                                                      <span><span className="font-bold">{check.label}:</span> {check.message}</span>
+                                                  </li>
+                                              ))}
+                                          </ul>
+                                      )}
                                   </div>
-                              </div>
+                              )}
                               <div className="p-4 bg-gray-100 rounded-xl space-y-3">
-                                  <label className="block text-xs font-bold text-gray-600 uppercase">Quick Setup (SQL Editor)</label>
+                                  <div className="flex items-center justify-between gap-2">
+                                      <label className="block text-xs font-bold text-gray-600 uppercase">
+                                          {showPendingMigrations && schemaState ? `Run Migrations ${schemaState.pending[0].version}–${LATEST_SCHEMA_VERSION} (SQL Editor)` : 'Quick Setup (SQL Editor)'}
+                                      </label>
+                                      {isConfigured && (
+                                          <span className={`text-[10px] font-bold ${schemaState?.status === 'current' ? 'text-green-600' : schemaState?.status === 'outdated' ? 'text-amber-600' : 'text-gray-400'}`}>
+                                              Database v{schemaState?.remoteVersion ?? '?'} / App v{LATEST_SCHEMA_VERSION}
+                                          </span>
+                                      )}
+                                  </div>
+                                  {showPendingMigrations && schemaState && (
+                                      <ul className="text-[11px] font-medium text-gray-600 space-y-0.5">
+                                          {schemaState.pending.map(m => <li key={m.version}><span className="font-bold">{m.version}.</span> {m.name}</li>)}
+                                      </ul>
+                                  )}
                                   <div className="relative group">
-                                      <textarea readOnly className="w-full h-32 p-3 text-[10px] font-mono bg-black text-green-400 rounded-lg resize-none outline-none" value={sqlSetupString}/>
-                                      <button onClick={() => copyToClipboard(sqlSetupString)} className="absolute top-2 right-2 p-1.5 bg-gray-800 text-white rounded hover:bg-gray-700"><Copy size={12}/></button>
+                                      <textarea readOnly className="w-full h-32 p-3 text-[10px] font-mono bg-black text-green-400 rounded-lg resize-none outline-none" value={migrationSql}/>
+                                      <button onClick={() => copyToClipboard(migrationSql)} className="absolute top-2 right-2 p-1.5 bg-gray-800 text-white rounded hover:bg-gray-700"><Copy size={12}/></button>
+                                  </div>
+                                  {isConfigured && (
+                                      <button onClick={handleRecheckSchema} disabled={isCheckingSchema} className="text-xs font-bold text-gray-500 hover:text-black flex items-center gap-1 disabled:opacity-50">
+                                          {isCheckingSchema ? <Loader2 size={12} className="animate-spin"/> : <RotateCcw size={12}/>} Check Database Version
+                                      </button>
+                                  )}
+                              </div>
+                              {authState.membership ? (
+                                  <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+                                      <div className="flex items-center justify-between gap-3">
+                                          <div className="flex items-center gap-2 min-w-0">
+                                              <UserCircle size={20} className="text-green-600 shrink-0"/>
+                                              <div className="min-w-0">
+                                                  <p className="text-xs font-black text-black truncate">{authState.user?.email}</p>
+                                                  <p className="text-[10px] font-bold text-gray-500 truncate">{authState.membership.orgName} · {ROLE_LABELS[authState.membership.role]} · Join code <span className="font-mono text-gray-800 select-all">{authState.membership.joinCode}</span></p>
+                                              </div>
+                                          </div>
+                                          <button onClick={handleSignOut} className="px-3 py-1.5 rounded-lg text-xs font-bold text-red-500 bg-white border border-red-100 hover:bg-red-50 flex items-center gap-1 shrink-0"><LogOut size={12}/> Sign Out</button>
+                                      </div>
+                                      <div>
+                                          <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Your Name</label>
+                                          <input type="text" value={packerNameInput} onChange={(e) => setPackerNameInput(e.target.value)} onBlur={handleSaveDisplayName} placeholder="Shown on bills you pack" className="w-full p-3 bg-white rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                      </div>
+                                      {can('team:manage') && authState.team.length > 1 && (
+                                          <div>
+                                              <label className="flex items-center gap-1.5 text-xs font-bold text-gray-500 uppercase mb-2"><Users size={12}/> Team Roles</label>
+                                              <div className="space-y-1.5">
+                                                  {authState.team.map(member => (
+                                                      <div key={member.userId} className="flex items-center justify-between gap-3 p-2 pl-3 bg-white rounded-xl border border-gray-200">
+                                                          <span className="text-xs font-bold text-black truncate">{member.displayName}</span>
+                                                          <select
+                                                              value={member.role}
+                                                              onChange={(e) => handleSetMemberRole(member.userId, e.target.value as UserRole)}
+                                                              disabled={member.userId === authState.user?.id} // Keeps at least one admin
+                                                              className="p-1.5 bg-gray-50 rounded-lg border border-gray-200 text-xs font-bold text-black outline-none disabled:opacity-50"
+                                                          >
+                                                              {(Object.keys(ROLE_LABELS) as UserRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                                                          </select>
+                                                      </div>
+                                                  ))}
+                                              </div>
+                                              <p className="text-[10px] font-medium text-gray-400 mt-2">Packers pack bills. Supervisors can also regroup, change flags and un-pack. Admins can delete bills and change these settings.</p>
+                                          </div>
+                                      )}
+                                  </div>
+                              ) : (
+                                  <div>
+                                      <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Your Name (this device)</label>
+                                      <input type="text" value={packerNameInput} onChange={(e) => { setPackerNameInput(e.target.value); setPackerName(e.target.value); }} placeholder="Recorded when you tick items off" className="w-full p-3 bg-gray-50 rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black"/>
+                                  </div>
+                              )}
+                              <div>
+                                  <div className="flex items-center justify-between gap-2 mb-2">
+                                      <label className="block text-xs font-bold text-gray-500 uppercase">Bill Reading</label>
+                                      <span className={`text-[10px] font-bold truncate ${geminiStatus.status === 'ready' ? 'text-green-600' : 'text-amber-600'}`} title={geminiStatus.message}>{geminiStatus.message}</span>
+                                  </div>
+                                  <div className="grid grid-cols-3 gap-2">
+                                      {[
+                                          { id: 'auto', label: 'Auto', description: 'Gemini when available, otherwise on-device.' },
+                                          ...EXTRACTION_PROVIDERS,
+                                      ].map(option => (
+                                          <button
+                                              key={option.id}
+                                              onClick={() => handleExtractionPreference(option.id as ExtractionPreference)}
+                                              className={`p-3 rounded-xl border text-left transition-all ${extractionPreference === option.id ? 'bg-green-50 border-green-500 ring-2 ring-green-500/20' : 'bg-gray-50 border-gray-200 hover:bg-gray-100'}`}
+                                          >
+                                              <p className="text-xs font-black text-black">{option.label}</p>
+                                              <p className="text-[10px] font-medium text-gray-500 leading-snug mt-1">{option.description}</p>
+                                          </button>
+                                      ))}
                                   </div>
                               </div>
                               {configError && <div className="p-3 bg-red-50 text-red-600 text-sm font-bold rounded-xl flex items-center gap-2"><AlertTriangle size={16}/> {configError}</div>}
                           </div>
                       </div>
                       <div className="p-6 pt-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center">
-                          {isConfigured ? <button onClick={disconnectCloud} className="text-red-500 text-sm font-bold hover:underline">Disconnect</button> : <button onClick={() => setShowSetupModal(false)} className="text-gray-400 text-sm font-bold hover:text-gray-600">Skip / Work Offline</button>}
-                          <button onClick={handleSaveConfig} disabled={!supabaseUrl || !supabaseKey} className="px-6 py-3 bg-black text-white font-bold rounded-xl shadow-lg hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100">{isConfigured ? 'Update Configuration' : 'Connect'}</button>
+                          {!canManageConfig ? (
+                              <p className="text-xs font-bold text-gray-400">Only admins can change workspaces.</p>
+                          ) : (
+                              <>
+                                  {workspaceState.workspaces.some(w => w.id === workspaceForm.id) ? <button onClick={handleRemoveWorkspace} className="text-red-500 text-sm font-bold hover:underline">Remove</button> : <button onClick={() => setShowSetupModal(false)} className="text-gray-400 text-sm font-bold hover:text-gray-600">{isConfigured ? 'Cancel' : 'Skip / Work Offline'}</button>}
+                                  <button onClick={handleSaveConfig} disabled={!workspaceForm.supabaseUrl || !workspaceForm.supabaseKey || isTestingConnection || isSwitchingWorkspace} className="px-6 py-3 bg-black text-white font-bold rounded-xl shadow-lg hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:hover:scale-100">
+                                      {connectionChecks?.some(c => !c.ok && c.label !== 'Database version') ? 'Save Anyway' : workspaceState.workspaces.some(w => w.id === workspaceForm.id) ? 'Save & Reconnect' : 'Save & Connect'}
+                                  </button>
+                              </>
+                          )}
                       </div>
                   </motion.div>
               </motion.div>
@@ -558,14 +1296,56 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
       </AnimatePresence>
 
       <div className="max-w-3xl mx-auto p-4 space-y-6">
+
+        {/* Database needs migrating (admins can run the SQL) */}
+        {schemaOutdated && schemaState && canManageConfig && (
+            <button onClick={() => setShowSetupModal(true)} className="w-full flex items-center gap-3 p-3 bg-amber-50 rounded-xl border border-amber-200 text-left hover:bg-amber-100 transition-colors">
+                <Database size={18} className="text-amber-600 shrink-0"/>
+                <div className="min-w-0">
+                    <p className="text-sm font-bold text-amber-900">{schemaState.remoteVersion === 0 ? 'Database not set up yet' : `Database update needed (v${schemaState.remoteVersion} → v${LATEST_SCHEMA_VERSION})`}</p>
+                    <p className="text-xs font-medium text-amber-700">Run {schemaState.pending.length} migration{schemaState.pending.length === 1 ? '' : 's'} in the Supabase SQL Editor. Tap to see the SQL.</p>
+                </div>
+            </button>
+        )}
         
         <AnimatePresence mode="popLayout">
         
+        {/* NEEDS REVIEW SECTION */}
+        {showReviewOnly && (
+            <motion.div layout initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="space-y-2">
+                <div className="flex items-center gap-2 text-amber-700 font-bold bg-amber-50 p-3 rounded-xl border border-amber-200">
+                    <ShieldAlert size={18} /> <h2>Needs Review ({reviewBills.length})</h2>
+                    <button onClick={() => setShowReviewOnly(false)} className="ml-auto p-1 rounded-lg hover:bg-amber-100"><X size={16}/></button>
+                </div>
+                {reviewBills.length === 0 && (
+                    <div className="text-center py-10 bg-white rounded-3xl border border-gray-200 shadow-sm">
+                        <p className="text-black font-bold">All extractions confirmed</p>
+                        <p className="text-gray-400 text-sm mt-1">Nothing left to check.</p>
+                    </div>
+                )}
+                <div className="space-y-2">
+                    {reviewBills.map(bill => (
+                        <BillCard 
+                            key={bill.id} bill={bill} onChange={handleUpdateBill} onDelete={handleDeleteBill}
+                            isExpanded={expandedId === bill.id} toggleExpand={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
+                            isSelectionMode={isSelectionMode} isSelected={selectedIds.has(bill.id)} onToggleSelect={() => handleToggleSelect(bill.id)}
+                            onAddPage={() => handleOpenPageCamera(bill.id)}
+                            onConfirmDelivery={() => setDeliveryBills([bill])}
+                            onPrintLabels={() => setLabelBills([bill])}
+                        />
+                    ))}
+                </div>
+            </motion.div>
+        )}
+
         {/* BACKLOG SECTION */}
-        {backlogBills.length > 0 && (
+        {!showReviewOnly && backlogBills.length > 0 && (
             <motion.div layout initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="space-y-2">
                 <div className="flex items-center gap-2 text-red-600 font-bold bg-red-50 p-3 rounded-xl border border-red-100">
                     <AlertTriangle size={18} /> <h2>Pending Backlog ({backlogBills.length})</h2>
+                    {partialBacklogCount > 0 && (
+                        <span className="ml-auto text-[10px] font-bold uppercase tracking-wider text-amber-700 bg-amber-100 px-2 py-1 rounded-full">{partialBacklogCount} partly packed</span>
+                    )}
                 </div>
                 <div className="space-y-2">
                     {backlogBills.map(bill => (
@@ -573,6 +1353,9 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                             key={bill.id} bill={bill} onChange={handleUpdateBill} onDelete={handleDeleteBill}
                             isExpanded={expandedId === bill.id} toggleExpand={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
                             isSelectionMode={isSelectionMode} isSelected={selectedIds.has(bill.id)} onToggleSelect={() => handleToggleSelect(bill.id)}
+                            onAddPage={() => handleOpenPageCamera(bill.id)}
+                            onConfirmDelivery={() => setDeliveryBills([bill])}
+                            onPrintLabels={() => setLabelBills([bill])}
                         />
                     ))}
                 </div>
@@ -580,6 +1363,7 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
         )}
 
         {/* TODAY SECTION */}
+        {!showReviewOnly && (
         <div className="space-y-3">
             <div className="flex items-center justify-between px-1">
                 <h2 className="text-lg font-black text-black flex items-center gap-2">
@@ -587,16 +1371,16 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                    {currentDate === getTodayDateString() ? "Today's Bills" : `Bills for ${formatDateForDisplay(currentDate)}`}
                 </h2>
                 <span className="text-xs font-bold text-gray-500 bg-white border border-gray-200 px-3 py-1 rounded-full shadow-sm">
-                    {todayNewBills.length} Entries
+                    {todayNewBills.length} Entries · {dayBoxes.boxes} Boxes{dayBoxes.weighedBoxes > 0 && ` · ${formatWeight(dayBoxes.weightKg)}`}
                 </span>
             </div>
             
             {/* --- LOADING INDICATOR --- */}
-            {(loadingId === 'new' || loadingId === 'new_dup') && (
+            {(loadingId === 'new' || loadingId === 'new_dup' || loadingId === 'new_page') && (
                 <motion.div initial={{opacity:0, scale: 0.95}} animate={{opacity:1, scale: 1}} className="p-4 flex items-center gap-4 bg-white rounded-2xl shadow-lg border border-indigo-100 ring-1 ring-indigo-50">
                     <div className="relative flex items-center justify-center w-10 h-10 bg-indigo-50 rounded-full"><Loader2 size={20} className="text-indigo-600 animate-spin" /></div>
                     <div className="flex-1 min-w-0">
-                        <h3 className="text-sm font-black text-black leading-tight">{loadingId === 'new_dup' ? 'Saving Duplicate' : 'Processing Bill'}</h3>
+                        <h3 className="text-sm font-black text-black leading-tight">{loadingId === 'new_dup' ? 'Saving Duplicate' : loadingId === 'new_page' ? 'Adding Page' : 'Processing Bill'}</h3>
                         <div className="flex items-center gap-2 mt-1">
                              <div className="h-1 w-16 bg-gray-100 rounded-full overflow-hidden">
                                  <motion.div className="h-full bg-indigo-500" initial={{width: '10%'}} animate={{ width: processStatus.includes('Upload') ? '80%' : processStatus.includes('Anal') ? '50%' : '30%' }} transition={{ duration: 0.5 }}/>
@@ -610,7 +1394,7 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
             {todayNewBills.length === 0 && !loadingId && (
                 <div className="text-center py-16 bg-white rounded-3xl border border-gray-200 shadow-sm">
                     <div className="w-20 h-20 bg-gray-50 rounded-full flex items-center justify-center mx-auto mb-4 text-gray-300"><Archive size={36} /></div>
-                    <p className="text-black font-bold text-lg">No bills found</p>
+                    <p className="text-black font-bold text-lg">{isLoadingHistory ? 'Loading bills...' : 'No bills found'}</p>
                     <p className="text-gray-400 text-sm mt-1">{isConfigured ? (currentDate === getTodayDateString() ? "Tap the + button to start" : "Select a different date") : "Connect Cloud to start, or add offline"}</p>
                 </div>
             )}
@@ -620,9 +1404,13 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                     key={bill.id} bill={bill} onChange={handleUpdateBill} onDelete={handleDeleteBill}
                     isExpanded={expandedId === bill.id} toggleExpand={() => setExpandedId(expandedId === bill.id ? null : bill.id)}
                     isSelectionMode={isSelectionMode} isSelected={selectedIds.has(bill.id)} onToggleSelect={() => handleToggleSelect(bill.id)}
+                    onAddPage={() => handleOpenPageCamera(bill.id)}
+                    onConfirmDelivery={() => setDeliveryBills([bill])}
+                    onPrintLabels={() => setLabelBills([bill])}
                 />
             ))}
         </div>
+        )}
         </AnimatePresence>
       </div>
 
@@ -701,6 +1489,72 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
       )}
       </AnimatePresence>
 
+      {/* --- SCANNED BILL SHEET --- */}
+      <AnimatePresence>
+      {scanMatch && (
+        <motion.div 
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            onClick={() => setScanMatchId(null)}
+            className="fixed inset-0 z-[250] flex items-end justify-center p-4 bg-gray-900/60 backdrop-blur-sm"
+        >
+           <motion.div 
+                initial={{ y: 80, opacity: 0 }}
+                animate={{ y: 0, opacity: 1 }}
+                exit={{ y: 80, opacity: 0 }}
+                onClick={(e) => e.stopPropagation()}
+                className="bg-white w-full max-w-sm rounded-3xl shadow-2xl overflow-hidden ring-1 ring-white/20"
+           >
+              <div className="p-5 flex items-center gap-4 border-b border-gray-100">
+                  <div className={`w-12 h-12 rounded-2xl flex items-center justify-center shrink-0 ${scanMatch.status === PackingStatus.PACKED ? 'bg-green-100 text-green-600' : 'bg-indigo-50 text-indigo-600'}`}>
+                      <ScanBarcode size={24} />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                      <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider">Invoice #{scanMatch.invoiceNo}</p>
+                      <h3 className="text-lg font-black text-gray-900 truncate">{scanMatch.customerName || 'Untitled bill'}</h3>
+                      <p className="text-xs font-bold text-gray-500">
+                          {scanMatch.boxCount} boxes · {scanMatch.status === PackingStatus.PACKED
+                              ? `Packed ${scanMatch.packedAt ? new Date(scanMatch.packedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}`
+                              : scanMatch.status === PackingStatus.PARTIAL ? 'Partly packed' : 'Not packed yet'}
+                      </p>
+                  </div>
+              </div>
+              <div className="p-5 grid grid-cols-2 gap-3">
+                  <button 
+                    onClick={() => setScanMatchId(null)}
+                    className="py-3.5 rounded-xl font-bold text-gray-600 bg-gray-100 hover:bg-gray-200 hover:text-gray-900 transition-colors flex items-center justify-center gap-2"
+                  >
+                    <X size={18}/>
+                    Just Open
+                  </button>
+                  <button 
+                    onClick={handleMarkScannedPacked}
+                    disabled={scanMatch.status === PackingStatus.PACKED}
+                    className="py-3.5 rounded-xl font-bold text-white bg-green-600 hover:bg-green-700 disabled:bg-gray-300 disabled:shadow-none transition-colors flex items-center justify-center gap-2 shadow-lg shadow-green-600/20"
+                  >
+                    <PackageCheck size={18} />
+                    {scanMatch.status === PackingStatus.PACKED ? 'Packed' : 'Mark Packed'}
+                  </button>
+              </div>
+           </motion.div>
+        </motion.div>
+      )}
+      </AnimatePresence>
+
+      {/* --- EDIT CONFLICT MODAL --- */}
+      <AnimatePresence>
+      {conflicts.length > 0 && !conflictsHidden && !duplicateAlert && (
+        <ConflictResolver
+            key={conflicts[0].billId + conflicts[0].detectedAt}
+            conflict={conflicts[0]}
+            remainingCount={conflicts.length}
+            onResolve={handleResolveConflict}
+            onLater={() => setConflictsHidden(true)}
+        />
+      )}
+      </AnimatePresence>
+
       {/* --- GROUP ACTION MODAL --- */}
       <AnimatePresence>
       {showGroupModal && (
@@ -757,9 +1611,10 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
                 <span className="text-sm font-bold text-gray-500">Selected</span>
              </div>
              <div className="flex items-center gap-1">
-                <button onClick={openGroupModal} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Palette size={22} className="text-indigo-600 mb-0.5"/><span className="text-[10px] font-bold">Group</span></button>
+                {can('bill:regroup') && <button onClick={openGroupModal} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Palette size={22} className="text-indigo-600 mb-0.5"/><span className="text-[10px] font-bold">Group</span></button>}
                 <button onClick={handlePackSelected} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><CheckSquare size={22} className="text-green-600 mb-0.5"/><span className="text-[10px] font-bold">Pack</span></button>
-                <button onClick={handleDeleteSelected} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Trash2 size={22} className="text-red-500 mb-0.5"/><span className="text-[10px] font-bold">Delete</span></button>
+                <button onClick={() => setLabelBills(allBills.filter(b => selectedIds.has(b.id)))} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><QrCode size={22} className="text-gray-900 mb-0.5"/><span className="text-[10px] font-bold">Labels</span></button>
+                {can('bill:delete') && <button onClick={handleDeleteSelected} disabled={selectedIds.size === 0} className="flex flex-col items-center justify-center p-2 px-4 rounded-xl active:bg-gray-100 disabled:opacity-30 transition-colors"><Trash2 size={22} className="text-red-500 mb-0.5"/><span className="text-[10px] font-bold">Delete</span></button>}
                 <div className="w-px h-8 bg-gray-200 mx-2"></div>
                 <button onClick={toggleSelectionMode} className="p-3 rounded-xl bg-gray-100 hover:bg-gray-200 transition-colors"><X size={20} /></button>
              </div>
@@ -767,11 +1622,22 @@ create policy "Public Access" on storage.objects for all using ( bucket_id = 're
       )}
       </AnimatePresence>
 
+      {/* --- UNDO SNACKBAR --- */}
+      <AnimatePresence>
+      {undoToast && !isSelectionMode && (
+          <motion.div initial={{ y: 100, opacity: 0 }} animate={{ y: 0, opacity: 1 }} exit={{ y: 100, opacity: 0 }} className="fixed bottom-8 left-4 right-24 max-w-md bg-gray-900 text-white rounded-2xl pl-4 pr-2 py-2 shadow-2xl flex items-center justify-between gap-3 z-40">
+             <span className="text-sm font-bold truncate">{undoToast.label}</span>
+             <button onClick={() => handleUndo(undoToast.id)} className="px-3 py-2 rounded-xl text-sm font-black text-amber-300 hover:bg-white/10 transition-colors flex items-center gap-1.5 shrink-0"><Undo2 size={16}/> Undo</button>
+          </motion.div>
+      )}
+      </AnimatePresence>
+
       {/* --- STANDARD FAB --- */}
       <AnimatePresence>
       {!isSelectionMode && !duplicateAlert && !showPlanner && !showGroupModal && (
           <motion.div initial={{ scale: 0 }} animate={{ scale: 1 }} exit={{ scale: 0 }} className="fixed bottom-8 right-6 flex flex-col gap-4 z-40">
             <button onClick={() => handleAddBill(null)} className="w-14 h-14 bg-white text-gray-900 rounded-2xl shadow-lg border border-gray-200 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><Plus size={28} strokeWidth={3} /></button>
+            <button onClick={handleOpenScanner} className="w-14 h-14 bg-white text-gray-900 rounded-2xl shadow-lg border border-gray-200 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><ScanBarcode size={26} strokeWidth={2.5} /></button>
             <button onClick={() => galleryInputRef.current?.click()} className="w-14 h-14 bg-white text-indigo-600 rounded-2xl shadow-lg border border-indigo-100 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><ImageIcon size={28} strokeWidth={2.5} /></button>
             <button onClick={() => setShowCamera(true)} className="w-16 h-16 bg-black text-white rounded-2xl shadow-2xl shadow-black/30 flex items-center justify-center hover:scale-105 active:scale-90 transition-all"><Camera size={32} strokeWidth={2} /></button>
           </motion.div>
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { AuthState, signInWithPassword, signUpWithPassword, sendMagicLink, signOut, createOrganisation, joinOrganisation } from '../services/authService';
+import { LogIn, Mail, KeyRound, Building2, Users, Loader2, AlertTriangle, CheckCircle, Database, LogOut } from 'lucide-react';
+import { motion } from 'framer-motion';
+
+interface AuthScreenProps {
+  authState: AuthState;
+  onOpenSettings: () => void;
+}
+
+type OrgMode = 'create' | 'join';
+
+const inputClass = "w-full p-3 bg-gray-50 rounded-xl border border-gray-200 focus:ring-2 focus:ring-green-500 outline-none text-sm font-bold text-black";
+
+const AuthScreen: React.FC<AuthScreenProps> = ({ authState, onOpenSettings }) => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [orgMode, setOrgMode] = useState<OrgMode>('create');
+  const [orgName, setOrgName] = useState('');
+  const [joinCode, setJoinCode] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Runs an auth call with shared busy/error handling
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignIn = () => run(() => signInWithPassword(email, password));
+
+  const handleSignUp = () => run(async () => {
+    const needsConfirmation = await signUpWithPassword(email, password);
+    if (needsConfirmation) setNotice('Account created. Check your email to confirm it, then sign in.');
+  });
+
+  const handleMagicLink = () => run(async () => {
+    await sendMagicLink(email);
+    setNotice(`Sign-in link sent to ${email.trim()}. Open it on this device.`);
+  });
+
+  const handleOrgSubmit = () => run(() =>
+    orgMode === 'create' ? createOrganisation(orgName, displayName) : joinOrganisation(joinCode, displayName)
+  );
+
+  const isSignedOut = authState.status === 'signed_out';
+  const needsOrg = authState.status === 'no_org';
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[280] bg-gray-900/90 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-sm rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100">
+          <h2 className="text-2xl font-black text-black flex items-center gap-2">
+            {needsOrg ? <><Building2 className="text-green-600" /> Your Team</> : <><LogIn className="text-green-600" /> Sign In</>}
+          </h2>
+          <p className="text-gray-500 text-sm mt-1">
+            {needsOrg ? `Signed in as ${authState.user?.email}. Create your organisation or join one.` : 'Each packer signs in so every bill shows who handled it.'}
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {authState.status === 'loading' && (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm font-bold text-gray-400">
+              <Loader2 size={18} className="animate-spin" /> Checking your account...
+            </div>
+          )}
+
+          {isSignedOut && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Email</label>
+                <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="you@example.com" autoComplete="email" className={inputClass}/>
+              </div>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Password</label>
+                <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && email && password && handleSignIn()} placeholder="Leave empty for an email link" autoComplete="current-password" className={inputClass}/>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <button onClick={handleSignUp} disabled={busy || !email || password.length < 6} className="py-3 rounded-xl font-bold text-gray-700 bg-gray-100 hover:bg-gray-200 transition-colors disabled:opacity-50 text-sm">
+                  Create Account
+                </button>
+                <button onClick={handleSignIn} disabled={busy || !email || !password} className="py-3 rounded-xl font-bold text-white bg-black hover:bg-gray-800 transition-colors disabled:opacity-50 text-sm flex items-center justify-center gap-2">
+                  {busy ? <Loader2 size={16} className="animate-spin" /> : <KeyRound size={16} />} Sign In
+                </button>
+              </div>
+              <button onClick={handleMagicLink} disabled={busy || !email} className="w-full py-3 rounded-xl font-bold text-green-700 bg-green-50 border border-green-100 hover:bg-green-100 transition-colors disabled:opacity-50 text-sm flex items-center justify-center gap-2">
+                <Mail size={16} /> Email Me a Sign-in Link
+              </button>
+            </>
+          )}
+
+          {needsOrg && (
+            <>
+              <div>
+                <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Your Name</label>
+                <input type="text" value={displayName} onChange={(e) => setDisplayName(e.target.value)} placeholder="Shown on bills you pack" className={inputClass}/>
+              </div>
+              <div className="flex bg-gray-100 p-1 rounded-xl">
+                {(['create', 'join'] as OrgMode[]).map(mode => (
+                  <button key={mode} onClick={() => setOrgMode(mode)} className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-lg py-2 transition-all ${orgMode === mode ? 'bg-white text-black shadow-sm' : 'text-gray-500'}`}>
+                    {mode === 'create' ? <><Building2 size={14}/> New Organisation</> : <><Users size={14}/> Join Team</>}
+                  </button>
+                ))}
+              </div>
+              {orgMode === 'create' ? (
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Organisation Name</label>
+                  <input type="text" value={orgName} onChange={(e) => setOrgName(e.target.value)} placeholder="e.g. Grace Traders" className={inputClass}/>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-xs font-bold text-gray-500 uppercase mb-2">Join Code</label>
+                  <input type="text" value={joinCode} onChange={(e) => setJoinCode(e.target.value)} placeholder="Ask a colleague (Settings > Account)" className={`${inputClass} font-mono`}/>
+                </div>
+              )}
+              <button
+                onClick={handleOrgSubmit}
+                disabled={busy || !displayName.trim() || (orgMode === 'create' ? !orgName.trim() : !joinCode.trim())}
+                className="w-full py-3 rounded-xl font-bold text-white bg-black hover:bg-gray-800 transition-colors disabled:opacity-50 text-sm flex items-center justify-center gap-2"
+              >
+                {busy && <Loader2 size={16} className="animate-spin" />}
+                {orgMode === 'create' ? 'Create & Continue' : 'Join & Continue'}
+              </button>
+            </>
+          )}
+
+          {error && <div className="p-3 bg-red-50 text-red-600 text-sm font-bold rounded-xl flex items-center gap-2"><AlertTriangle size={16} className="shrink-0"/> {error}</div>}
+          {notice && <div className="p-3 bg-green-50 text-green-700 text-sm font-bold rounded-xl flex items-center gap-2"><CheckCircle size={16} className="shrink-0"/> {notice}</div>}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center">
+          <button onClick={onOpenSettings} className="text-gray-400 text-sm font-bold hover:text-gray-600 flex items-center gap-1.5"><Database size={14}/> Cloud Settings</button>
+          {needsOrg && (
+            <button onClick={() => run(signOut)} className="text-red-500 text-sm font-bold hover:underline flex items-center gap-1.5"><LogOut size={14}/> Sign Out</button>
+          )}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default AuthScreen;
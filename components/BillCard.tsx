@@ -1,8 +1,20 @@
 
-import React, { useRef, useEffect } from 'react';
-import { BillData, PackingStatus } from '../types';
-import { getThemeStyles, COLOR_PALETTE } from '../services/storageService';
-import { Trash2, Calendar, MapPin, Check, Truck, AlertCircle, Edit3, Layers, User, ChevronDown, ChevronUp, Hash, Package, ExternalLink, Palette } from 'lucide-react';
+import React, { useRef, useEffect, useState } from 'react';
+import { BillData, BillEvent, BillItem, DeliveryStatus, ExtractedField, PackingStatus } from '../types';
+import { getThemeStyles, COLOR_PALETTE, getBillImages, withBillImages, getBillHistory } from '../services/storageService';
+import { getPackingProgress, toggleItemPacked, setBillStatus, reconcileStatusWithItems } from '../services/packingService';
+import { needsReview, isLowConfidence, getLowConfidenceFields, markFieldConfirmed, confirmExtraction, FIELD_LABELS } from '../services/reviewService';
+import { Trash2, Calendar, MapPin, Check, Truck, AlertCircle, Edit3, Layers, User, ChevronDown, ChevronUp, Hash, Package, Palette, ListOrdered, Plus, X, ShieldAlert, FilePlus, Files, History as HistoryIcon, RotateCcw, Loader2, QrCode, PackageCheck } from 'lucide-react';
+import ImageGallery from './ImageGallery';
+import CustomerAutocomplete from './CustomerAutocomplete';
+import { applyCustomer } from '../services/customerService';
+import { DELIVERY_STATUS_LABELS } from '../services/dispatchService';
+import { getLoadingProgress } from '../services/loadingService';
+import { setBoxCount, getBillBoxTotals, describeBoxTotals, formatWeight } from '../services/boxService';
+import BoxBreakdown from './BoxBreakdown';
+import { describeUser } from '../services/authService';
+import { can, isEditAllowed } from '../services/permissions';
+import { groupHistory, formatHistoryValue, revertBillTo, HistoryEntry, HISTORY_LABELS } from '../services/historyService';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface BillCardProps {
@@ -14,6 +26,9 @@ interface BillCardProps {
   isSelectionMode: boolean;
   isSelected: boolean;
   onToggleSelect: () => void;
+  onAddPage?: () => void; // Opens the camera to photograph another page of this bill
+  onConfirmDelivery?: () => void; // Opens proof of delivery for a bill that is out
+  onPrintLabels?: () => void; // Opens box label printing for this bill
 }
 
 const InputGroup: React.FC<{ label: string; icon?: React.ReactNode; children: React.ReactNode }> = ({ label, icon, children }) => (
@@ -26,6 +41,8 @@ const InputGroup: React.FC<{ label: string; icon?: React.ReactNode; children: Re
     </div>
 );
 
+const generateItemId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+
 const BillCard: React.FC<BillCardProps> = ({ 
     bill, 
     onChange, 
@@ -34,30 +51,100 @@ const BillCard: React.FC<BillCardProps> = ({
     toggleExpand,
     isSelectionMode,
     isSelected,
-    onToggleSelect
+    onToggleSelect,
+    onAddPage,
+    onConfirmDelivery,
+    onPrintLabels
 }) => {
   
   const handleChange = (field: keyof BillData, value: any) => {
-    onChange({ ...bill, [field]: value, updatedAt: Date.now() });
+    onChange(markFieldConfirmed({ ...bill, [field]: value, updatedAt: Date.now() }, field));
   };
 
+  // Low-confidence AI fields get an amber outline until checked
+  const reviewPending = needsReview(bill);
+  const lowConfidenceFields = getLowConfidenceFields(bill);
+  const confidenceRing = (field: ExtractedField) =>
+      isLowConfidence(bill, field) ? '!border-amber-400 !bg-amber-50/50 ring-2 ring-amber-400/20' : '';
+
+  // What this user's role may change (the database enforces the same rules)
+  const canRegroup = can('bill:regroup');
+  const canEditFlags = can('bill:flags');
+  const canDelete = can('bill:delete');
+  const canRemovePages = can('images:purge');
+  // Packers can't take a packed bill back to pending, so its items stay ticked too
+  const isPackLocked = bill.status === PackingStatus.PACKED && !can('bill:unpack');
+
   const handleStatusChange = (newStatus: PackingStatus) => {
-    const updates: Partial<BillData> = { 
-        status: newStatus,
-        updatedAt: Date.now() 
-    };
-    if (newStatus === PackingStatus.PACKED) {
-        updates.packedAt = Date.now();
-    } else {
-        updates.packedAt = undefined;
-    }
-    onChange({ ...bill, ...updates });
+    onChange(setBillStatus(bill, newStatus));
   };
 
   const toggleFlag = (field: keyof BillData) => {
       handleChange(field, !bill[field]);
   };
 
+  // --- LINE ITEMS ---
+  const items = bill.items || [];
+  const itemsSum = items.reduce((sum, item) => sum + (item.amount || 0), 0);
+  const progress = getPackingProgress(bill);
+  const loading = getLoadingProgress(bill);
+  const boxTotals = getBillBoxTotals(bill);
+  const boxSummary = bill.boxes?.length ? describeBoxTotals(boxTotals) : '';
+  const isPartial = bill.status === PackingStatus.PARTIAL;
+  const pages = getBillImages(bill);
+
+  const handleRemovePage = (index: number) => {
+      onChange(withBillImages({ ...bill, updatedAt: Date.now() }, pages.filter((_, i) => i !== index)));
+  };
+
+  const handleItemChange = (id: string, field: keyof BillItem, value: any) => {
+      handleChange('items', items.map(item => item.id === id ? { ...item, [field]: value } : item));
+  };
+
+  const addItem = () => {
+      const newItem: BillItem = { id: generateItemId(), name: '', quantity: 1, unit: 'pcs', amount: 0 };
+      onChange(reconcileStatusWithItems({ ...bill, items: [...items, newItem], updatedAt: Date.now() }));
+  };
+
+  const removeItem = (id: string) => {
+      onChange(reconcileStatusWithItems({ ...bill, items: items.filter(item => item.id !== id), updatedAt: Date.now() }));
+  };
+
+  const handleToggleItem = (id: string) => {
+      onChange(toggleItemPacked(bill, id));
+  };
+
+  // --- HISTORY ---
+  const [showHistory, setShowHistory] = useState(false);
+  const [history, setHistory] = useState<BillEvent[] | null>(null);
+
+  // Reload whenever the bill changes while the timeline is open
+  useEffect(() => {
+      if (!showHistory) return;
+      let active = true;
+      getBillHistory(bill.id)
+          .then(events => { if (active) setHistory(events); })
+          .catch(e => {
+              console.error("Failed to load history:", e);
+              if (active) setHistory([]);
+          });
+      return () => { active = false; };
+  }, [showHistory, bill.id, bill.updatedAt]);
+
+  const historyEntries = history ? groupHistory(history) : [];
+
+  const handleRevert = (entry: HistoryEntry) => {
+      if (!history) return;
+      const reverted = revertBillTo(bill, history, entry.changedAt);
+      if (!isEditAllowed(bill, reverted)) {
+          window.alert("Going back to this version changes the group, flags or packed status, which needs a supervisor.");
+          return;
+      }
+      if (window.confirm(`Restore this bill to how it was on ${new Date(entry.changedAt).toLocaleString()}?`)) {
+          onChange(reverted);
+      }
+  };
+
   const theme = getThemeStyles(bill.colorTheme, bill.description);
   
   const handleCardClick = (e: React.MouseEvent) => {
@@ -109,7 +196,7 @@ const BillCard: React.FC<BillCardProps> = ({
           <div className="flex items-start gap-3 flex-1 min-w-0 pr-10">
             {/* Status Indicator */}
              <div className="mt-1.5 relative shrink-0">
-                <div className={`w-3 h-3 rounded-full shadow-sm transition-colors ${bill.status === PackingStatus.PACKED ? 'bg-green-500' : 'bg-orange-500'}`} />
+                <div className={`w-3 h-3 rounded-full shadow-sm transition-colors ${bill.status === PackingStatus.PACKED ? 'bg-green-500' : isPartial ? 'bg-amber-400' : 'bg-orange-500'}`} />
                 {bill.status === PackingStatus.PACKED && (
                     <motion.div initial={{scale:0}} animate={{scale:1}} className="absolute -right-1 -bottom-1 bg-white rounded-full p-0.5">
                         <Check size={8} className="text-green-600" strokeWidth={4}/>
@@ -131,13 +218,23 @@ const BillCard: React.FC<BillCardProps> = ({
                         <Calendar size={11} className="text-gray-400"/> {bill.billDate}
                     </span>
                 )}
+                {bill.deliveryStatus && (
+                    <span className={`flex items-center gap-1 font-bold ${bill.deliveryStatus === DeliveryStatus.DELIVERED ? 'text-green-600' : 'text-blue-600'}`}>
+                        <Truck size={11}/> {DELIVERY_STATUS_LABELS[bill.deliveryStatus]}
+                    </span>
+                )}
+                {!bill.deliveryStatus && !!bill.loadedBoxes?.length && (
+                    <span className={`flex items-center gap-1 font-bold ${loading.complete ? 'text-green-600' : 'text-amber-600'}`}>
+                        <PackageCheck size={11}/> {loading.complete ? 'Loaded' : `Loaded ${loading.loaded}/${loading.total}`}
+                    </span>
+                )}
               </div>
             </div>
           </div>
           
           {/* Compact Box Badge */}
           {!isSelectionMode && (
-              <div className={`
+              <div title={boxSummary || undefined} className={`
                 flex flex-col items-center justify-center min-w-[3rem] px-2 py-1.5 rounded-xl border font-bold text-xs transition-colors shrink-0
                 ${bill.boxCount > 0 
                     ? 'bg-gray-900 text-white border-gray-900 shadow-md' 
@@ -146,6 +243,7 @@ const BillCard: React.FC<BillCardProps> = ({
               `}>
                  <span className="text-[9px] opacity-70 uppercase tracking-wider">Box</span>
                  <span className="text-sm leading-none">{bill.boxCount}</span>
+                 {boxTotals.weighedBoxes > 0 && <span className="text-[9px] opacity-70 mt-0.5 whitespace-nowrap">{formatWeight(boxTotals.weightKg)}</span>}
               </div>
           )}
         </div>
@@ -158,10 +256,38 @@ const BillCard: React.FC<BillCardProps> = ({
                         {bill.description}
                     </span>
                 )}
+                {boxSummary && (
+                    <span className="text-[10px] font-bold px-2 py-0.5 rounded border border-black/5 bg-white/50 text-gray-500 flex items-center gap-1">
+                        <Package size={10}/> {boxSummary}
+                    </span>
+                )}
+                {pages.length > 1 && (
+                    <span className="text-[10px] font-bold px-2 py-0.5 rounded border border-black/5 bg-white/50 text-gray-500 flex items-center gap-1">
+                        <Files size={10}/> {pages.length}
+                    </span>
+                )}
+                {reviewPending && (
+                    <span className="text-[10px] font-bold px-2 py-0.5 rounded border border-amber-200 bg-amber-50 text-amber-700 uppercase tracking-wide flex items-center gap-1">
+                        <ShieldAlert size={10}/> Review
+                    </span>
+                )}
                 {bill.isDelivery && <span className="w-2 h-2 rounded-full bg-blue-500 ring-2 ring-white" title="Delivery"/>}
                 {bill.hasCRN && <span className="w-2 h-2 rounded-full bg-amber-500 ring-2 ring-white" title="CRN"/>}
                 {bill.isEditedBill && <span className="w-2 h-2 rounded-full bg-purple-500 ring-2 ring-white" title="Edited"/>}
-                {bill.status === PackingStatus.PACKED && <span className="text-[10px] font-bold text-green-600 flex items-center gap-1 ml-auto"><Check size={10}/> Packed</span>}
+                {bill.status === PackingStatus.PACKED && <span className="text-[10px] font-bold text-green-600 flex items-center gap-1 ml-auto"><Check size={10}/> Packed{bill.packedBy && ` · ${describeUser(bill.packedBy)}`}</span>}
+                {isPartial && <span className="text-[10px] font-bold text-amber-600 flex items-center gap-1 ml-auto">{progress.packed}/{progress.total} items</span>}
+            </div>
+        )}
+
+        {/* Partial Pack Progress */}
+        {isPartial && progress.total > 0 && !isSelectionMode && (
+            <div className="mt-2 ml-6 mr-10 h-1.5 bg-black/5 rounded-full overflow-hidden">
+                <motion.div
+                    className="h-full bg-amber-400 rounded-full"
+                    initial={false}
+                    animate={{ width: `${(progress.packed / progress.total) * 100}%` }}
+                    transition={{ duration: 0.3 }}
+                />
             </div>
         )}
 
@@ -184,15 +310,35 @@ const BillCard: React.FC<BillCardProps> = ({
         >
             <div className="px-4 pb-4 space-y-6">
                 
+                {/* 0. AI REVIEW NOTICE */}
+                {reviewPending && (
+                    <div className="p-3 bg-amber-50 rounded-xl border border-amber-200 flex items-center gap-3">
+                        <ShieldAlert size={20} className="text-amber-600 shrink-0" />
+                        <div className="flex-1 min-w-0 text-xs">
+                            <p className="font-black text-amber-900">
+                                {bill.extraction?.status === 'failed' ? 'AI could not read this bill' : bill.extraction?.status === 'empty' ? 'AI found no details on this bill' : 'AI is unsure about some details'}
+                            </p>
+                            <p className="font-medium text-amber-700 truncate">
+                                {lowConfidenceFields.length > 0 ? `Check: ${lowConfidenceFields.map(f => FIELD_LABELS[f]).join(', ')}` : 'Please fill in and confirm the details.'}
+                            </p>
+                        </div>
+                        <button onClick={() => onChange(confirmExtraction(bill))} className="px-3 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-lg text-xs font-bold flex items-center gap-1 shrink-0 transition-colors">
+                            <Check size={12} strokeWidth={3}/> Confirm
+                        </button>
+                    </div>
+                )}
+
                 {/* 1. STATUS & LOGISTICS CARD */}
                 <div className="p-3 bg-gray-50 rounded-xl border border-gray-100 grid grid-cols-12 gap-3">
                      {/* Status Toggle */}
                      <div className="col-span-8 bg-white p-1 rounded-lg border border-gray-200 flex shadow-sm">
                          <button 
                             onClick={() => handleStatusChange(PackingStatus.PENDING)}
-                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all ${bill.status === PackingStatus.PENDING ? 'bg-orange-50 text-orange-600 shadow-sm ring-1 ring-orange-100' : 'text-gray-400 hover:bg-gray-50'}`}
+                            disabled={isPackLocked}
+                            title={isPackLocked ? 'Only supervisors can un-pack a bill' : undefined}
+                            className={`flex-1 flex items-center justify-center gap-1.5 text-xs font-bold rounded-md py-2 transition-all disabled:opacity-40 disabled:cursor-not-allowed ${bill.status === PackingStatus.PENDING ? 'bg-orange-50 text-orange-600 shadow-sm ring-1 ring-orange-100' : isPartial ? 'bg-amber-50 text-amber-600 shadow-sm ring-1 ring-amber-100' : 'text-gray-400 hover:bg-gray-50'}`}
                          >
-                            <AlertCircle size={14} /> Pending
+                            <AlertCircle size={14} /> {isPartial ? `Partial ${progress.packed}/${progress.total}` : 'Pending'}
                          </button>
                          <button 
                             onClick={() => handleStatusChange(PackingStatus.PACKED)}
@@ -204,12 +350,12 @@ const BillCard: React.FC<BillCardProps> = ({
 
                      {/* Box Counter */}
                      <div className="col-span-4 bg-white rounded-lg border border-gray-200 flex items-center justify-between px-1 shadow-sm">
-                        <button onClick={() => handleChange('boxCount', Math.max(0, bill.boxCount - 1))} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronDown size={14}/></button>
+                        <button onClick={() => onChange(setBoxCount(bill, bill.boxCount - 1))} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronDown size={14}/></button>
                         <div className="flex flex-col items-center">
                             <span className="text-[9px] text-gray-400 font-bold uppercase">Box</span>
                             <span className="text-sm font-black text-gray-900 leading-none">{bill.boxCount}</span>
                         </div>
-                        <button onClick={() => handleChange('boxCount', bill.boxCount + 1)} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronUp size={14}/></button>
+                        <button onClick={() => onChange(setBoxCount(bill, bill.boxCount + 1))} className="p-2 text-gray-400 hover:text-black active:scale-90 transition-transform"><ChevronUp size={14}/></button>
                      </div>
                 </div>
 
@@ -217,11 +363,11 @@ const BillCard: React.FC<BillCardProps> = ({
                 <div className="space-y-4">
                     <InputGroup label="Customer Details" icon={<User size={12}/>}>
                         <div className="space-y-3">
-                            <input 
-                                type="text" 
+                            <CustomerAutocomplete
                                 value={bill.customerName}
-                                onChange={(e) => handleChange('customerName', e.target.value)}
-                                className="w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-base font-bold text-gray-900 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm"
+                                onChange={(value) => handleChange('customerName', value)}
+                                onSelect={(customer) => onChange(markFieldConfirmed(applyCustomer({ ...bill, updatedAt: Date.now() }, customer, canRegroup), 'customerName'))}
+                                className={`w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-base font-bold text-gray-900 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm ${confidenceRing('customerName')}`}
                                 placeholder="Customer Name"
                             />
                             <div className="grid grid-cols-2 gap-3">
@@ -231,7 +377,7 @@ const BillCard: React.FC<BillCardProps> = ({
                                         type="text" 
                                         value={bill.invoiceNo}
                                         onChange={(e) => handleChange('invoiceNo', e.target.value)}
-                                        className="w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                        className={`w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none ${confidenceRing('invoiceNo')}`}
                                         placeholder="Invoice #"
                                     />
                                 </div>
@@ -241,7 +387,7 @@ const BillCard: React.FC<BillCardProps> = ({
                                         type="date" 
                                         value={bill.billDate}
                                         onChange={(e) => handleChange('billDate', e.target.value)}
-                                        className="w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                        className={`w-full pl-9 pr-3 py-2 bg-white border border-gray-200 rounded-xl text-sm font-bold text-gray-800 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none ${confidenceRing('billDate')}`}
                                     />
                                 </div>
                             </div>
@@ -253,13 +399,96 @@ const BillCard: React.FC<BillCardProps> = ({
                             value={bill.address}
                             onChange={(e) => handleChange('address', e.target.value)}
                             rows={2}
-                            className="w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-700 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none shadow-sm"
+                            className={`w-full px-3 py-3 bg-white border border-gray-200 rounded-xl text-sm font-medium text-gray-700 placeholder:text-gray-300 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none resize-none shadow-sm ${confidenceRing('address')}`}
                             placeholder="City, Area, or Full Address..."
                         />
                     </InputGroup>
                 </div>
 
-                {/* 3. METADATA & FLAGS */}
+                {/* 3. LINE ITEMS */}
+                <div>
+                     <div className="flex items-center justify-between pl-1 mb-2">
+                        <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+                            <ListOrdered size={12} />
+                            Items ({items.length}{progress.packed > 0 ? ` · ${progress.packed} packed` : ''})
+                        </div>
+                        {!isPackLocked && (
+                            <button onClick={addItem} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg transition-colors">
+                                <Plus size={12} strokeWidth={3} /> Add Item
+                            </button>
+                        )}
+                     </div>
+                     {items.length > 0 && (
+                        <div className="bg-gray-50 rounded-xl border border-gray-100 p-2 space-y-1.5">
+                            <div className="grid grid-cols-[1.5rem_1fr_3.5rem_3rem_4.5rem_1.5rem] gap-1.5 text-[9px] font-bold text-gray-400 uppercase tracking-wider px-1">
+                                <span />
+                                <span>Item</span><span className="text-right">Qty</span><span>Unit</span><span className="text-right">Amount</span><span />
+                            </div>
+                            {items.map(item => (
+                                <div key={item.id} className="grid grid-cols-[1.5rem_1fr_3.5rem_3rem_4.5rem_1.5rem] gap-1.5 items-center">
+                                    <button
+                                        onClick={() => handleToggleItem(item.id)}
+                                        disabled={isPackLocked}
+                                        title={item.packedAt ? `Packed${item.packedBy ? ` by ${describeUser(item.packedBy)}` : ''} at ${new Date(item.packedAt).toLocaleString()}` : 'Mark item packed'}
+                                        className={`w-5 h-5 rounded-md border flex items-center justify-center transition-colors ${item.packedAt ? 'bg-green-500 border-green-500 text-white' : 'bg-white border-gray-300 text-transparent hover:border-gray-400'}`}
+                                    >
+                                        <Check size={12} strokeWidth={4}/>
+                                    </button>
+                                    <div className="min-w-0">
+                                        <input
+                                            type="text"
+                                            value={item.name}
+                                            onChange={(e) => handleItemChange(item.id, 'name', e.target.value)}
+                                            className={`w-full px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none ${item.packedAt ? 'text-gray-400 line-through' : 'text-gray-800'}`}
+                                            placeholder="Item name"
+                                        />
+                                        {item.packedAt && (
+                                            <p className="text-[9px] font-bold text-green-600 truncate px-1 mt-0.5">
+                                                {item.packedBy ? describeUser(item.packedBy) : 'Packed'} · {new Date(item.packedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+                                            </p>
+                                        )}
+                                    </div>
+                                    <input
+                                        type="number"
+                                        value={item.quantity}
+                                        onChange={(e) => handleItemChange(item.id, 'quantity', parseFloat(e.target.value) || 0)}
+                                        className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 text-right focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={item.unit}
+                                        onChange={(e) => handleItemChange(item.id, 'unit', e.target.value)}
+                                        className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-medium text-gray-600 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                    />
+                                    <input
+                                        type="number"
+                                        value={item.amount}
+                                        onChange={(e) => handleItemChange(item.id, 'amount', parseFloat(e.target.value) || 0)}
+                                        className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 text-right focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                    />
+                                    <button onClick={() => removeItem(item.id)} className="p-1 text-gray-300 hover:text-red-500 transition-colors"><X size={14} /></button>
+                                </div>
+                            ))}
+                            <div className="flex items-center justify-end gap-2 pt-1.5 px-1 border-t border-gray-200 text-xs font-bold">
+                                <span className="text-[10px] text-gray-400 uppercase tracking-wider">Bill Total</span>
+                                <input
+                                    type="number"
+                                    value={bill.totalAmount || 0}
+                                    onChange={(e) => handleChange('totalAmount', parseFloat(e.target.value) || 0)}
+                                    className="w-24 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-black text-gray-900 text-right focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none"
+                                />
+                            </div>
+                            {!!bill.totalAmount && Math.abs(itemsSum - bill.totalAmount) > 0.01 && (
+                                <p className="text-[10px] font-bold text-amber-600 text-right px-1">Items add up to {itemsSum.toFixed(2)}</p>
+                            )}
+                        </div>
+                     )}
+                </div>
+
+                {/* 4. BOXES */}
+                <BoxBreakdown bill={bill} onChange={onChange} />
+
+                {/* 5. METADATA & FLAGS */}
                 <div>
                      <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1 mb-2">
                         <Layers size={12} />
@@ -275,8 +504,9 @@ const BillCard: React.FC<BillCardProps> = ({
                              <button
                                 key={tag.key}
                                 onClick={() => toggleFlag(tag.key as keyof BillData)}
+                                disabled={!canEditFlags}
                                 className={`
-                                    flex items-center gap-1.5 px-3 py-2 rounded-lg text-[11px] font-bold border transition-all
+                                    flex items-center gap-1.5 px-3 py-2 rounded-lg text-[11px] font-bold border transition-all disabled:cursor-not-allowed
                                     ${bill[tag.key as keyof BillData] 
                                         ? `bg-${tag.color}-50 text-${tag.color}-700 border-${tag.color}-200 ring-1 ring-${tag.color}-500/20` 
                                         : 'bg-white text-gray-400 border-gray-100 hover:border-gray-200 hover:bg-gray-50'
@@ -290,55 +520,159 @@ const BillCard: React.FC<BillCardProps> = ({
                      </div>
                 </div>
 
-                {/* 4. CUSTOM COLOR PICKER */}
+                {/* 6. CUSTOM COLOR PICKER */}
+                {canRegroup && (
+                    <div>
+                         <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1 mb-2">
+                            <Palette size={12} />
+                            Appearance
+                         </div>
+                         <div className="flex flex-wrap gap-2 bg-gray-50 p-2 rounded-xl border border-gray-100">
+                             {COLOR_PALETTE.map((c) => (
+                                 <button
+                                    key={c.name}
+                                    onClick={() => handleChange('colorTheme', c.name)}
+                                    className={`
+                                        w-6 h-6 rounded-full border-2 transition-all duration-200
+                                        ${c.bg}
+                                        ${bill.colorTheme === c.name 
+                                            ? 'border-black scale-110 ring-2 ring-black/10' 
+                                            : 'border-transparent hover:scale-110 hover:border-gray-300'
+                                        }
+                                    `}
+                                    title={c.name}
+                                 />
+                             ))}
+                         </div>
+                    </div>
+                )}
+
+                {/* 7. BILL PAGES */}
+                {pages.length > 0 && (
+                    <InputGroup label={pages.length > 1 ? `Bill Pages (${pages.length})` : 'Receipt'} icon={<Files size={12}/>}>
+                        <ImageGallery images={pages} onRemove={canRemovePages ? handleRemovePage : undefined} />
+                    </InputGroup>
+                )}
+
+                {/* 8. DELIVERY */}
+                {bill.deliveryStatus && (
+                    <InputGroup label="Delivery" icon={<Truck size={12}/>}>
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-100 space-y-2">
+                            <p className={`text-xs font-bold ${bill.deliveryStatus === DeliveryStatus.DELIVERED ? 'text-green-600' : 'text-blue-600'}`}>
+                                {DELIVERY_STATUS_LABELS[bill.deliveryStatus]}
+                                {bill.deliveryStatus === DeliveryStatus.DELIVERED && bill.deliveredAt && ` · ${new Date(bill.deliveredAt).toLocaleString()}`}
+                                {bill.deliveredBy && ` · by ${describeUser(bill.deliveredBy)}`}
+                            </p>
+                            {bill.deliveryProof && (
+                                <>
+                                    <p className="text-xs font-medium text-gray-700">Received by <b>{bill.deliveryProof.receiverName || '—'}</b></p>
+                                    {bill.deliveryProof.photoUrls.length > 0 && <ImageGallery images={bill.deliveryProof.photoUrls} />}
+                                    {bill.deliveryProof.signatureUrl && (
+                                        <img src={bill.deliveryProof.signatureUrl} alt="Receiver's signature" className="h-20 bg-white border border-gray-200 rounded-lg" />
+                                    )}
+                                </>
+                            )}
+                            {bill.deliveryStatus === DeliveryStatus.OUT_FOR_DELIVERY && onConfirmDelivery && can('bill:pack') && (
+                                <button onClick={onConfirmDelivery} className="w-full py-2.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-xs font-bold flex items-center justify-center gap-1">
+                                    <Check size={14}/> Confirm Delivery
+                                </button>
+                            )}
+                        </div>
+                    </InputGroup>
+                )}
+
+                {/* Attribution */}
+                {(bill.createdBy || bill.updatedBy || bill.packedBy) && (
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] font-bold text-gray-400">
+                        {bill.createdBy && <span className="flex items-center gap-1"><User size={10}/> Added by {describeUser(bill.createdBy)}</span>}
+                        {bill.updatedBy && bill.updatedBy !== bill.createdBy && <span>Last edit by {describeUser(bill.updatedBy)}</span>}
+                        {bill.packedBy && (
+                            <span className="text-green-600 flex items-center gap-1">
+                                <Check size={10}/> Packed by {describeUser(bill.packedBy)}{bill.packedAt && ` at ${new Date(bill.packedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                            </span>
+                        )}
+                    </div>
+                )}
+
+                {/* History */}
                 <div>
-                     <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1 mb-2">
-                        <Palette size={12} />
-                        Appearance
-                     </div>
-                     <div className="flex flex-wrap gap-2 bg-gray-50 p-2 rounded-xl border border-gray-100">
-                         {COLOR_PALETTE.map((c) => (
-                             <button
-                                key={c.name}
-                                onClick={() => handleChange('colorTheme', c.name)}
-                                className={`
-                                    w-6 h-6 rounded-full border-2 transition-all duration-200
-                                    ${c.bg}
-                                    ${bill.colorTheme === c.name 
-                                        ? 'border-black scale-110 ring-2 ring-black/10' 
-                                        : 'border-transparent hover:scale-110 hover:border-gray-300'
-                                    }
-                                `}
-                                title={c.name}
-                             />
-                         ))}
-                     </div>
+                    <button onClick={() => setShowHistory(!showHistory)} className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider pl-1 hover:text-gray-600 transition-colors">
+                        <HistoryIcon size={12} /> {showHistory ? 'Hide History' : 'Show History'}
+                    </button>
+                    {showHistory && (
+                        <div className="mt-2 bg-gray-50 rounded-xl border border-gray-100 p-3">
+                            {!history ? (
+                                <div className="flex items-center gap-2 text-xs font-bold text-gray-400"><Loader2 size={12} className="animate-spin" /> Loading history...</div>
+                            ) : historyEntries.length === 0 ? (
+                                <p className="text-xs font-bold text-gray-400">No changes recorded yet.</p>
+                            ) : (
+                                <ol className="relative border-l-2 border-gray-200 ml-1 space-y-3">
+                                    {historyEntries.map((entry, index) => (
+                                        <li key={`${entry.changedAt}-${entry.changedBy}`} className="pl-4 relative">
+                                            <span className={`absolute -left-[5px] top-1.5 w-2 h-2 rounded-full ${index === 0 ? 'bg-indigo-500' : 'bg-gray-300'}`} />
+                                            <div className="flex items-start justify-between gap-2">
+                                                <p className="text-[10px] font-bold text-gray-400">
+                                                    {new Date(entry.changedAt).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                                                    {entry.changedBy && ` · ${describeUser(entry.changedBy)}`}
+                                                </p>
+                                                {index > 0 && (
+                                                    <button onClick={() => handleRevert(entry)} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-1.5 py-0.5 rounded-md transition-colors shrink-0">
+                                                        <RotateCcw size={10} /> Restore
+                                                    </button>
+                                                )}
+                                            </div>
+                                            <ul className="mt-0.5 space-y-0.5">
+                                                {entry.events.map(event => (
+                                                    <li key={event.id} className="text-xs text-gray-700">
+                                                        <span className="font-bold">{HISTORY_LABELS[event.field] || event.field}</span>
+                                                        {event.field !== 'created' && event.field !== 'deleted' && (
+                                                            <span className="text-gray-500">: {formatHistoryValue(event.field, event.oldValue)} → <span className="text-gray-900 font-medium">{formatHistoryValue(event.field, event.newValue)}</span></span>
+                                                        )}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+                        </div>
+                    )}
                 </div>
 
-                {/* 5. FOOTER ACTIONS */}
+                {/* 9. FOOTER ACTIONS */}
                 <div className="pt-4 mt-2 border-t border-gray-100 flex gap-3">
-                    {bill.imageUrl && (
-                        <div className="flex-1 flex items-center gap-3 p-2 bg-gray-50 rounded-xl border border-gray-200 group cursor-pointer hover:bg-gray-100 transition-colors relative overflow-hidden">
-                             <div className="w-10 h-10 rounded-lg overflow-hidden bg-gray-200 shrink-0 border border-gray-300 relative">
-                                <img src={bill.imageUrl} alt="Bill" className="w-full h-full object-cover opacity-90 group-hover:opacity-100 transition-opacity" />
-                             </div>
-                             <div className="flex-1 min-w-0">
-                                <p className="text-[10px] font-bold text-gray-400 uppercase">Attachment</p>
-                                <p className="text-xs font-bold text-indigo-600 truncate flex items-center gap-1">
-                                    View Receipt <ExternalLink size={10}/>
-                                </p>
-                             </div>
-                             {/* Click target overlay */}
-                             <a href={bill.imageUrl} target="_blank" rel="noopener noreferrer" className="absolute inset-0 z-10" />
-                        </div>
+                    {onAddPage && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onAddPage(); }}
+                            className="flex-1 flex items-center gap-3 p-2 bg-gray-50 rounded-xl border border-gray-200 hover:bg-gray-100 transition-colors"
+                        >
+                            <div className="w-10 h-10 rounded-lg bg-white border border-gray-200 flex items-center justify-center text-indigo-600 shrink-0">
+                                <FilePlus size={18}/>
+                            </div>
+                            <div className="flex-1 min-w-0 text-left">
+                                <p className="text-[10px] font-bold text-gray-400 uppercase">Multi-page bill</p>
+                                <p className="text-xs font-bold text-indigo-600 truncate">{pages.length > 0 ? 'Add Another Page' : 'Attach Photo'}</p>
+                            </div>
+                        </button>
                     )}
                     
-                    <button 
-                        onClick={(e) => { e.stopPropagation(); onDelete(bill.id); }}
-                        className="px-4 py-2 rounded-xl border border-red-100 text-red-500 bg-red-50 hover:bg-red-100 hover:text-red-700 font-bold text-xs flex flex-col items-center justify-center gap-1 transition-colors min-w-[80px]"
-                    >
-                        <Trash2 size={16} /> Delete
-                    </button>
+                    {onPrintLabels && (
+                        <button
+                            onClick={(e) => { e.stopPropagation(); onPrintLabels(); }}
+                            className="px-4 py-2 rounded-xl border border-gray-200 text-gray-700 bg-gray-50 hover:bg-gray-100 hover:text-black font-bold text-xs flex flex-col items-center justify-center gap-1 transition-colors min-w-[80px]"
+                        >
+                            <QrCode size={16} /> Labels
+                        </button>
+                    )}
+
+                    {canDelete && (
+                        <button 
+                            onClick={(e) => { e.stopPropagation(); onDelete(bill.id); }}
+                            className="px-4 py-2 rounded-xl border border-red-100 text-red-500 bg-red-50 hover:bg-red-100 hover:text-red-700 font-bold text-xs flex flex-col items-center justify-center gap-1 transition-colors min-w-[80px]"
+                        >
+                            <Trash2 size={16} /> Delete
+                        </button>
+                    )}
                 </div>
 
             </div>
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Package, Plus, X, Scale } from 'lucide-react';
+import { BillData, PackedBox } from '../types';
+import {
+  BOX_TYPES, startBoxList, addBox, removeBox, updateBox, addToBox, removeFromBox,
+  getUnboxedItems, getBillBoxTotals, describeBoxTotals,
+} from '../services/boxService';
+
+interface BoxBreakdownProps {
+  bill: BillData;
+  onChange: (bill: BillData) => void;
+}
+
+const OTHER = '__other';
+
+// Adds an item line (or anything typed in) to one box
+const AddToBox: React.FC<{ bill: BillData; box: PackedBox; onChange: (bill: BillData) => void }> = ({ bill, box, onChange }) => {
+  const unboxed = getUnboxedItems(bill);
+  const [choice, setChoice] = useState('');
+  const [typing, setTyping] = useState(false); // Something that isn't a line on the bill
+  const [name, setName] = useState('');
+  const [quantity, setQuantity] = useState('');
+
+  const picked = unboxed.find(u => u.item.id === choice);
+
+  const handleAdd = () => {
+    const qty = parseFloat(quantity) || picked?.remaining || 1;
+    onChange(addToBox(bill, box.id, picked
+      ? { itemId: picked.item.id, name: picked.item.name, quantity: qty }
+      : { name, quantity: qty }));
+    setChoice('');
+    setTyping(false);
+    setName('');
+    setQuantity('');
+  };
+
+  return (
+    <div className="grid grid-cols-[1fr_3.5rem_1.75rem] gap-1.5">
+      {unboxed.length > 0 && !typing ? (
+        <select
+          value={choice}
+          onChange={(e) => e.target.value === OTHER ? setTyping(true) : setChoice(e.target.value)}
+          className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 outline-none focus:ring-2 focus:ring-indigo-500/20"
+        >
+          <option value="">Add an item…</option>
+          {unboxed.map(({ item, remaining }) => (
+            <option key={item.id} value={item.id}>{item.name || 'Unnamed item'} ({remaining} left)</option>
+          ))}
+          <option value={OTHER}>Something else…</option>
+        </select>
+      ) : (
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 placeholder:text-gray-300 outline-none focus:ring-2 focus:ring-indigo-500/20"
+          placeholder="What's in it"
+          autoFocus={typing}
+        />
+      )}
+      <input
+        type="number"
+        value={quantity}
+        onChange={(e) => setQuantity(e.target.value)}
+        className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 text-right placeholder:text-gray-300 outline-none focus:ring-2 focus:ring-indigo-500/20"
+        placeholder={picked ? String(picked.remaining) : 'Qty'}
+      />
+      <button onClick={handleAdd} disabled={!picked && !name.trim()} className="flex items-center justify-center rounded-lg bg-indigo-50 text-indigo-600 hover:bg-indigo-100 disabled:opacity-30">
+        <Plus size={14} strokeWidth={3}/>
+      </button>
+    </div>
+  );
+};
+
+// The card's per-box list: type, weight and contents of each box
+const BoxBreakdown: React.FC<BoxBreakdownProps> = ({ bill, onChange }) => {
+  const boxes = bill.boxes || [];
+  const totals = getBillBoxTotals(bill);
+  const unboxed = getUnboxedItems(bill);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pl-1 mb-2">
+        <div className="flex items-center gap-1.5 text-[10px] font-bold text-gray-400 uppercase tracking-wider">
+          <Package size={12} />
+          Boxes ({totals.boxes}{boxes.length > 0 && describeBoxTotals(totals) ? ` · ${describeBoxTotals(totals)}` : ''})
+        </div>
+        <button onClick={() => onChange(boxes.length > 0 ? addBox(bill) : startBoxList(bill))} className="flex items-center gap-1 text-[10px] font-bold text-indigo-600 hover:bg-indigo-50 px-2 py-1 rounded-lg transition-colors">
+          <Plus size={12} strokeWidth={3} /> {boxes.length > 0 ? 'Add Box' : 'List Boxes'}
+        </button>
+      </div>
+
+      {boxes.length > 0 && (
+        <div className="space-y-2">
+          <datalist id={`box-types-${bill.id}`}>
+            {BOX_TYPES.map(type => <option key={type} value={type} />)}
+          </datalist>
+          {boxes.map((box, index) => (
+            <div key={box.id} className="bg-gray-50 rounded-xl border border-gray-100 p-2 space-y-1.5">
+              <div className="grid grid-cols-[2.5rem_1fr_5rem_1.5rem] gap-1.5 items-center">
+                <span className="text-xs font-black text-gray-900">#{index + 1}</span>
+                <input
+                  type="text"
+                  list={`box-types-${bill.id}`}
+                  value={box.type}
+                  onChange={(e) => onChange(updateBox(bill, box.id, { type: e.target.value }))}
+                  className="min-w-0 px-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 outline-none focus:ring-2 focus:ring-indigo-500/20"
+                  placeholder="Type"
+                />
+                <div className="relative">
+                  <Scale size={11} className="absolute left-2 top-2 text-gray-300"/>
+                  <input
+                    type="number"
+                    value={box.weightKg ?? ''}
+                    onChange={(e) => onChange(updateBox(bill, box.id, { weightKg: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0) }))}
+                    className="w-full pl-6 pr-2 py-1.5 bg-white border border-gray-200 rounded-lg text-xs font-bold text-gray-800 text-right placeholder:text-gray-300 outline-none focus:ring-2 focus:ring-indigo-500/20"
+                    placeholder="kg"
+                  />
+                </div>
+                <button onClick={() => onChange(removeBox(bill, box.id))} className="p-1 text-gray-300 hover:text-red-500 transition-colors"><X size={14} /></button>
+              </div>
+
+              {box.contents.length > 0 && (
+                <div className="flex flex-wrap gap-1 pl-[2.875rem]">
+                  {box.contents.map((content, i) => (
+                    <span key={i} className="text-[10px] font-bold px-2 py-0.5 rounded-md border border-gray-200 bg-white text-gray-700 flex items-center gap-1">
+                      {content.name} × {content.quantity}
+                      <button onClick={() => onChange(removeFromBox(bill, box.id, i))} className="text-gray-300 hover:text-red-500"><X size={10}/></button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <div className="pl-[2.875rem]">
+                <AddToBox bill={bill} box={box} onChange={onChange} />
+              </div>
+            </div>
+          ))}
+
+          {unboxed.length > 0 && (
+            <p className="text-[10px] font-bold text-amber-600 px-1">
+              Not in a box yet: {unboxed.map(({ item, remaining }) => `${item.name || 'Unnamed item'} × ${remaining}`).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoxBreakdown;
@@ -1,14 +1,41 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { X, Zap, ZapOff, RefreshCw, Check, Grid3x3, AlertTriangle, Layers, Camera as CameraIcon } from 'lucide-react';
+import { X, Zap, ZapOff, RefreshCw, Check, ScanLine, AlertTriangle, Layers, Camera as CameraIcon, FilePlus, FileText, Crop, ScanBarcode } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { detectDocument, isSameQuad, scanDocument, Quad } from '../services/documentScanner';
+import { scanVideoFrame, ScannedCode } from '../services/codeScanner';
+
+// The bill that extra pages go to (the card that is open behind the camera)
+interface PageTarget {
+  id: string;
+  label: string;
+  pageCount: number;
+}
+
+// Page detection runs on a timer rather than every frame to spare the phone's CPU
+const DETECTION_INTERVAL_MS = 150;
+// Consecutive matching detections (about a second) before auto-capture fires
+const STABLE_FRAMES = 7;
+const CODE_SCAN_INTERVAL_MS = 250;
+// In continuous scanning, a code held in view is only reported again after it has been out of sight this long
+const CODE_REPEAT_MS = 2000;
+
+export type CaptureMode = 'photo' | 'scan';
 
 interface CameraCaptureProps {
-  onCapture: (file: File) => void;
+  onCapture?: (file: File, pageOfBillId?: string) => void; // Not needed when only scanning
   onClose: () => void;
+  pageTarget?: PageTarget | null;
+  startInPageMode?: boolean;
+  onScan?: (code: ScannedCode) => void; // Enables the barcode/QR scan mode
+  initialMode?: CaptureMode;
+  continuousScan?: boolean; // Keep scanning after each code, with no photo mode (loading check)
+  scanHint?: string;
+  scanPanel?: React.ReactNode; // Feedback shown under the viewfinder while scanning
+  documentMode?: boolean; // Find, auto-capture and clean up a paper page; off for plain photos (drop-off proof)
 }
 
-const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose, pageTarget, startInPageMode = false, onScan, initialMode = 'photo', continuousScan = false, scanHint, scanPanel, documentMode = true }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -16,9 +43,21 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
   const [capturedImage, setCapturedImage] = useState<string | null>(null);
   const [isFlashSupported, setIsFlashSupported] = useState(false);
   const [flashOn, setFlashOn] = useState(false);
-  const [showGrid, setShowGrid] = useState(true);
+  const [rawImage, setRawImage] = useState<string | null>(null); // Uncropped frame, in case detection got it wrong
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+  const [stableProgress, setStableProgress] = useState(0); // 0..1 towards auto-capture
+  const quadRef = useRef<Quad | null>(null);
+  const autoArmedRef = useRef(true); // Re-armed once the page moves, so one page isn't captured twice
   const [sessionCount, setSessionCount] = useState(0);
   const [showSavedToast, setShowSavedToast] = useState(false);
+  const [pageMode, setPageMode] = useState(startInPageMode); // Add shots as pages of pageTarget
+  const addingPage = pageMode && !!pageTarget;
+  const [mode, setMode] = useState<CaptureMode>(onScan ? initialMode : 'photo');
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
 
   // Initialize Camera with Fallback Logic
   useEffect(() => {
@@ -97,6 +136,78 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
     };
   }, []);
 
+  // Live page detection and auto-capture
+  useEffect(() => {
+    if (!stream || capturedImage || mode !== 'photo' || !documentMode) return;
+    let stableFrames = 0;
+
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.videoWidth) return;
+
+      const { videoWidth: width, videoHeight: height } = video;
+      const next = detectDocument(video, width, height);
+      const previous = quadRef.current;
+      if (next && previous && isSameQuad(next, previous, width, height)) {
+        stableFrames++;
+      } else {
+        stableFrames = 0;
+        autoArmedRef.current = true;
+      }
+
+      quadRef.current = next;
+      setQuad(next);
+      setFrameSize(prev => (prev.width === width && prev.height === height) ? prev : { width, height });
+      setStableProgress(next ? Math.min(1, stableFrames / STABLE_FRAMES) : 0);
+
+      if (autoCapture && next && autoArmedRef.current && stableFrames >= STABLE_FRAMES) {
+        autoArmedRef.current = false;
+        handleCapture();
+      }
+    }, DETECTION_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [stream, capturedImage, autoCapture, mode, documentMode]);
+
+  // Barcode/QR scanning; hands over the first code read, or every new one when continuous
+  useEffect(() => {
+    if (!stream || mode !== 'scan' || !onScanRef.current) return;
+    let busy = false;
+    let done = false;
+    let lastValue = '';
+    let lastSeenAt = 0;
+
+    const timer = window.setInterval(async () => {
+      const video = videoRef.current;
+      if (!video || busy || done) return;
+      busy = true;
+      try {
+        const code = await scanVideoFrame(video);
+        if (!code || done) return;
+        if (continuousScan) {
+          const now = Date.now();
+          const repeated = code.value === lastValue && now - lastSeenAt < CODE_REPEAT_MS;
+          lastValue = code.value;
+          lastSeenAt = now;
+          if (repeated) return;
+        } else {
+          done = true;
+        }
+        navigator.vibrate?.(80);
+        onScanRef.current?.(code);
+      } catch (e) {
+        console.warn("Code scan failed:", e);
+      } finally {
+        busy = false;
+      }
+    }, CODE_SCAN_INTERVAL_MS);
+
+    return () => {
+      done = true;
+      window.clearInterval(timer);
+    };
+  }, [stream, mode, continuousScan]);
+
   // Toggle Flash
   const toggleFlash = async () => {
     if (!stream || !isFlashSupported) return;
@@ -121,11 +232,19 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
       
-      const ctx = canvas.getContext('2d');
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
       if (ctx) {
         ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        setCapturedImage(dataUrl);
+        setShowOriginal(false);
+        if (!documentMode) {
+          setRawImage(null);
+          setCapturedImage(canvas.toDataURL('image/jpeg', 0.9));
+          return;
+        }
+        setRawImage(canvas.toDataURL('image/jpeg', 0.9));
+        // Straighten and clean up the page before it goes on to compressImage
+        const page = scanDocument(canvas, quadRef.current);
+        setCapturedImage(page.toDataURL('image/jpeg', 0.9));
       }
     }
   };
@@ -140,11 +259,13 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
         });
   };
 
+  const finalImage = showOriginal && rawImage ? rawImage : capturedImage;
+
   // Save and Close
   const handleSaveAndClose = () => {
-    if (capturedImage) {
-        processImage(capturedImage, (file) => {
-            onCapture(file);
+    if (finalImage) {
+        processImage(finalImage, (file) => {
+            onCapture?.(file, addingPage ? pageTarget!.id : undefined);
             onClose();
         });
     }
@@ -152,9 +273,9 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
 
   // Save and Next (Batch Mode)
   const handleSaveAndNext = () => {
-    if (capturedImage) {
-        processImage(capturedImage, (file) => {
-            onCapture(file);
+    if (finalImage) {
+        processImage(finalImage, (file) => {
+            onCapture?.(file, addingPage ? pageTarget!.id : undefined);
             setSessionCount(prev => prev + 1);
             setShowSavedToast(true);
             setTimeout(() => setShowSavedToast(false), 2000);
@@ -166,6 +287,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
   // Retake
   const retake = () => {
     setCapturedImage(null);
+    setRawImage(null);
   };
 
   if (errorType) {
@@ -237,14 +359,17 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
              </div>
           )}
 
-          {!capturedImage && (
+          {!capturedImage && mode === 'photo' && (
               <div className="flex gap-4 pointer-events-auto">
+                 {documentMode && (
                  <button 
-                    onClick={() => setShowGrid(!showGrid)} 
-                    className={`p-3 rounded-full backdrop-blur-md border transition-all ${showGrid ? 'bg-yellow-400/20 text-yellow-400 border-yellow-400/50' : 'bg-black/40 text-white border-white/10'}`}
+                    onClick={() => setAutoCapture(!autoCapture)} 
+                    className={`p-3 rounded-full backdrop-blur-md border transition-all ${autoCapture ? 'bg-yellow-400/20 text-yellow-400 border-yellow-400/50' : 'bg-black/40 text-white border-white/10'}`}
+                    title={autoCapture ? 'Auto-capture on' : 'Auto-capture off'}
                  >
-                    <Grid3x3 size={24} />
+                    <ScanLine size={24} />
                  </button>
+                 )}
                  {isFlashSupported && (
                     <button 
                         onClick={toggleFlash} 
@@ -257,6 +382,27 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
           )}
        </div>
 
+       {/* Capture Target: new bill or another page of the open one */}
+       {pageTarget && !capturedImage && mode === 'photo' && (
+           <div className="absolute top-20 inset-x-0 z-20 flex justify-center px-4">
+               <div className="flex bg-black/50 backdrop-blur-md rounded-full border border-white/10 p-1 text-[11px] font-bold max-w-full">
+                   <button
+                      onClick={() => setPageMode(false)}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors ${!pageMode ? 'bg-white text-black' : 'text-gray-300'}`}
+                   >
+                      <FileText size={12} /> New Bill
+                   </button>
+                   <button
+                      onClick={() => setPageMode(true)}
+                      className={`flex items-center gap-1.5 px-3 py-1.5 rounded-full transition-colors min-w-0 ${pageMode ? 'bg-blue-500 text-white' : 'text-gray-300'}`}
+                   >
+                      <FilePlus size={12} className="shrink-0" />
+                      <span className="truncate">Page {pageTarget.pageCount + 1} of {pageTarget.label}</span>
+                   </button>
+               </div>
+           </div>
+       )}
+
        {/* Main Viewport */}
        <div className="flex-1 relative overflow-hidden bg-gray-900">
            {/* Video always mounted but hidden when reviewing to allow instant retakes */}
@@ -268,21 +414,70 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
                 muted
                 className="w-full h-full object-cover"
                 />
-                {/* Grid Overlay */}
-                {showGrid && (
-                    <div className="absolute inset-0 pointer-events-none opacity-40">
-                        <div className="absolute left-1/3 inset-y-0 w-px bg-white shadow-sm"></div>
-                        <div className="absolute right-1/3 inset-y-0 w-px bg-white shadow-sm"></div>
-                        <div className="absolute top-1/3 inset-x-0 h-px bg-white shadow-sm"></div>
-                        <div className="absolute bottom-1/3 inset-x-0 h-px bg-white shadow-sm"></div>
+                {/* Page Outline Overlay (viewBox in video pixels; "slice" matches object-cover) */}
+                {mode === 'photo' && documentMode && quad && frameSize.width > 0 && (
+                    <svg
+                        className="absolute inset-0 w-full h-full pointer-events-none"
+                        viewBox={`0 0 ${frameSize.width} ${frameSize.height}`}
+                        preserveAspectRatio="xMidYMid slice"
+                    >
+                        <polygon
+                            points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                            className={`transition-colors ${stableProgress >= 1 ? 'fill-green-400/20 stroke-green-400' : 'fill-yellow-300/10 stroke-yellow-300'}`}
+                            strokeWidth={3}
+                            strokeLinejoin="round"
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    </svg>
+                )}
+
+                {/* Scan Viewfinder */}
+                {mode === 'scan' && (
+                    <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 pointer-events-none">
+                        <div className="w-64 h-64 max-w-[70vw] max-h-[70vw] relative">
+                            <div className="absolute top-0 left-0 w-10 h-10 border-t-4 border-l-4 border-white rounded-tl-2xl" />
+                            <div className="absolute top-0 right-0 w-10 h-10 border-t-4 border-r-4 border-white rounded-tr-2xl" />
+                            <div className="absolute bottom-0 left-0 w-10 h-10 border-b-4 border-l-4 border-white rounded-bl-2xl" />
+                            <div className="absolute bottom-0 right-0 w-10 h-10 border-b-4 border-r-4 border-white rounded-br-2xl" />
+                            <motion.div
+                                className="absolute inset-x-4 h-0.5 bg-red-500 shadow-[0_0_8px_rgba(239,68,68,0.8)]"
+                                animate={{ top: ['10%', '90%', '10%'] }}
+                                transition={{ duration: 2.4, repeat: Infinity, ease: 'linear' }}
+                            />
+                        </div>
+                        <div className="bg-black/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[11px] font-bold text-gray-200">
+                            {scanHint || 'Point at the invoice barcode or QR'}
+                        </div>
+                    </div>
+                )}
+
+                {/* Detection Hint */}
+                {mode === 'photo' && documentMode && (
+                <div className="absolute bottom-4 inset-x-0 flex justify-center pointer-events-none">
+                    <div className="bg-black/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[11px] font-bold text-gray-200 flex items-center gap-2">
+                        {!quad ? 'Place the bill on a darker surface' : !autoCapture ? 'Bill found — tap to capture' : 'Hold steady...'}
+                        {quad && autoCapture && (
+                            <span className="w-10 h-1 bg-white/20 rounded-full overflow-hidden">
+                                <span className="block h-full bg-green-400 transition-all" style={{ width: `${stableProgress * 100}%` }} />
+                            </span>
+                        )}
                     </div>
+                </div>
                 )}
             </div>
             
             {/* Captured Image Overlay */}
             {capturedImage && (
                 <div className="absolute inset-0 z-10 bg-black flex items-center justify-center">
-                    <img src={capturedImage} alt="Captured" className="max-w-full max-h-full object-contain" />
+                    <img src={finalImage || capturedImage} alt="Captured" className="max-w-full max-h-full object-contain" />
+                    {rawImage && (
+                        <button
+                            onClick={() => setShowOriginal(!showOriginal)}
+                            className="absolute top-20 right-4 bg-black/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 text-[11px] font-bold text-gray-200 flex items-center gap-1.5"
+                        >
+                            <Crop size={12} /> {showOriginal ? 'Use Cropped' : 'Use Original'}
+                        </button>
+                    )}
                 </div>
             )}
            
@@ -298,7 +493,7 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
                         className="absolute bottom-10 left-1/2 -translate-x-1/2 bg-green-500/90 backdrop-blur-md text-white px-6 py-3 rounded-2xl font-black shadow-2xl flex items-center gap-2 z-50 pointer-events-none border border-green-400/50"
                     >
                         <div className="bg-white rounded-full p-0.5"><Check size={14} className="text-green-600" strokeWidth={4} /></div>
-                        Saved!
+                        {addingPage ? 'Page Added!' : 'Saved!'}
                     </motion.div>
                 )}
             </AnimatePresence>
@@ -324,13 +519,36 @@ const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) =>
                    </button>
                </div>
            ) : (
-               <div className="flex justify-center items-center">
-                   <button 
-                      onClick={handleCapture} 
-                      className="w-20 h-20 rounded-full border-[6px] border-white/30 flex items-center justify-center relative group active:scale-95 transition-transform"
-                   >
-                       <div className="w-16 h-16 bg-white rounded-full shadow-lg transition-all group-hover:scale-95" />
-                   </button>
+               <div className="flex flex-col items-center gap-5">
+                   {mode === 'scan' && scanPanel}
+                   {mode === 'photo' ? (
+                       <button 
+                          onClick={handleCapture} 
+                          className="w-20 h-20 rounded-full border-[6px] border-white/30 flex items-center justify-center relative group active:scale-95 transition-transform"
+                       >
+                           <div className="w-16 h-16 bg-white rounded-full shadow-lg transition-all group-hover:scale-95" />
+                       </button>
+                   ) : (
+                       <div className="w-20 h-20 rounded-full border-[6px] border-red-500/40 flex items-center justify-center text-red-400">
+                           <ScanBarcode size={32} />
+                       </div>
+                   )}
+                   {onScan && !continuousScan && (
+                       <div className="flex bg-white/10 rounded-full p-1 text-[11px] font-bold">
+                           <button
+                              onClick={() => setMode('photo')}
+                              className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full transition-colors ${mode === 'photo' ? 'bg-white text-black' : 'text-gray-300'}`}
+                           >
+                              <CameraIcon size={12} /> Photo
+                           </button>
+                           <button
+                              onClick={() => setMode('scan')}
+                              className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full transition-colors ${mode === 'scan' ? 'bg-white text-black' : 'text-gray-300'}`}
+                           >
+                              <ScanBarcode size={12} /> Scan Code
+                           </button>
+                       </div>
+                   )}
                </div>
            )}
        </div>
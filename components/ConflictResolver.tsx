@@ -0,0 +1,183 @@
+import React, { useState, useMemo } from 'react';
+import { BillData, BillConflict } from '../types';
+import { GitMerge, Smartphone, Cloud, Check, Clock } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { describeUser } from '../services/authService';
+import { formatHistoryValue } from '../services/historyService';
+import { DELIVERY_STATUS_LABELS } from '../services/dispatchService';
+
+interface ConflictResolverProps {
+  conflict: BillConflict;
+  remainingCount: number;
+  onResolve: (merged: BillData) => void;
+  onLater: () => void;
+}
+
+type Side = 'local' | 'remote';
+
+const IGNORED_FIELDS = ['id', 'createdAt', 'updatedAt', 'orgId', 'createdBy', 'updatedBy', 'deletedBy'];
+
+const FIELD_LABELS: Record<string, string> = {
+  customerName: 'Customer',
+  address: 'Address',
+  invoiceNo: 'Invoice #',
+  billDate: 'Bill Date',
+  status: 'Status',
+  isDelivery: 'Delivery',
+  hasCRN: 'Return (CRN)',
+  isEditedBill: 'Edited',
+  isAdditionalBill: 'Add-on',
+  boxCount: 'Boxes',
+  description: 'Group',
+  colorTheme: 'Color',
+  entryDate: 'Entry Date',
+  packedAt: 'Packed At',
+  packedBy: 'Packed By',
+  imageUrl: 'Receipt',
+  imageUrls: 'Pages',
+  items: 'Items',
+  totalAmount: 'Total',
+  deletedAt: 'In Trash',
+  manifestId: 'Run',
+  deliveryStatus: 'Delivery Status',
+  dispatchedAt: 'Dispatched',
+  deliveredAt: 'Delivered',
+  deliveredBy: 'Delivered By',
+  deliveryProof: 'Proof',
+  loadedBoxes: 'Loaded',
+  loadedAt: 'Loaded At',
+  boxes: 'Box List',
+};
+
+const formatValue = (field: string, value: any): React.ReactNode => {
+  if (value === undefined || value === null || value === '') return <span className="text-gray-300">—</span>;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (['packedAt', 'deletedAt', 'dispatchedAt', 'deliveredAt', 'loadedAt'].includes(field)) return new Date(value).toLocaleString();
+  if (field === 'packedBy' || field === 'deliveredBy') return describeUser(value);
+  if (field === 'deliveryStatus') return DELIVERY_STATUS_LABELS[value as keyof typeof DELIVERY_STATUS_LABELS] || String(value);
+  // Same wording as the change history: box numbers, box types and weight, who received it
+  if (field === 'loadedBoxes' || field === 'boxes' || field === 'deliveryProof') return formatHistoryValue(field, value);
+  if (field === 'imageUrl') {
+    return <img src={value} alt="Receipt" className="h-10 w-10 object-cover rounded-md border border-gray-200 mx-auto" />;
+  }
+  if (field === 'imageUrls' && Array.isArray(value)) return `${value.length} pages`;
+  if (Array.isArray(value)) return `${value.length} entries`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflict, remainingCount, onResolve, onLater }) => {
+  const { local, remote } = conflict;
+
+  const changedFields = useMemo(() => {
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+    return Array.from(keys).filter(key =>
+      !IGNORED_FIELDS.includes(key) &&
+      JSON.stringify((local as any)[key]) !== JSON.stringify((remote as any)[key])
+    );
+  }, [local, remote]);
+
+  // Default to keeping this device's edits; the user flips individual fields to the cloud value
+  const [choices, setChoices] = useState<Record<string, Side>>(() =>
+    Object.fromEntries(changedFields.map(f => [f, 'local' as Side]))
+  );
+
+  const chooseAll = (side: Side) => setChoices(Object.fromEntries(changedFields.map(f => [f, side])));
+
+  const handleSave = () => {
+    const merged: any = { ...remote };
+    changedFields.forEach(field => {
+      merged[field] = choices[field] === 'local' ? (local as any)[field] : (remote as any)[field];
+    });
+    merged.updatedAt = Date.now();
+    onResolve(merged as BillData);
+  };
+
+  return (
+    <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-[250] flex items-center justify-center p-6 bg-gray-900/80 backdrop-blur-sm"
+    >
+       <motion.div
+            initial={{ scale: 0.9, opacity: 0, y: 20 }}
+            animate={{ scale: 1, opacity: 1, y: 0 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            className="bg-white w-full max-w-md rounded-3xl shadow-2xl overflow-hidden ring-1 ring-white/20 flex flex-col max-h-[90vh]"
+       >
+          <div className="bg-orange-500 p-6 flex flex-col items-center text-center text-white shrink-0">
+               <div className="w-16 h-16 bg-white/20 rounded-full flex items-center justify-center mb-3 backdrop-blur-sm">
+                  <GitMerge size={36} strokeWidth={2.5} />
+               </div>
+               <h2 className="text-2xl font-black mb-1">Edit Conflict</h2>
+               <p className="text-orange-100 text-sm font-medium">
+                   <strong className="text-white px-1.5 py-0.5 bg-black/20 rounded">{remote.customerName || local.customerName || 'This bill'}</strong> was changed on another device while you were editing.
+               </p>
+               {remainingCount > 1 && (
+                   <p className="text-[10px] font-bold uppercase tracking-wider text-orange-100 mt-2">{remainingCount - 1} more after this one</p>
+               )}
+          </div>
+
+          {/* Field-by-field comparison */}
+          <div className="p-6 overflow-y-auto space-y-3">
+              <div className="grid grid-cols-[5rem_1fr_1fr] gap-2 text-[9px] font-bold uppercase tracking-wider text-gray-400">
+                  <span />
+                  <button onClick={() => chooseAll('local')} className="flex items-center justify-center gap-1 hover:text-orange-600"><Smartphone size={10}/> Yours</button>
+                  <button onClick={() => chooseAll('remote')} className="flex items-center justify-center gap-1 hover:text-orange-600"><Cloud size={10}/> Cloud</button>
+              </div>
+
+              {changedFields.length === 0 && (
+                  <div className="text-center text-sm font-bold text-gray-400 py-4">No differing fields — saving will keep the cloud version.</div>
+              )}
+
+              {changedFields.map(field => (
+                  <div key={field} className="grid grid-cols-[5rem_1fr_1fr] gap-2 items-stretch">
+                      <span className="text-[10px] font-bold text-gray-500 uppercase self-center">{FIELD_LABELS[field] || field}</span>
+                      {(['local', 'remote'] as Side[]).map(side => {
+                          const selected = choices[field] === side;
+                          const value = side === 'local' ? (local as any)[field] : (remote as any)[field];
+                          return (
+                              <button
+                                key={side}
+                                onClick={() => setChoices(prev => ({ ...prev, [field]: side }))}
+                                className={`relative p-2 rounded-xl border text-xs font-bold text-center break-words transition-all ${selected ? 'bg-orange-50 border-2 border-orange-500 text-gray-900 shadow-sm' : 'bg-gray-50 border-gray-200 text-gray-400 opacity-70 hover:opacity-100'}`}
+                              >
+                                  {selected && (
+                                      <span className="absolute -top-2 -right-2 bg-orange-500 text-white rounded-full p-0.5"><Check size={10} strokeWidth={4}/></span>
+                                  )}
+                                  {formatValue(field, value)}
+                              </button>
+                          );
+                      })}
+                  </div>
+              ))}
+
+              <div className="flex items-center justify-between text-[10px] text-gray-400 font-medium pt-2">
+                  <span className="flex items-center gap-1"><Clock size={10}/> Yours: {new Date(local.updatedAt).toLocaleTimeString()}</span>
+                  <span className="flex items-center gap-1"><Clock size={10}/> Cloud: {new Date(remote.updatedAt).toLocaleTimeString()}</span>
+              </div>
+          </div>
+
+          <div className="p-6 pt-0 grid grid-cols-2 gap-3 shrink-0">
+              <button
+                onClick={onLater}
+                className="py-3.5 rounded-xl font-bold text-gray-600 bg-gray-100 hover:bg-gray-200 hover:text-gray-900 transition-colors flex items-center justify-center gap-2"
+              >
+                <Clock size={18}/>
+                Later
+              </button>
+              <button
+                onClick={handleSave}
+                className="py-3.5 rounded-xl font-bold text-white bg-black hover:bg-gray-800 transition-colors flex items-center justify-center gap-2 shadow-lg shadow-black/20"
+              >
+                <GitMerge size={18} />
+                Save Merge
+              </button>
+          </div>
+       </motion.div>
+    </motion.div>
+  );
+};
+
+export default ConflictResolver;
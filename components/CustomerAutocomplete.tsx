@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { Customer } from '../types';
+import { subscribeToCustomers } from '../services/storageService';
+import { searchCustomers } from '../services/customerService';
+
+interface CustomerAutocompleteProps {
+  value: string;
+  onChange: (value: string) => void; // Free typing
+  onSelect: (customer: Customer) => void; // A suggestion was picked
+  className?: string;
+  placeholder?: string;
+}
+
+// A customer name input that suggests shops from the directory as you type
+const CustomerAutocomplete: React.FC<CustomerAutocompleteProps> = ({ value, onChange, onSelect, className, placeholder }) => {
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  useEffect(() => subscribeToCustomers(setCustomers), []);
+
+  const suggestions = isOpen ? searchCustomers(value, customers) : [];
+  // Nothing to suggest once the name is exactly a customer's
+  const showSuggestions = suggestions.length > 0 && !(suggestions.length === 1 && suggestions[0].name === value);
+
+  const pick = (customer: Customer) => {
+    onSelect(customer);
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      pick(suggestions[Math.min(highlighted, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => { onChange(e.target.value); setIsOpen(true); setHighlighted(0); }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={className}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {showSuggestions && (
+        <div className="absolute z-30 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-xl shadow-xl overflow-hidden">
+          {suggestions.map((customer, i) => (
+            <button
+              key={customer.id}
+              type="button"
+              // Keep focus in the input so blur doesn't close the list before the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(customer)}
+              className={`w-full text-left px-3 py-2 flex flex-col ${i === highlighted ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+            >
+              <span className="text-sm font-bold text-gray-900 truncate">{customer.name}</span>
+              {(customer.address || customer.defaultGroup) && (
+                <span className="text-[10px] font-medium text-gray-400 truncate flex items-center gap-1">
+                  {customer.address && <><MapPin size={10}/> {customer.address}</>}
+                  {customer.address && customer.defaultGroup && ' · '}
+                  {customer.defaultGroup}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerAutocomplete;
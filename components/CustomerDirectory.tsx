@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, BookUser, Search, Plus, Save, Trash2, Merge, MapPin, Phone } from 'lucide-react';
+import { Customer } from '../types';
+import { COLOR_PALETTE } from '../services/storageService';
+import { searchCustomers, createCustomer, mergeCustomers, withAlias, customerIdFor, findCustomer } from '../services/customerService';
+import { can } from '../services/permissions';
+
+interface CustomerDirectoryProps {
+  customers: Customer[]; // Including removed ones, which are not listed
+  onSave: (changed: Customer[]) => void;
+  onClose: () => void;
+}
+
+// The fields being edited; aliases as typed, comma separated
+interface CustomerDraft {
+  id?: string;
+  name: string;
+  aliases: string;
+  address: string;
+  phone: string;
+  defaultGroup: string;
+  defaultColor?: string;
+}
+
+const toDraft = (customer: Customer): CustomerDraft => ({
+  id: customer.id,
+  name: customer.name,
+  aliases: customer.aliases.join(', '),
+  address: customer.address,
+  phone: customer.phone,
+  defaultGroup: customer.defaultGroup,
+  defaultColor: customer.defaultColor,
+});
+
+const CustomerDirectory: React.FC<CustomerDirectoryProps> = ({ customers, onSave, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [draft, setDraft] = useState<CustomerDraft | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const canManage = can('customers:manage');
+
+  const active = customers.filter(c => !c.deletedAt);
+  const listed = query.trim()
+      ? searchCustomers(query, active, active.length)
+      : [...active].sort((a, b) => a.name.localeCompare(b.name));
+  const editing = draft?.id ? active.find(c => c.id === draft.id) : undefined;
+
+  const openCustomer = (customer: Customer) => {
+    setDraft(draft?.id === customer.id ? null : toDraft(customer));
+    setMergeTargetId('');
+  };
+
+  const handleSaveDraft = () => {
+    if (!draft || !draft.name.trim()) return;
+    const aliases = draft.aliases.split(',').map(a => a.trim()).filter(Boolean);
+    const fields = { ...draft, aliases };
+
+    if (!editing) {
+      // A new name that's already in the directory (maybe removed) reuses that entry
+      const existing = customers.find(c => c.id === customerIdFor(draft.name)) || findCustomer(draft.name, active, 1)?.customer;
+      if (existing && !existing.deletedAt) {
+        window.alert(`"${existing.name}" is already in the directory.`);
+        return;
+      }
+      onSave([createCustomer({ ...fields, id: existing?.id, createdAt: existing?.createdAt })]);
+    } else {
+      // The old name stays as an alias, so bills with it still match
+      const renamed = withAlias({ ...editing, aliases }, editing.name);
+      onSave([{
+        ...renamed,
+        name: draft.name.trim(),
+        address: draft.address.trim(),
+        phone: draft.phone.trim(),
+        defaultGroup: draft.defaultGroup.trim(),
+        defaultColor: draft.defaultColor,
+        updatedAt: Date.now(),
+      }]);
+    }
+    setDraft(null);
+  };
+
+  const handleMerge = () => {
+    const target = active.find(c => c.id === mergeTargetId);
+    if (!editing || !target) return;
+    if (!window.confirm(`Merge "${editing.name}" into "${target.name}"? Its names become aliases of "${target.name}".`)) return;
+    onSave(mergeCustomers(editing, target));
+    setDraft(null);
+  };
+
+  const handleRemove = () => {
+    if (!editing) return;
+    if (!window.confirm(`Remove "${editing.name}" from the directory? Bills keep their names; it won't be learned again.`)) return;
+    const now = Date.now();
+    onSave([{ ...editing, deletedAt: now, updatedAt: now }]);
+    setDraft(null);
+  };
+
+  const inputClass = "w-full p-2.5 bg-white border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:bg-gray-50 disabled:text-gray-500";
+
+  const renderForm = () => draft && (
+    <div className="mt-3 space-y-2">
+      <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} disabled={!canManage} className={inputClass} placeholder="Customer name" />
+      <input value={draft.aliases} onChange={e => setDraft({ ...draft, aliases: e.target.value })} disabled={!canManage} className={inputClass} placeholder="Other spellings, comma separated" />
+      <input value={draft.address} onChange={e => setDraft({ ...draft, address: e.target.value })} disabled={!canManage} className={inputClass} placeholder="Address" />
+      <div className="grid grid-cols-2 gap-2">
+        <input value={draft.phone} onChange={e => setDraft({ ...draft, phone: e.target.value })} disabled={!canManage} className={inputClass} placeholder="Phone" type="tel" />
+        <input value={draft.defaultGroup} onChange={e => setDraft({ ...draft, defaultGroup: e.target.value })} disabled={!canManage} className={inputClass} placeholder="Default group" />
+      </div>
+      <div className="flex flex-wrap gap-2 bg-white p-2 rounded-xl border border-gray-100">
+        {COLOR_PALETTE.map(c => (
+          <button
+            key={c.name}
+            disabled={!canManage}
+            onClick={() => setDraft({ ...draft, defaultColor: draft.defaultColor === c.name ? undefined : c.name })}
+            className={`w-6 h-6 rounded-full border-2 transition-all ${c.bg} ${draft.defaultColor === c.name ? 'border-black scale-110 ring-2 ring-black/10' : 'border-transparent hover:border-gray-300'}`}
+            title={c.name}
+          />
+        ))}
+      </div>
+      {canManage && (
+        <div className="flex gap-2 pt-1">
+          <button onClick={handleSaveDraft} disabled={!draft.name.trim()} className="flex-1 py-2.5 bg-black text-white rounded-xl text-xs font-bold flex items-center justify-center gap-1 disabled:opacity-40">
+            <Save size={14}/> Save
+          </button>
+          {editing && (
+            <button onClick={handleRemove} className="px-3 py-2.5 bg-red-50 text-red-600 hover:bg-red-100 rounded-xl text-xs font-bold flex items-center gap-1">
+              <Trash2 size={14}/> Remove
+            </button>
+          )}
+        </div>
+      )}
+      {canManage && editing && active.length > 1 && (
+        <div className="flex gap-2">
+          <select value={mergeTargetId} onChange={e => setMergeTargetId(e.target.value)} className="flex-1 p-2.5 bg-white border border-gray-200 rounded-xl text-xs font-bold outline-none">
+            <option value="">Merge into…</option>
+            {active.filter(c => c.id !== editing.id).sort((a, b) => a.name.localeCompare(b.name)).map(c => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+          <button onClick={handleMerge} disabled={!mergeTargetId} className="px-3 py-2.5 bg-indigo-50 text-indigo-700 hover:bg-indigo-100 rounded-xl text-xs font-bold flex items-center gap-1 disabled:opacity-40">
+            <Merge size={14}/> Merge
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><BookUser className="text-indigo-500" /> Customers</h2>
+            <p className="text-gray-500 text-sm mt-1">Learned from your bills. Used to suggest names and tidy up names read from photos.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="px-6 pt-4 flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 text-gray-400" size={16}/>
+            <input value={query} onChange={e => setQuery(e.target.value)} className="w-full pl-9 p-2.5 bg-gray-50 border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-indigo-500/20" placeholder="Search customers..." />
+          </div>
+          {canManage && (
+            <button onClick={() => setDraft({ name: query.trim(), aliases: '', address: '', phone: '', defaultGroup: '' })} className="px-3 bg-black text-white rounded-xl text-xs font-bold flex items-center gap-1">
+              <Plus size={14}/> New
+            </button>
+          )}
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-2">
+          {draft && !draft.id && (
+            <div className="p-3 bg-indigo-50 rounded-xl border border-indigo-100">
+              <p className="text-xs font-black text-indigo-700 uppercase">New customer</p>
+              {renderForm()}
+            </div>
+          )}
+          {listed.length === 0 && !draft && (
+            <p className="text-center text-sm font-bold text-gray-400 py-8">{query ? 'No matching customers.' : 'No customers yet. They appear as bills are entered.'}</p>
+          )}
+          {listed.map(customer => (
+            <div key={customer.id} className={`p-3 rounded-xl border ${draft?.id === customer.id ? 'bg-gray-50 border-gray-200' : 'bg-white border-gray-100'}`}>
+              <button onClick={() => openCustomer(customer)} className="w-full text-left">
+                <p className="text-sm font-black text-black truncate">{customer.name}</p>
+                <p className="text-[10px] font-medium text-gray-400 truncate flex items-center gap-1">
+                  {customer.address && <><MapPin size={10}/> {customer.address}</>}
+                  {customer.phone && <><Phone size={10}/> {customer.phone}</>}
+                  {customer.defaultGroup && <span className="font-bold text-gray-500">{customer.defaultGroup}</span>}
+                </p>
+                {customer.aliases.length > 0 && (
+                  <p className="text-[10px] font-medium text-gray-400 truncate">Also: {customer.aliases.join(', ')}</p>
+                )}
+              </button>
+              {draft?.id === customer.id && renderForm()}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default CustomerDirectory;
@@ -3,7 +3,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { X, Plus, Trash2, Check, CheckSquare, StickyNote, Sparkles, ChevronRight, ChevronLeft, Calendar, Send, Bot, User, ListPlus, Box, FileText, Zap, Eraser, MessageSquare, BarChart3, TrendingUp } from 'lucide-react';
 import { BillData, PackingStatus } from '../types';
-import { sendGeminiChat } from '../services/geminiService';
+import { sendGeminiChat, GeminiStatus, getGeminiStatus, subscribeToGeminiStatus } from '../services/geminiService';
+import CustomerAutocomplete from './CustomerAutocomplete';
 
 interface Task {
   id: string;
@@ -40,10 +41,13 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
   const [newTaskInput, setNewTaskInput] = useState('');
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [geminiStatus, setGeminiStatus] = useState<GeminiStatus>(getGeminiStatus());
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const [quickForm, setQuickForm] = useState({ name: '', invoice: '', boxes: '1', shop: '' });
 
+  useEffect(() => subscribeToGeminiStatus(setGeminiStatus), []);
+
   // Load local data
   useEffect(() => {
     try {
@@ -112,6 +116,7 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
         Current Date: ${date}
         Bills Logged Today: ${bills.length}
         Already Packed Today: ${bills.filter(b => b.status === PackingStatus.PACKED).length}
+        Partly Packed Today: ${bills.filter(b => b.status === PackingStatus.PARTIAL).length}
         Pending Packing Today: ${bills.filter(b => b.status === PackingStatus.PENDING).length}
         Total Active Tasks: ${tasks.filter(t => !t.completed).map(t => t.text).join(', ')}
         Notes: ${note}
@@ -300,7 +305,7 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                 <div className="absolute right-0 top-0 opacity-10 p-2"><Box size={48}/></div>
                                 <p className="text-[10px] font-bold text-orange-700 uppercase tracking-wider mb-1">Total Pending</p>
                                 <p className="text-3xl font-black text-orange-900">
-                                    {allBills.filter(b => b.status === PackingStatus.PENDING).length}
+                                    {allBills.filter(b => b.status !== PackingStatus.PACKED).length}
                                 </p>
                             </div>
                         </div>
@@ -319,8 +324,10 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                 <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 mb-1 block">Customer / Shop</label>
                                 <div className="relative">
                                     <User className="absolute left-3 top-3.5 text-gray-400" size={16}/>
-                                    <input 
-                                        value={quickForm.name} onChange={e => setQuickForm({...quickForm, name: e.target.value})}
+                                    <CustomerAutocomplete
+                                        value={quickForm.name}
+                                        onChange={name => setQuickForm({...quickForm, name, shop: ''})}
+                                        onSelect={customer => setQuickForm({...quickForm, name: customer.name, shop: customer.defaultGroup})}
                                         className="w-full pl-10 p-3 bg-white border border-gray-200 rounded-xl font-bold focus:ring-2 focus:ring-indigo-500 outline-none text-sm"
                                         placeholder="Name..."
                                     />
@@ -379,6 +386,9 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
 
                 {activeTab === 'chat' && (
                     <motion.div key="chat" initial={{opacity:0, x:-10}} animate={{opacity:1, x:0}} exit={{opacity:0, x:10}} className="flex flex-col h-full -m-4">
+                        {geminiStatus.status !== 'ready' && (
+                            <div className="px-4 py-2 bg-amber-50 border-b border-amber-100 text-xs font-bold text-amber-700">{geminiStatus.message}</div>
+                        )}
                         <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-50">
                             {chatHistory.length === 0 && (
                                 <div className="flex flex-col items-center justify-center h-full text-gray-300 pb-10">
@@ -422,7 +432,7 @@ const DailyPlanner: React.FC<DailyPlannerProps> = ({ date, onClose, bills, allBi
                                     placeholder="Ask Grace..."
                                     className="w-full bg-gray-100 border border-transparent focus:bg-white focus:border-gray-200 rounded-xl pl-4 pr-10 py-3 text-sm focus:ring-2 focus:ring-indigo-500/10 outline-none transition-all"
                                 />
-                                <button onClick={handleSendChat} disabled={!chatInput.trim()} className="absolute right-1 top-1 p-2 bg-indigo-600 text-white rounded-lg disabled:opacity-50 hover:bg-indigo-700 transition-colors">
+                                <button onClick={handleSendChat} disabled={!chatInput.trim() || geminiStatus.status === 'missing_key'} className="absolute right-1 top-1 p-2 bg-indigo-600 text-white rounded-lg disabled:opacity-50 hover:bg-indigo-700 transition-colors">
                                     <Send size={16}/>
                                 </button>
                             </div>
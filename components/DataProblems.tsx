@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, FileWarning, Copy, ChevronDown, ChevronUp } from 'lucide-react';
+import { DataProblem, DataProblemSource } from '../services/validationService';
+
+interface DataProblemsProps {
+  problems: DataProblem[];
+  onDismiss: (key: string) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<DataProblemSource, string> = {
+  cloud: 'From the cloud',
+  device: 'From this device',
+  outgoing: 'Not saved',
+};
+
+const DataProblems: React.FC<DataProblemsProps> = ({ problems, onDismiss, onClose }) => {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+
+  const copyRaw = (problem: DataProblem) => {
+    navigator.clipboard.writeText(JSON.stringify(problem.raw, null, 2));
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><FileWarning className="text-orange-500" /> Data Problems</h2>
+            <p className="text-gray-500 text-sm mt-1">These records couldn't be read as bills and are hidden from the list. Fix them in the Supabase table, then reload.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {problems.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-8">No data problems.</p>
+          )}
+          {problems.map(problem => {
+            const isExpanded = expandedKey === problem.key;
+            return (
+              <div key={problem.key} className="p-3 bg-orange-50 rounded-xl border border-orange-100">
+                <div className="flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-black text-black truncate">{problem.billId ? `Bill ${problem.billId}` : 'Record without an id'}</p>
+                    <p className="text-[10px] font-bold text-orange-600 uppercase">{SOURCE_LABELS[problem.source]} · {new Date(problem.detectedAt).toLocaleTimeString()}</p>
+                    <ul className="mt-1 text-xs font-medium text-gray-700 list-disc list-inside">
+                      {problem.problems.map(p => <li key={p}>{p}</li>)}
+                    </ul>
+                    {problem.fixes.length > 0 && (
+                      <p className="mt-1 text-[10px] font-medium text-gray-400">Also: {problem.fixes.join('; ')}</p>
+                    )}
+                  </div>
+                  <button onClick={() => onDismiss(problem.key)} className="px-3 py-2 rounded-lg text-xs font-bold text-gray-500 bg-white border border-gray-200 hover:bg-gray-50 shrink-0">
+                    Dismiss
+                  </button>
+                </div>
+                <div className="mt-2 flex items-center gap-3">
+                  <button onClick={() => setExpandedKey(isExpanded ? null : problem.key)} className="text-[10px] font-bold text-gray-500 hover:text-black flex items-center gap-0.5">
+                    {isExpanded ? <ChevronUp size={12}/> : <ChevronDown size={12}/>} Raw record
+                  </button>
+                  <button onClick={() => copyRaw(problem)} className="text-[10px] font-bold text-gray-500 hover:text-black flex items-center gap-0.5">
+                    <Copy size={10}/> Copy
+                  </button>
+                </div>
+                {isExpanded && (
+                  <pre className="mt-2 p-2 bg-black text-green-400 text-[10px] font-mono rounded-lg overflow-x-auto max-h-48">{JSON.stringify(problem.raw, null, 2)}</pre>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default DataProblems;
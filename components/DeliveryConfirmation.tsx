@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Camera, CheckCircle, Eraser, PenLine, User, Trash2, Loader2 } from 'lucide-react';
+import { BillData, DeliveryProof } from '../types';
+import { readImageFile } from '../services/storageService';
+import CameraCapture from './CameraCapture';
+
+interface DeliveryConfirmationProps {
+  bills: BillData[]; // Everything handed over at this stop
+  onConfirm: (proof: DeliveryProof) => void;
+  onClose: () => void;
+}
+
+// Finger or mouse signature, reported as a PNG data URL (null while blank)
+const SignaturePad: React.FC<{ onChange: (signature: string | null) => void }> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const inkRef = useRef(false);
+  const [hasInk, setHasInk] = useState(false);
+
+  // Match the canvas to its on-screen size so strokes land under the finger
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = canvas.offsetWidth;
+    canvas.height = canvas.offsetHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.lineWidth = 2.5;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#111';
+  }, []);
+
+  const pointAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawingRef.current = true;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointAt(e);
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    const ctx = e.currentTarget.getContext('2d')!;
+    const { x, y } = pointAt(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+    inkRef.current = true;
+    setHasInk(true);
+  };
+
+  const handleUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = false;
+    if (inkRef.current) onChange(e.currentTarget.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    inkRef.current = false;
+    setHasInk(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="relative">
+      <canvas
+        ref={canvasRef}
+        onPointerDown={handleDown}
+        onPointerMove={handleMove}
+        onPointerUp={handleUp}
+        onPointerCancel={handleUp}
+        className="w-full h-32 bg-white border border-dashed border-gray-300 rounded-xl touch-none"
+      />
+      {!hasInk && (
+        <span className="absolute inset-0 flex items-center justify-center text-xs font-bold text-gray-300 pointer-events-none">
+          <PenLine size={14} className="mr-1"/> Sign here (optional)
+        </span>
+      )}
+      {hasInk && (
+        <button onClick={clear} className="absolute top-2 right-2 p-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg text-gray-500"><Eraser size={14}/></button>
+      )}
+    </div>
+  );
+};
+
+// Records who took a delivery, with photos of the signed copy or drop-off and a signature
+const DeliveryConfirmation: React.FC<DeliveryConfirmationProps> = ({ bills, onConfirm, onClose }) => {
+  const [receiverName, setReceiverName] = useState('');
+  const [photos, setPhotos] = useState<string[]>([]);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+
+  const customerName = bills[0]?.customerName || 'Unknown Customer';
+  const invoices = bills.map(b => b.invoiceNo).filter(Boolean).join(', ');
+
+  const handleCapture = async (file: File) => {
+    setShowCamera(false);
+    setIsReading(true);
+    try {
+      const photo = await readImageFile(file);
+      setPhotos(prev => [...prev, photo]);
+    } catch (e) {
+      console.error("Failed to read delivery photo:", e);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!receiverName.trim()) return;
+    onConfirm({
+      receiverName: receiverName.trim(),
+      photoUrls: photos,
+      ...(signature ? { signatureUrl: signature } : {}),
+    });
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div className="min-w-0">
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><CheckCircle className="text-green-600" /> Confirm Delivery</h2>
+            <p className="text-gray-500 text-sm mt-1 truncate">{customerName}{invoices && ` · #${invoices}`}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div>
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 mb-1 block">Received by</label>
+            <div className="relative">
+              <User className="absolute left-3 top-3.5 text-gray-400" size={16}/>
+              <input
+                value={receiverName}
+                onChange={e => setReceiverName(e.target.value)}
+                className="w-full pl-10 p-3 bg-white border border-gray-200 rounded-xl font-bold focus:ring-2 focus:ring-green-500/20 focus:border-green-500 outline-none text-sm"
+                placeholder="Receiver's name"
+                autoFocus
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 mb-1 block">Photos</label>
+            <div className="grid grid-cols-3 gap-2">
+              {photos.map((photo, i) => (
+                <div key={i} className="relative aspect-square rounded-xl overflow-hidden border border-gray-200">
+                  <img src={photo} alt={`Delivery photo ${i + 1}`} className="w-full h-full object-cover" />
+                  <button onClick={() => setPhotos(prev => prev.filter((_, j) => j !== i))} className="absolute top-1 right-1 p-1 bg-black/60 text-white rounded-lg"><Trash2 size={12}/></button>
+                </div>
+              ))}
+              <button onClick={() => setShowCamera(true)} disabled={isReading} className="aspect-square rounded-xl border-2 border-dashed border-gray-200 text-gray-400 hover:text-black hover:border-gray-400 flex flex-col items-center justify-center gap-1 text-[10px] font-bold">
+                {isReading ? <Loader2 size={18} className="animate-spin"/> : <Camera size={18}/>}
+                Signed copy / drop-off
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-[10px] font-bold text-gray-400 uppercase tracking-wider ml-1 mb-1 block">Signature</label>
+            <SignaturePad onChange={setSignature} />
+          </div>
+
+          <button
+            onClick={handleConfirm}
+            disabled={!receiverName.trim() || isReading}
+            className="w-full py-4 bg-green-600 hover:bg-green-700 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <CheckCircle size={18}/> Mark {bills.length > 1 ? `${bills.length} Bills` : 'Bill'} Delivered
+          </button>
+        </div>
+      </motion.div>
+
+      {/* The camera sits inside this dialog so it opens on top of it */}
+      <AnimatePresence>
+        {showCamera && (
+          <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[200] bg-black">
+            <CameraCapture onCapture={handleCapture} onClose={() => setShowCamera(false)} documentMode={false} />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+export default DeliveryConfirmation;
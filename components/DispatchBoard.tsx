@@ -0,0 +1,182 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Truck, Plus, ChevronUp, ChevronDown, Printer, FileSpreadsheet, Send, CheckCircle, Trash2, ArrowDownUp, MapPin, Package } from 'lucide-react';
+import { BillData, DispatchManifest } from '../types';
+import {
+  getDispatchCandidates, createManifest, addToManifest, removeStop, moveStop, resortStops,
+  getStopBills, getStopBoxTotal, isStopDelivered, getManifestProgress, dispatchBills,
+  getRunSheetRows, buildRunSheetHtml, areaOf,
+} from '../services/dispatchService';
+import { printHtml } from '../services/printService';
+import { can } from '../services/permissions';
+import * as XLSX from 'xlsx';
+
+interface DispatchBoardProps {
+  date: string;
+  bills: BillData[];
+  manifests: DispatchManifest[];
+  onSaveManifest: (manifest: DispatchManifest) => void;
+  onUpdateBills: (bills: BillData[]) => void;
+  onConfirmDelivery: (bills: BillData[]) => void; // Opens proof of delivery for a stop
+  onClose: () => void;
+}
+
+const DispatchBoard: React.FC<DispatchBoardProps> = ({ date, bills, manifests, onSaveManifest, onUpdateBills, onConfirmDelivery, onClose }) => {
+  const [vehicle, setVehicle] = useState('');
+  const [driver, setDriver] = useState('');
+  const canManage = can('dispatch:manage');
+  const canDeliver = can('bill:pack');
+
+  const billsById = new Map<string, BillData>(bills.map(b => [b.id, b]));
+  const dayManifests = manifests
+      .filter(m => m.date === date && !m.deletedAt)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  const candidates = getDispatchCandidates(bills, manifests, date);
+  const candidateBoxes = candidates.reduce((sum, b) => sum + (b.boxCount || 0), 0);
+
+  const handleCreate = () => {
+    if (candidates.length === 0) return;
+    onSaveManifest(createManifest(date, vehicle, driver, candidates));
+    setVehicle('');
+    setDriver('');
+  };
+
+  const handleDispatch = (manifest: DispatchManifest) => {
+    const onRun = manifest.stops.flatMap(s => getStopBills(s, billsById));
+    if (!window.confirm(`Send this run out? ${onRun.length} bill(s) will show as out for delivery.`)) return;
+    const now = Date.now();
+    onSaveManifest({ ...manifest, dispatchedAt: now, updatedAt: now });
+    onUpdateBills(dispatchBills(manifest, onRun));
+  };
+
+  const handleRemove = (manifest: DispatchManifest) => {
+    if (!window.confirm('Remove this run? Its bills go back to the list waiting for dispatch.')) return;
+    const now = Date.now();
+    onSaveManifest({ ...manifest, deletedAt: now, updatedAt: now });
+  };
+
+  const handlePrint = (manifest: DispatchManifest) => {
+    printHtml(`Run sheet ${manifest.date}`, buildRunSheetHtml(manifest, billsById));
+  };
+
+  const handleExport = (manifest: DispatchManifest) => {
+    const ws = XLSX.utils.json_to_sheet(getRunSheetRows(manifest, billsById));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Run_Sheet");
+    XLSX.writeFile(wb, `Run_Sheet_${manifest.date}${manifest.vehicle ? `_${manifest.vehicle.replace(/\W+/g, '_')}` : ''}.xlsx`);
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><Truck className="text-blue-500" /> Dispatch</h2>
+            <p className="text-gray-500 text-sm mt-1">Delivery runs for packed delivery bills on {date}.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {/* --- NEW RUN --- */}
+          {canManage && (
+            <div className="p-4 bg-blue-50 rounded-2xl border border-blue-100 space-y-2">
+              <p className="text-xs font-black text-blue-700 uppercase">
+                {candidates.length > 0 ? `${candidates.length} bill(s) · ${candidateBoxes} boxes waiting` : 'No packed delivery bills waiting'}
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <input value={vehicle} onChange={e => setVehicle(e.target.value)} className="p-2.5 bg-white border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500/20" placeholder="Vehicle" />
+                <input value={driver} onChange={e => setDriver(e.target.value)} className="p-2.5 bg-white border border-gray-200 rounded-xl text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500/20" placeholder="Driver" />
+              </div>
+              <button onClick={handleCreate} disabled={candidates.length === 0} className="w-full py-2.5 bg-black text-white rounded-xl text-xs font-bold flex items-center justify-center gap-1 disabled:opacity-40">
+                <Plus size={14}/> Plan Run
+              </button>
+            </div>
+          )}
+
+          {dayManifests.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-6">No delivery runs for this day.</p>
+          )}
+
+          {/* --- RUNS --- */}
+          {dayManifests.map(manifest => {
+            const progress = getManifestProgress(manifest, billsById);
+            const isDispatched = !!manifest.dispatchedAt;
+            const isComplete = isDispatched && progress.totalStops > 0 && progress.deliveredStops === progress.totalStops;
+            return (
+              <div key={manifest.id} className="rounded-2xl border border-gray-200 overflow-hidden">
+                <div className="p-3 bg-gray-50 flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-black text-black truncate">{manifest.vehicle || 'Vehicle not set'} · {manifest.driver || 'Driver not set'}</p>
+                    <p className="text-[10px] font-bold text-gray-500 uppercase">
+                      {isComplete ? 'Delivered' : isDispatched ? 'Out for delivery' : 'Planned'} · {progress.deliveredStops}/{progress.totalStops} stops · {progress.totalBoxes} boxes
+                    </p>
+                  </div>
+                  <div className="flex gap-1 shrink-0">
+                    <button onClick={() => handlePrint(manifest)} className="p-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-100" title="Print run sheet"><Printer size={14}/></button>
+                    <button onClick={() => handleExport(manifest)} className="p-2 bg-white border border-gray-200 rounded-lg hover:bg-gray-100 text-green-700" title="Export run sheet"><FileSpreadsheet size={14}/></button>
+                    {canManage && !isDispatched && (
+                      <button onClick={() => handleRemove(manifest)} className="p-2 bg-white border border-gray-200 rounded-lg hover:bg-red-50 text-red-500" title="Remove run"><Trash2 size={14}/></button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="divide-y divide-gray-100">
+                  {manifest.stops.map((stop, index) => {
+                    const stopBills = getStopBills(stop, billsById);
+                    const delivered = isStopDelivered(stop, billsById);
+                    return (
+                      <div key={stop.id} className={`p-3 flex items-center gap-2 ${delivered ? 'bg-green-50/60' : ''}`}>
+                        <span className="w-6 h-6 rounded-full bg-black text-white text-[10px] font-black flex items-center justify-center shrink-0">{index + 1}</span>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-sm font-bold text-black truncate">{stop.customerName || 'Unknown Customer'}</p>
+                          <p className="text-[10px] font-medium text-gray-400 truncate flex items-center gap-1">
+                            <MapPin size={10}/> {areaOf(stop.address) || 'No address'} · {stopBills.length} bill(s) · <Package size={10}/> {getStopBoxTotal(stop, billsById)}
+                          </p>
+                        </div>
+                        {canManage && !isComplete && (
+                          <div className="flex flex-col shrink-0">
+                            <button onClick={() => onSaveManifest(moveStop(manifest, index, -1))} disabled={index === 0} className="p-0.5 text-gray-400 hover:text-black disabled:opacity-20"><ChevronUp size={14}/></button>
+                            <button onClick={() => onSaveManifest(moveStop(manifest, index, 1))} disabled={index === manifest.stops.length - 1} className="p-0.5 text-gray-400 hover:text-black disabled:opacity-20"><ChevronDown size={14}/></button>
+                          </div>
+                        )}
+                        {canManage && !isDispatched && (
+                          <button onClick={() => onSaveManifest(removeStop(manifest, stop.id))} className="p-1.5 text-gray-300 hover:text-red-500 shrink-0" title="Take off this run"><X size={14}/></button>
+                        )}
+                        {isDispatched && (delivered ? (
+                          <CheckCircle size={18} className="text-green-600 shrink-0"/>
+                        ) : canDeliver && (
+                          <button onClick={() => onConfirmDelivery(stopBills)} className="px-2.5 py-1.5 bg-green-600 hover:bg-green-700 text-white rounded-lg text-[10px] font-bold shrink-0">
+                            Delivered
+                          </button>
+                        ))}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                {canManage && !isDispatched && (
+                  <div className="p-3 bg-gray-50 flex flex-wrap gap-2">
+                    {candidates.length > 0 && (
+                      <button onClick={() => onSaveManifest(addToManifest(manifest, candidates))} className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs font-bold flex items-center gap-1 hover:bg-gray-100">
+                        <Plus size={12}/> Add {candidates.length} waiting
+                      </button>
+                    )}
+                    <button onClick={() => onSaveManifest(resortStops(manifest))} className="px-3 py-2 bg-white border border-gray-200 rounded-lg text-xs font-bold flex items-center gap-1 hover:bg-gray-100">
+                      <ArrowDownUp size={12}/> Sort by Area
+                    </button>
+                    <button onClick={() => handleDispatch(manifest)} disabled={manifest.stops.length === 0} className="ml-auto px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-40">
+                      <Send size={12}/> Send Out
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default DispatchBoard;
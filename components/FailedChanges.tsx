@@ -0,0 +1,54 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, CloudAlert, RotateCcw, Trash2 } from 'lucide-react';
+import { FailedChange } from '../services/localStore';
+
+interface FailedChangesProps {
+  changes: FailedChange[];
+  onRetry: (billId: string) => void;
+  onDiscard: (billId: string) => void;
+  onClose: () => void;
+}
+
+const describeChange = (change: FailedChange) => change.op.type === 'delete'
+  ? 'Delete forever'
+  : `Edit to ${change.op.bill.customerName || 'Unknown Customer'} #${change.op.bill.invoiceNo || '—'}`;
+
+const FailedChanges: React.FC<FailedChangesProps> = ({ changes, onRetry, onDiscard, onClose }) => {
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><CloudAlert className="text-red-500" /> Failed Changes</h2>
+            <p className="text-gray-500 text-sm mt-1">The cloud refused these changes, so the list shows its copy instead. Retry once the problem is sorted (e.g. a supervisor has changed your role), or discard them.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {changes.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-8">No failed changes.</p>
+          )}
+          {changes.map(change => (
+            <div key={change.billId} className="p-3 bg-red-50 rounded-xl border border-red-100">
+              <p className="text-sm font-black text-black truncate">{describeChange(change)}</p>
+              <p className="text-[10px] font-bold text-red-600 uppercase">Bill {change.billId} · {new Date(change.failedAt).toLocaleTimeString()}</p>
+              <p className="mt-1 text-xs font-medium text-gray-700">{change.error}</p>
+              <div className="mt-2 flex gap-2">
+                <button onClick={() => onRetry(change.billId)} className="px-3 py-2 rounded-lg text-xs font-bold text-white bg-black hover:bg-gray-800 flex items-center gap-1">
+                  <RotateCcw size={12}/> Retry
+                </button>
+                <button onClick={() => onDiscard(change.billId)} className="px-3 py-2 rounded-lg text-xs font-bold text-gray-500 bg-white border border-gray-200 hover:bg-gray-50 flex items-center gap-1">
+                  <Trash2 size={12}/> Discard
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default FailedChanges;
@@ -0,0 +1,122 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, ExternalLink, Trash2 } from 'lucide-react';
+import { motion, AnimatePresence, PanInfo } from 'framer-motion';
+
+interface ImageGalleryProps {
+  images: string[];
+  onRemove?: (index: number) => void;
+}
+
+// How far (px) or how fast a drag has to go to count as a swipe
+const SWIPE_DISTANCE = 60;
+const SWIPE_VELOCITY = 400;
+
+const ImageGallery: React.FC<ImageGalleryProps> = ({ images, onRemove }) => {
+  const [index, setIndex] = useState(0);
+  const [direction, setDirection] = useState(0);
+
+  // Stay in range when a page is removed
+  useEffect(() => {
+    if (index > images.length - 1) setIndex(Math.max(0, images.length - 1));
+  }, [images.length, index]);
+
+  if (images.length === 0) return null;
+
+  const goTo = (next: number) => {
+    if (next < 0 || next >= images.length) return;
+    setDirection(next > index ? 1 : -1);
+    setIndex(next);
+  };
+
+  const handleDragEnd = (_: any, info: PanInfo) => {
+    if (info.offset.x < -SWIPE_DISTANCE || info.velocity.x < -SWIPE_VELOCITY) goTo(index + 1);
+    else if (info.offset.x > SWIPE_DISTANCE || info.velocity.x > SWIPE_VELOCITY) goTo(index - 1);
+  };
+
+  const current = images[Math.min(index, images.length - 1)];
+
+  return (
+    <div className="space-y-2">
+        <div className="relative h-56 bg-gray-900 rounded-xl overflow-hidden border border-gray-200">
+            <AnimatePresence initial={false} custom={direction}>
+                <motion.img
+                    key={current}
+                    src={current}
+                    alt={`Page ${index + 1}`}
+                    custom={direction}
+                    initial={{ x: direction >= 0 ? '100%' : '-100%', opacity: 0 }}
+                    animate={{ x: 0, opacity: 1 }}
+                    exit={{ x: direction >= 0 ? '-100%' : '100%', opacity: 0 }}
+                    transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+                    drag={images.length > 1 ? 'x' : false}
+                    dragConstraints={{ left: 0, right: 0 }}
+                    dragElastic={0.6}
+                    onDragEnd={handleDragEnd}
+                    draggable={false}
+                    className="absolute inset-0 w-full h-full object-contain cursor-grab active:cursor-grabbing select-none"
+                />
+            </AnimatePresence>
+
+            {images.length > 1 && (
+                <>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); goTo(index - 1); }}
+                        disabled={index === 0}
+                        className="absolute left-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/40 text-white backdrop-blur-sm disabled:opacity-0 transition-opacity"
+                    >
+                        <ChevronLeft size={16} />
+                    </button>
+                    <button
+                        onClick={(e) => { e.stopPropagation(); goTo(index + 1); }}
+                        disabled={index === images.length - 1}
+                        className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 rounded-full bg-black/40 text-white backdrop-blur-sm disabled:opacity-0 transition-opacity"
+                    >
+                        <ChevronRight size={16} />
+                    </button>
+                </>
+            )}
+
+            <div className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-black/50 text-white text-[10px] font-bold backdrop-blur-sm">
+                Page {index + 1} / {images.length}
+            </div>
+
+            <div className="absolute top-2 right-2 flex gap-1.5">
+                <a
+                    href={current}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="p-1.5 rounded-full bg-black/50 text-white backdrop-blur-sm hover:bg-black/70"
+                >
+                    <ExternalLink size={12} />
+                </a>
+                {onRemove && (
+                    <button
+                        onClick={(e) => {
+                            e.stopPropagation();
+                            if (window.confirm(`Remove page ${index + 1} from this bill?`)) onRemove(index);
+                        }}
+                        className="p-1.5 rounded-full bg-black/50 text-white backdrop-blur-sm hover:bg-red-600"
+                    >
+                        <Trash2 size={12} />
+                    </button>
+                )}
+            </div>
+        </div>
+
+        {images.length > 1 && (
+            <div className="flex justify-center gap-1.5">
+                {images.map((_, i) => (
+                    <button
+                        key={i}
+                        onClick={(e) => { e.stopPropagation(); goTo(i); }}
+                        className={`h-1.5 rounded-full transition-all ${i === index ? 'w-4 bg-gray-800' : 'w-1.5 bg-gray-300'}`}
+                    />
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ImageGallery;
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Printer, QrCode } from 'lucide-react';
+import { BillData } from '../types';
+import { LABEL_SIZES, LabelSize, getBoxLabels, printBoxLabels } from '../services/labelService';
+
+interface LabelPrintDialogProps {
+  bills: BillData[];
+  onClose: () => void;
+}
+
+const STORAGE_KEY_LABEL_SIZE = 'grace_label_size';
+
+// Picks the label stock and prints one label per box for the given bills
+const LabelPrintDialog: React.FC<LabelPrintDialogProps> = ({ bills, onClose }) => {
+  const [size, setSize] = useState<LabelSize>(() => localStorage.getItem(STORAGE_KEY_LABEL_SIZE) === 'thermal' ? 'thermal' : 'a4');
+
+  const labelCount = getBoxLabels(bills).length;
+  const missingBoxes = bills.filter(b => !b.boxCount).length;
+
+  const handlePrint = () => {
+    localStorage.setItem(STORAGE_KEY_LABEL_SIZE, size);
+    printBoxLabels(bills, size);
+    onClose();
+  };
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><QrCode className="text-indigo-600" /> Box Labels</h2>
+            <p className="text-gray-500 text-sm mt-1">{bills.length} bill(s) · {labelCount} label(s)</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(LABEL_SIZES) as LabelSize[]).map(key => (
+              <button
+                key={key}
+                onClick={() => setSize(key)}
+                className={`p-4 rounded-2xl border-2 text-left transition-colors ${size === key ? 'border-black bg-gray-50' : 'border-gray-100 hover:border-gray-300'}`}
+              >
+                <p className="text-sm font-black text-black">{LABEL_SIZES[key].name}</p>
+                <p className="text-[10px] font-bold text-gray-400 mt-0.5">{LABEL_SIZES[key].hint}</p>
+              </button>
+            ))}
+          </div>
+
+          {missingBoxes > 0 && (
+            <p className="p-3 bg-amber-50 border border-amber-100 rounded-xl text-xs font-bold text-amber-700">
+              {missingBoxes} bill(s) have no box count yet and get a single label.
+            </p>
+          )}
+
+          <button onClick={handlePrint} disabled={labelCount === 0} className="w-full py-4 bg-black hover:bg-gray-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-40">
+            <Printer size={18}/> Print {labelCount} Label{labelCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default LabelPrintDialog;
@@ -0,0 +1,144 @@
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, PackageCheck, ScanBarcode, CheckCircle, AlertTriangle, RotateCcw, Package } from 'lucide-react';
+import { BillData } from '../types';
+import { ScannedCode } from '../services/codeScanner';
+import { recordBoxScan, describeBoxScan, getLoadingProgress, getDayLoadingSummary, resetLoading } from '../services/loadingService';
+import { can } from '../services/permissions';
+import CameraCapture from './CameraCapture';
+
+interface LoadingCheckProps {
+  date: string;
+  bills: BillData[]; // Every bill on the device; scans from other days are flagged
+  onUpdateBill: (bill: BillData) => void;
+  onClose: () => void;
+}
+
+const TONE_STYLES = {
+  ok: 'bg-green-500/90 border-green-400/50',
+  warn: 'bg-amber-500/90 border-amber-400/50',
+  error: 'bg-red-600/90 border-red-400/50',
+};
+
+// Ticks boxes off by scanning their labels, and lists what is still missing for the day
+const LoadingCheck: React.FC<LoadingCheckProps> = ({ date, bills, onUpdateBill, onClose }) => {
+  const [showCamera, setShowCamera] = useState(false);
+  const [lastScan, setLastScan] = useState<ReturnType<typeof describeBoxScan> | null>(null);
+  const canLoad = can('bill:pack');
+
+  // Scans can land faster than the parent re-renders with the saved bill
+  const billsRef = useRef(bills);
+  billsRef.current = bills;
+
+  const dayBills = bills.filter(b => b.entryDate === date && !b.deletedAt);
+  const summary = getDayLoadingSummary(dayBills);
+  const sortedBills = [...dayBills].sort((a, b) =>
+      Number(getLoadingProgress(a).complete) - Number(getLoadingProgress(b).complete) ||
+      (a.customerName || '').localeCompare(b.customerName || ''));
+
+  const handleScan = (code: ScannedCode) => {
+    const result = recordBoxScan(code.value, billsRef.current, date);
+    if (result.kind === 'loaded') {
+      billsRef.current = billsRef.current.map(b => b.id === result.bill.id ? result.bill : b);
+      onUpdateBill(result.bill);
+    }
+    const feedback = describeBoxScan(result);
+    if (feedback.tone !== 'ok') navigator.vibrate?.([80, 60, 80, 60, 80]);
+    setLastScan(feedback);
+  };
+
+  const handleReset = (bill: BillData) => {
+    if (!window.confirm(`Clear the scanned boxes for ${bill.customerName || 'this bill'}?`)) return;
+    onUpdateBill(resetLoading(bill));
+  };
+
+  const missingBoxes = (bill: BillData) => {
+    const { total } = getLoadingProgress(bill);
+    const loaded = new Set(bill.loadedBoxes || []);
+    return Array.from({ length: total }, (_, i) => i + 1).filter(box => !loaded.has(box));
+  };
+
+  const scanPanel = (
+    <div className="w-full max-w-sm space-y-2">
+      {lastScan && (
+        <div className={`px-4 py-2.5 rounded-2xl border backdrop-blur-md text-sm font-bold text-white flex items-start gap-2 ${TONE_STYLES[lastScan.tone]}`}>
+          {lastScan.tone === 'ok' ? <CheckCircle size={16} className="shrink-0 mt-0.5"/> : <AlertTriangle size={16} className="shrink-0 mt-0.5"/>}
+          <span>{lastScan.message}</span>
+        </div>
+      )}
+      <p className="text-center text-[11px] font-bold text-gray-400">
+        {summary.loadedBills}/{summary.totalBills} bills · {summary.loadedBoxes}/{summary.totalBoxes} boxes loaded
+      </p>
+    </div>
+  );
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><PackageCheck className="text-green-600" /> Loading Check</h2>
+            <p className="text-gray-500 text-sm mt-1">{summary.loadedBills}/{summary.totalBills} bills · {summary.loadedBoxes}/{summary.totalBoxes} boxes scanned on {date}</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          {canLoad && (
+            <button onClick={() => setShowCamera(true)} disabled={dayBills.length === 0} className="w-full py-4 bg-black hover:bg-gray-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 disabled:opacity-40">
+              <ScanBarcode size={18}/> Scan Box Labels
+            </button>
+          )}
+
+          {dayBills.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-6">No bills for this day.</p>
+          )}
+
+          <div className="divide-y divide-gray-100 rounded-2xl border border-gray-200 overflow-hidden">
+            {sortedBills.map(bill => {
+              const progress = getLoadingProgress(bill);
+              const missing = missingBoxes(bill);
+              return (
+                <div key={bill.id} className={`p-3 flex items-center gap-3 ${progress.complete ? 'bg-green-50/60' : ''}`}>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold text-black truncate">{bill.customerName || 'Unknown Customer'}</p>
+                    <p className="text-[10px] font-medium text-gray-400 truncate">
+                      #{bill.invoiceNo || '—'}{!progress.complete && progress.loaded > 0 && ` · Missing box ${missing.join(', ')}`}
+                    </p>
+                  </div>
+                  <span className={`text-xs font-black flex items-center gap-1 shrink-0 ${progress.complete ? 'text-green-600' : progress.loaded > 0 ? 'text-amber-600' : 'text-gray-400'}`}>
+                    <Package size={12}/> {progress.loaded}/{progress.total}
+                  </span>
+                  {progress.complete
+                    ? <CheckCircle size={18} className="text-green-600 shrink-0"/>
+                    : <span className="w-[18px] shrink-0"/>}
+                  {canLoad && progress.loaded > 0 && (
+                    <button onClick={() => handleReset(bill)} className="p-1.5 text-gray-300 hover:text-red-500 shrink-0" title="Clear scanned boxes"><RotateCcw size={14}/></button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </motion.div>
+
+      {/* The camera sits inside this dialog so it opens on top of it */}
+      <AnimatePresence>
+        {showCamera && (
+          <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[200] bg-black">
+            <CameraCapture
+              onClose={() => { setShowCamera(false); setLastScan(null); }}
+              onScan={handleScan}
+              initialMode="scan"
+              continuousScan
+              scanHint="Scan each box label as it goes on"
+              scanPanel={scanPanel}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+};
+
+export default LoadingCheck;
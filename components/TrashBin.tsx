@@ -0,0 +1,84 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { X, Trash2, RotateCcw, Clock, Files } from 'lucide-react';
+import { BillData } from '../types';
+import { getBillImages } from '../services/storageService';
+import { describeUser } from '../services/authService';
+
+interface TrashBinProps {
+  bills: BillData[]; // Bills with a deletedAt tombstone
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (bill: BillData) => void;
+  onDeleteForever: (bill: BillData) => void;
+  onClose: () => void;
+}
+
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashBin: React.FC<TrashBinProps> = ({ bills, retentionDays, onRetentionChange, onRestore, onDeleteForever, onClose }) => {
+  const sorted = [...bills].sort((a, b) => (b.deletedAt || 0) - (a.deletedAt || 0));
+
+  const daysLeft = (bill: BillData) =>
+      Math.max(0, Math.ceil(((bill.deletedAt || 0) + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  return (
+    <motion.div initial={{opacity:0}} animate={{opacity:1}} exit={{opacity:0}} className="fixed inset-0 z-[250] bg-gray-900/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <motion.div initial={{scale:0.95}} animate={{scale:1}} className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="p-6 pb-4 border-b border-gray-100 flex justify-between items-start">
+          <div>
+            <h2 className="text-2xl font-black text-black flex items-center gap-2"><Trash2 className="text-red-500" /> Trash</h2>
+            <p className="text-gray-500 text-sm mt-1">Deleted bills are kept for {retentionDays} days, then removed with their photos.</p>
+          </div>
+          <button onClick={onClose} className="p-2 bg-gray-100 rounded-full hover:bg-gray-200"><X size={20}/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {sorted.length === 0 && (
+            <p className="text-center text-sm font-bold text-gray-400 py-8">The trash is empty.</p>
+          )}
+          {sorted.map(bill => {
+            const pages = getBillImages(bill);
+            return (
+              <div key={bill.id} className="p-3 bg-gray-50 rounded-xl border border-gray-200 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-black text-black truncate">{bill.customerName || 'Unnamed bill'}</p>
+                  <p className="text-[10px] font-bold text-gray-400 truncate">
+                    {bill.invoiceNo ? `#${bill.invoiceNo} · ` : ''}{bill.entryDate}
+                    {pages.length > 0 && <span className="inline-flex items-center gap-0.5 ml-1"><Files size={9}/> {pages.length}</span>}
+                  </p>
+                  <p className="text-[10px] font-bold text-red-400 flex items-center gap-1 mt-0.5">
+                    <Clock size={9}/> Deleted {bill.deletedAt && new Date(bill.deletedAt).toLocaleDateString()}
+                    {bill.deletedBy && ` by ${describeUser(bill.deletedBy)}`} · {daysLeft(bill)}d left
+                  </p>
+                </div>
+                <button onClick={() => onRestore(bill)} className="px-3 py-2 rounded-lg text-xs font-bold text-indigo-600 bg-white border border-indigo-100 hover:bg-indigo-50 flex items-center gap-1 shrink-0">
+                  <RotateCcw size={12}/> Restore
+                </button>
+                <button onClick={() => onDeleteForever(bill)} className="px-3 py-2 rounded-lg text-xs font-bold text-red-500 bg-white border border-red-100 hover:bg-red-50 shrink-0">
+                  Delete Forever
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-6 pt-4 border-t border-gray-100 bg-gray-50 flex justify-between items-center gap-3">
+          <label className="text-xs font-bold text-gray-500 uppercase">Keep deleted bills for</label>
+          <select
+            value={retentionDays}
+            onChange={(e) => onRetentionChange(parseInt(e.target.value, 10))}
+            className="p-2 bg-white rounded-lg border border-gray-200 text-sm font-bold text-black outline-none"
+          >
+            {Array.from(new Set([...RETENTION_OPTIONS, retentionDays])).sort((a, b) => a - b).map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default TrashBin;
@@ -0,0 +1,247 @@
+import { SupabaseClient, Session } from '@supabase/supabase-js';
+import { UserRole } from '../types';
+
+// --- ACCOUNTS & ORGANISATIONS ---
+// Sign-in goes through Supabase Auth. Every user belongs to one organisation
+// (org_members), and row-level security limits bills to members of their org.
+
+export interface AuthUser {
+    id: string;
+    email: string;
+}
+
+export interface Membership {
+    orgId: string;
+    orgName: string;
+    joinCode: string; // Shared with colleagues so they can join
+    displayName: string;
+    role: UserRole;
+}
+
+export interface TeamMember {
+    userId: string;
+    displayName: string;
+    role: UserRole;
+}
+
+export type AuthStatus = 'loading' | 'signed_out' | 'no_org' | 'ready';
+
+export interface AuthState {
+    status: AuthStatus;
+    user: AuthUser | null;
+    membership: Membership | null;
+    members: Record<string, string>; // User id -> display name, for attribution
+    team: TeamMember[];
+}
+
+// Last known membership, so a signed-in device can start offline
+const MEMBERSHIP_CACHE_KEY = 'grace_membership_cache';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+let client: SupabaseClient | null = null;
+let authSubscription: { unsubscribe: () => void } | null = null;
+let authState: AuthState = { status: 'signed_out', user: null, membership: null, members: {}, team: [] };
+const authListeners = new Set<(state: AuthState) => void>();
+
+const setAuthState = (patch: Partial<AuthState>) => {
+    authState = { ...authState, ...patch };
+    authListeners.forEach(listener => listener(authState));
+};
+
+export const getAuthState = () => authState;
+
+export const subscribeToAuthState = (listener: (state: AuthState) => void) => {
+    authListeners.add(listener);
+    listener(authState);
+    return () => { authListeners.delete(listener); };
+};
+
+const readMembershipCache = (userId: string): Pick<AuthState, 'membership' | 'members' | 'team'> | null => {
+    try {
+        const cached = JSON.parse(localStorage.getItem(MEMBERSHIP_CACHE_KEY) || 'null');
+        if (!cached || cached.userId !== userId || !cached.membership) return null;
+        const team: TeamMember[] = cached.team || [];
+        return { membership: cached.membership, members: toNameMap(team), team };
+    } catch { return null; }
+};
+
+const writeMembershipCache = (userId: string, membership: Membership | null, team: TeamMember[]) => {
+    if (!membership) localStorage.removeItem(MEMBERSHIP_CACHE_KEY);
+    else localStorage.setItem(MEMBERSHIP_CACHE_KEY, JSON.stringify({ userId, membership, team }));
+};
+
+const toNameMap = (team: TeamMember[]) => Object.fromEntries(team.map(m => [m.userId, m.displayName]));
+
+const loadTeam = async (orgId: string): Promise<TeamMember[]> => {
+    const { data, error } = await client!
+        .from('org_members')
+        .select('user_id, display_name, role')
+        .eq('org_id', orgId)
+        .order('created_at');
+    if (error) throw error;
+    return (data || []).map((m: any) => ({ userId: m.user_id, displayName: m.display_name || 'Unnamed', role: m.role || 'packer' }));
+};
+
+const loadMembership = async (user: AuthUser) => {
+    try {
+        const { data, error } = await client!
+            .from('org_members')
+            .select('org_id, display_name, role, organisations(name, join_code)')
+            .eq('user_id', user.id)
+            .maybeSingle();
+        if (error) throw error;
+
+        if (!data) {
+            writeMembershipCache(user.id, null, []);
+            setAuthState({ status: 'no_org', membership: null, members: {}, team: [] });
+            return;
+        }
+
+        const org: any = Array.isArray(data.organisations) ? data.organisations[0] : data.organisations;
+        const membership: Membership = {
+            orgId: data.org_id,
+            orgName: org?.name || '',
+            joinCode: org?.join_code || '',
+            displayName: data.display_name || user.email,
+            role: (data.role as UserRole) || 'packer',
+        };
+        const team = await loadTeam(membership.orgId);
+        writeMembershipCache(user.id, membership, team);
+        setAuthState({ status: 'ready', membership, members: toNameMap(team), team });
+    } catch (e: any) {
+        console.error("Failed to load organisation membership:", e.message || e);
+        const cached = readMembershipCache(user.id);
+        if (cached?.membership) setAuthState({ status: 'ready', ...cached });
+        else setAuthState({ status: 'no_org', membership: null, members: {}, team: [] });
+    }
+};
+
+const handleSession = async (session: Session | null) => {
+    if (!session) {
+        setAuthState({ status: 'signed_out', user: null, membership: null, members: {}, team: [] });
+        return;
+    }
+    const user: AuthUser = { id: session.user.id, email: session.user.email || '' };
+    // Token refreshes re-announce the same user; nothing to reload
+    if (authState.user?.id === user.id && authState.status === 'ready') return;
+    setAuthState({ status: 'loading', user });
+    await loadMembership(user);
+};
+
+// Called by storageService whenever the workspace's Supabase client changes (null when disconnected)
+export const attachAuthClient = (supabase: SupabaseClient | null) => {
+    authSubscription?.unsubscribe();
+    authSubscription = null;
+    client = supabase;
+    if (!supabase) {
+        setAuthState({ status: 'signed_out', user: null, membership: null, members: {}, team: [] });
+        return;
+    }
+    setAuthState({ status: 'loading', user: null, membership: null, members: {}, team: [] });
+    supabase.auth.getSession()
+        .then(({ data }) => { if (client === supabase) handleSession(data.session); })
+        .catch(e => {
+            console.error("Failed to restore session:", e);
+            if (client === supabase) setAuthState({ status: 'signed_out' });
+        });
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+        // Deferred: supabase-js holds a lock while this callback runs
+        setTimeout(() => { if (client === supabase) handleSession(session); }, 0);
+    });
+    authSubscription = data.subscription;
+};
+
+const requireClient = () => {
+    if (!client) throw new Error("Database not connected. Please configure Supabase.");
+    return client;
+};
+
+// --- SIGN IN ---
+
+export const signInWithPassword = async (email: string, password: string) => {
+    const { error } = await requireClient().auth.signInWithPassword({ email: email.trim(), password });
+    if (error) throw new Error(error.message);
+};
+
+// Returns true when the project requires the email address to be confirmed first
+export const signUpWithPassword = async (email: string, password: string): Promise<boolean> => {
+    const { data, error } = await requireClient().auth.signUp({
+        email: email.trim(),
+        password,
+        options: { emailRedirectTo: window.location.origin + window.location.pathname },
+    });
+    if (error) throw new Error(error.message);
+    return !data.session;
+};
+
+export const sendMagicLink = async (email: string) => {
+    const { error } = await requireClient().auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: window.location.origin + window.location.pathname },
+    });
+    if (error) throw new Error(error.message);
+};
+
+export const signOut = async () => {
+    const { error } = await requireClient().auth.signOut();
+    if (error) throw new Error(error.message);
+    localStorage.removeItem(MEMBERSHIP_CACHE_KEY);
+};
+
+// --- ORGANISATION ---
+
+export const createOrganisation = async (orgName: string, displayName: string) => {
+    const { error } = await requireClient().rpc('create_organisation', { org_name: orgName.trim(), display_name: displayName.trim() });
+    if (error) throw new Error(error.message);
+    if (authState.user) await loadMembership(authState.user);
+};
+
+export const joinOrganisation = async (joinCode: string, displayName: string) => {
+    const { error } = await requireClient().rpc('join_organisation', { code: joinCode.trim(), display_name: displayName.trim() });
+    if (error) throw new Error(error.message);
+    if (authState.user) await loadMembership(authState.user);
+};
+
+export const updateDisplayName = async (displayName: string) => {
+    const { user, membership, team } = authState;
+    const name = displayName.trim();
+    if (!user || !membership || !name) return;
+    const { error } = await requireClient()
+        .from('org_members')
+        .update({ display_name: name })
+        .eq('org_id', membership.orgId)
+        .eq('user_id', user.id);
+    if (error) throw new Error(error.message);
+    const updated = { ...membership, displayName: name };
+    const updatedTeam = team.map(m => m.userId === user.id ? { ...m, displayName: name } : m);
+    writeMembershipCache(user.id, updated, updatedTeam);
+    setAuthState({ membership: updated, members: toNameMap(updatedTeam), team: updatedTeam });
+};
+
+// Admins only; the database trigger rejects anyone else
+export const setMemberRole = async (userId: string, role: UserRole) => {
+    const { user, membership, team } = authState;
+    if (!user || !membership) return;
+    const { error } = await requireClient()
+        .from('org_members')
+        .update({ role })
+        .eq('org_id', membership.orgId)
+        .eq('user_id', userId);
+    if (error) throw new Error(error.message);
+    const updatedTeam = team.map(m => m.userId === userId ? { ...m, role } : m);
+    writeMembershipCache(user.id, membership, updatedTeam);
+    setAuthState({ team: updatedTeam });
+};
+
+// --- ATTRIBUTION ---
+
+export const getCurrentUserId = () => authState.user?.id;
+export const getCurrentOrgId = () => authState.membership?.orgId;
+export const getMemberDisplayName = () => authState.membership?.displayName;
+export const getMemberRole = () => authState.membership?.role;
+
+// Stored identities are user ids; bills from before sign-in carry a plain device name
+export const describeUser = (identity?: string): string => {
+    if (!identity) return '';
+    return authState.members[identity] || (UUID_PATTERN.test(identity) ? 'Former member' : identity);
+};
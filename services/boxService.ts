@@ -0,0 +1,141 @@
+import { BillData, BillItem, BoxContent, PackedBox } from '../types';
+
+// --- BOX BREAKDOWN ---
+// A bill can list its boxes one by one (type, weight and what went in each) instead of
+// just a count. boxCount is kept equal to the list so dispatch, labels and the loading
+// check keep working off the one number. Everything here is pure.
+
+export const BOX_TYPES = ['Small', 'Medium', 'Large', 'Bag', 'Crate'];
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+
+export const createBox = (type = BOX_TYPES[1]): PackedBox => ({ id: generateId(), type, contents: [] });
+
+// --- EDITS ---
+// These return the edited bill for the caller to save
+
+const withBoxes = (bill: BillData, boxes: PackedBox[]): BillData =>
+    ({ ...bill, boxes, boxCount: boxes.length, updatedAt: Date.now() });
+
+// Turns the plain count into a list, one box per box already counted
+export const startBoxList = (bill: BillData): BillData =>
+    withBoxes(bill, Array.from({ length: Math.max(bill.boxCount || 0, 1) }, () => createBox()));
+
+export const addBox = (bill: BillData, type?: string): BillData =>
+    withBoxes(bill, [...(bill.boxes || []), createBox(type ?? bill.boxes?.[bill.boxes.length - 1]?.type)]);
+
+export const removeBox = (bill: BillData, boxId: string): BillData =>
+    withBoxes(bill, (bill.boxes || []).filter(box => box.id !== boxId));
+
+export const updateBox = (bill: BillData, boxId: string, patch: Partial<Omit<PackedBox, 'id'>>): BillData =>
+    withBoxes(bill, (bill.boxes || []).map(box => box.id === boxId ? { ...box, ...patch } : box));
+
+// The box counter in the card: listed boxes grow with blanks or lose the last ones
+export const setBoxCount = (bill: BillData, count: number): BillData => {
+    const boxes = bill.boxes || [];
+    if (boxes.length === 0) return { ...bill, boxCount: Math.max(0, count), updatedAt: Date.now() };
+    if (count >= boxes.length) return withBoxes(bill, [...boxes, ...Array.from({ length: count - boxes.length }, () => createBox(boxes[boxes.length - 1].type))]);
+    return withBoxes(bill, boxes.slice(0, Math.max(0, count)));
+};
+
+// Adds to the box's line for this item (or name), or starts one
+export const addToBox = (bill: BillData, boxId: string, content: BoxContent): BillData => {
+    if (!content.name.trim() || content.quantity <= 0) return bill;
+    const box = bill.boxes?.find(b => b.id === boxId);
+    if (!box) return bill;
+    const sameLine = (c: BoxContent) => content.itemId ? c.itemId === content.itemId : !c.itemId && c.name === content.name;
+    const contents = box.contents.some(sameLine)
+        ? box.contents.map(c => sameLine(c) ? { ...c, quantity: c.quantity + content.quantity } : c)
+        : [...box.contents, { ...content, name: content.name.trim() }];
+    return updateBox(bill, boxId, { contents });
+};
+
+export const removeFromBox = (bill: BillData, boxId: string, index: number): BillData => {
+    const box = bill.boxes?.find(b => b.id === boxId);
+    if (!box) return bill;
+    return updateBox(bill, boxId, { contents: box.contents.filter((_, i) => i !== index) });
+};
+
+// --- TOTALS ---
+
+// How much of each bill line is still to be put in a box
+export const getUnboxedItems = (bill: BillData): { item: BillItem; remaining: number }[] => {
+    const boxed = new Map<string, number>();
+    (bill.boxes || []).forEach(box => box.contents.forEach(c => {
+        if (c.itemId) boxed.set(c.itemId, (boxed.get(c.itemId) || 0) + c.quantity);
+    }));
+    return (bill.items || [])
+        .map(item => ({ item, remaining: (item.quantity || 0) - (boxed.get(item.id) || 0) }))
+        .filter(({ remaining }) => remaining > 0);
+};
+
+export interface BoxTotals {
+    boxes: number;
+    weightKg: number;
+    weighedBoxes: number; // Boxes with a weight entered; the rest count as 0 kg
+    byType: Record<string, number>;
+}
+
+const emptyTotals = (): BoxTotals => ({ boxes: 0, weightKg: 0, weighedBoxes: 0, byType: {} });
+
+const addBoxesToTotals = (totals: BoxTotals, boxes: PackedBox[]) => {
+    totals.boxes += boxes.length;
+    boxes.forEach(box => {
+        const type = box.type.trim() || 'Box';
+        totals.byType[type] = (totals.byType[type] || 0) + 1;
+        if (box.weightKg) {
+            totals.weightKg += box.weightKg;
+            totals.weighedBoxes++;
+        }
+    });
+    return totals;
+};
+
+const addBillToTotals = (totals: BoxTotals, bill: BillData) => {
+    if (bill.boxes?.length) return addBoxesToTotals(totals, bill.boxes);
+    totals.boxes += bill.boxCount || 0;
+    return totals;
+};
+
+export const getBillBoxTotals = (bill: BillData): BoxTotals => addBillToTotals(emptyTotals(), bill);
+
+export const getDayBoxTotals = (bills: BillData[]): BoxTotals => bills.reduce(addBillToTotals, emptyTotals());
+
+export const formatWeight = (kg: number) => `${Math.round(kg * 10) / 10} kg`;
+
+// e.g. "2 Large · 1 Bag · 14.5 kg"
+export const describeBoxTotals = (totals: BoxTotals) =>
+    [
+        ...Object.entries(totals.byType).map(([type, count]) => `${count} ${type}`),
+        ...(totals.weighedBoxes > 0 ? [formatWeight(totals.weightKg)] : []),
+    ].join(' · ');
+
+export const describeBoxes = (boxes: PackedBox[]) =>
+    boxes.length > 0 ? describeBoxTotals(addBoxesToTotals(emptyTotals(), boxes)) : 'None';
+
+export const describeBoxContents = (box: PackedBox) =>
+    box.contents.map(c => `${c.name} × ${c.quantity}`).join(', ');
+
+// --- EXPORT ---
+
+// One row per listed box; bills that only have a count get one row saying so
+export const getBoxSheetRows = (bills: BillData[]) =>
+    bills.flatMap(bill => {
+        const boxes = bill.boxes || [];
+        const base = {
+            'Entry Date': bill.entryDate,
+            'Customer Name': bill.customerName,
+            'Invoice No': bill.invoiceNo,
+            'Group Name': bill.description,
+        };
+        if (boxes.length === 0) {
+            return bill.boxCount > 0 ? [{ ...base, 'Box': `1–${bill.boxCount}`, 'Type': '', 'Weight (kg)': '', 'Contents': 'Not itemised' }] : [];
+        }
+        return boxes.map((box, i) => ({
+            ...base,
+            'Box': `${i + 1} of ${boxes.length}`,
+            'Type': box.type,
+            'Weight (kg)': box.weightKg ?? '',
+            'Contents': describeBoxContents(box),
+        }));
+    });
@@ -0,0 +1,91 @@
+import { BillData } from '../types';
+
+// --- BARCODE / QR SCANNING ---
+// Uses the browser's BarcodeDetector where available (Android Chrome reads 1D barcodes too)
+// and falls back to jsQR, which only reads QR codes, everywhere else.
+
+export interface ScannedCode {
+    value: string;
+    format: string;
+}
+
+// Frames are shrunk to this width before jsQR looks at them
+const FALLBACK_SCAN_WIDTH = 640;
+
+let nativeDetector: any | null | undefined;
+let jsQR: ((data: Uint8ClampedArray, width: number, height: number) => { data: string } | null) | null = null;
+let scanCanvas: HTMLCanvasElement | null = null;
+
+const getNativeDetector = async () => {
+    if (nativeDetector !== undefined) return nativeDetector;
+    nativeDetector = null;
+    const Detector = (window as any).BarcodeDetector;
+    if (Detector) {
+        try {
+            const formats: string[] = await Detector.getSupportedFormats();
+            if (formats.length > 0) nativeDetector = new Detector({ formats });
+        } catch (e) {
+            console.warn("BarcodeDetector unavailable, using QR fallback:", e);
+        }
+    }
+    return nativeDetector;
+};
+
+const scanWithJsQR = async (video: HTMLVideoElement): Promise<ScannedCode | null> => {
+    if (!jsQR) {
+        const module: any = await import('jsqr');
+        jsQR = module.default || module;
+    }
+    const scale = Math.min(1, FALLBACK_SCAN_WIDTH / video.videoWidth);
+    const width = Math.round(video.videoWidth * scale);
+    const height = Math.round(video.videoHeight * scale);
+    if (!scanCanvas) scanCanvas = document.createElement('canvas');
+    scanCanvas.width = width;
+    scanCanvas.height = height;
+    const ctx = scanCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, width, height);
+    const result = jsQR!(ctx.getImageData(0, 0, width, height).data, width, height);
+    return result?.data ? { value: result.data, format: 'qr_code' } : null;
+};
+
+// Looks for a code in the current video frame
+export const scanVideoFrame = async (video: HTMLVideoElement): Promise<ScannedCode | null> => {
+    if (!video.videoWidth || video.readyState < 2) return null;
+    const detector = await getNativeDetector();
+    if (detector) {
+        const codes = await detector.detect(video);
+        const code = codes.find((c: any) => c.rawValue);
+        return code ? { value: code.rawValue, format: code.format } : null;
+    }
+    return scanWithJsQR(video);
+};
+
+// --- INVOICE LOOKUP ---
+
+// GST e-invoice QRs are signed JWTs with the invoice number inside the payload
+const invoiceNoFromSignedQr = (value: string): string | null => {
+    const parts = value.split('.');
+    if (parts.length !== 3) return null;
+    try {
+        const payload = JSON.parse(atob(parts[1].replace(/-/g, '+').replace(/_/g, '/')));
+        const data = typeof payload.data === 'string' ? JSON.parse(payload.data) : payload.data || payload;
+        return data?.DocNo ? String(data.DocNo) : null;
+    } catch {
+        return null;
+    }
+};
+
+// The invoice number a scanned code stands for
+export const invoiceNoFromCode = (value: string): string => {
+    const trimmed = value.trim();
+    return invoiceNoFromSignedQr(trimmed) || trimmed;
+};
+
+const normalizeInvoiceNo = (invoiceNo: string) => invoiceNo.trim().toLowerCase();
+
+export const findBillByInvoiceNo = (bills: BillData[], invoiceNo: string): BillData | undefined => {
+    const wanted = normalizeInvoiceNo(invoiceNo);
+    if (!wanted) return undefined;
+    return bills.find(b => b.invoiceNo && normalizeInvoiceNo(b.invoiceNo) === wanted);
+};
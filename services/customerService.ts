@@ -0,0 +1,189 @@
+import { BillData, Customer } from '../types';
+
+// --- CUSTOMER DIRECTORY ---
+// Shops are learned from the bills already entered, then used to autocomplete the
+// customer field and to snap names read off photos onto a known customer.
+// storageService keeps the directory in sync; everything here is pure.
+
+// Scores at or above this count as the same shop when matching a typed or read name
+const MATCH_THRESHOLD = 0.82;
+// Learning from bills is stricter, as a wrong alias would be applied automatically
+const LEARN_THRESHOLD = 0.9;
+
+// "M/s. Sri Ganesh & Co." and "sri ganesh and co" compare equal
+export const normaliseCustomerName = (name: string) =>
+    (name || '')
+        .toLowerCase()
+        .replace(/&/g, ' and ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+
+export const customerIdFor = (name: string) => `cust-${normaliseCustomerName(name).replace(/ /g, '-')}`;
+
+const levenshtein = (a: string, b: string) => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+const ratio = (a: string, b: string) => {
+    const longest = Math.max(a.length, b.length);
+    return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+};
+
+// 0..1. Ignores spacing and word order, so "Ganesh Stores Sri" still matches.
+export const nameSimilarity = (a: string, b: string) => {
+    const left = normaliseCustomerName(a);
+    const right = normaliseCustomerName(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    const sorted = (s: string) => s.split(' ').sort().join('');
+    return Math.max(
+        ratio(left.replace(/ /g, ''), right.replace(/ /g, '')),
+        ratio(sorted(left), sorted(right)),
+    );
+};
+
+const namesOf = (customer: Customer) => [customer.name, ...customer.aliases];
+
+export interface CustomerMatch {
+    customer: Customer;
+    score: number; // 1 for an exact name or alias
+}
+
+// The closest customer to a name, if any is close enough. Removed customers are skipped
+// unless asked for (learning must not bring them back).
+export const findCustomer = (
+    name: string,
+    customers: Customer[],
+    threshold = MATCH_THRESHOLD,
+    includeDeleted = false,
+): CustomerMatch | null => {
+    const target = normaliseCustomerName(name);
+    if (!target) return null;
+    const compact = target.replace(/ /g, '').length;
+    let best: CustomerMatch | null = null;
+    for (const customer of customers) {
+        if (customer.deletedAt && !includeDeleted) continue;
+        for (const candidate of namesOf(customer)) {
+            const length = normaliseCustomerName(candidate).replace(/ /g, '').length;
+            // Lengths this far apart can't reach the threshold
+            if (Math.min(length, compact) < threshold * Math.max(length, compact)) continue;
+            const score = nameSimilarity(name, candidate);
+            if (score >= threshold && (!best || score > best.score)) best = { customer, score };
+            if (score === 1) return best;
+        }
+    }
+    return best;
+};
+
+// Autocomplete suggestions: prefix and substring hits first, then close spellings
+export const searchCustomers = (query: string, customers: Customer[], limit = 6): Customer[] => {
+    const target = normaliseCustomerName(query);
+    const active = customers.filter(c => !c.deletedAt);
+    if (!target) return [];
+
+    const ranked = active
+        .map(customer => {
+            const names = namesOf(customer).map(normaliseCustomerName);
+            let rank = 0;
+            if (names.some(n => n.startsWith(target))) rank = 3;
+            else if (names.some(n => n.includes(target))) rank = 2;
+            else if (names.some(n => nameSimilarity(n, target) >= MATCH_THRESHOLD)) rank = 1;
+            return { customer, rank };
+        })
+        .filter(r => r.rank > 0)
+        .sort((a, b) => b.rank - a.rank || a.customer.name.localeCompare(b.customer.name));
+    return ranked.slice(0, limit).map(r => r.customer);
+};
+
+// Fills a bill from a customer. The canonical name always wins; the address, group and
+// colour only fill blanks. Group and colour need bill:regroup, so callers pass that in.
+export const applyCustomer = <T extends BillData>(bill: T, customer: Customer, canRegroup: boolean): T => ({
+    ...bill,
+    customerName: customer.name,
+    address: bill.address?.trim() ? bill.address : customer.address || bill.address,
+    ...(canRegroup && !bill.description?.trim() && customer.defaultGroup ? { description: customer.defaultGroup } : {}),
+    ...(canRegroup && !bill.colorTheme && customer.defaultColor ? { colorTheme: customer.defaultColor } : {}),
+});
+
+// Remembers another spelling of a customer's name. Returns the customer unchanged if known.
+export const withAlias = (customer: Customer, name: string): Customer => {
+    const trimmed = name.trim();
+    const known = namesOf(customer).some(n => normaliseCustomerName(n) === normaliseCustomerName(trimmed));
+    if (!trimmed || known) return customer;
+    return { ...customer, aliases: [...customer.aliases, trimmed], updatedAt: Date.now() };
+};
+
+export const createCustomer = (fields: Partial<Customer> & { name: string }): Customer => {
+    const now = Date.now();
+    return {
+        id: fields.id || customerIdFor(fields.name),
+        name: fields.name.trim(),
+        aliases: fields.aliases || [],
+        address: fields.address?.trim() || '',
+        phone: fields.phone?.trim() || '',
+        defaultGroup: fields.defaultGroup?.trim() || '',
+        defaultColor: fields.defaultColor || undefined,
+        createdAt: fields.createdAt || now,
+        updatedAt: now,
+        ...(fields.orgId ? { orgId: fields.orgId } : {}),
+    };
+};
+
+// Folds bills into the directory: new shops become customers, close spellings become
+// aliases and blank address/group/colour fields are filled from the latest bill.
+// Returns only the customers that changed.
+export const learnCustomers = (bills: BillData[], customers: Customer[]): Customer[] => {
+    const byId = new Map(customers.map(c => [c.id, c]));
+    const changed = new Set<string>();
+    const latestFirst = bills
+        .filter(b => !b.deletedAt && normaliseCustomerName(b.customerName))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    for (const bill of latestFirst) {
+        const known = Array.from(byId.values());
+        const match = findCustomer(bill.customerName, known, LEARN_THRESHOLD, true);
+        if (match?.customer.deletedAt) continue;
+
+        let customer = match?.customer ?? byId.get(customerIdFor(bill.customerName));
+        if (!customer) {
+            customer = createCustomer({ name: bill.customerName.trim() });
+            changed.add(customer.id);
+        }
+        const before = customer;
+        customer = withAlias(customer, bill.customerName);
+        if (!customer.address && bill.address?.trim()) customer = { ...customer, address: bill.address.trim() };
+        if (!customer.defaultGroup && bill.description?.trim()) customer = { ...customer, defaultGroup: bill.description.trim() };
+        if (!customer.defaultColor && bill.colorTheme) customer = { ...customer, defaultColor: bill.colorTheme };
+        if (customer !== before) {
+            customer = { ...customer, updatedAt: Date.now() };
+            changed.add(customer.id);
+        }
+        byId.set(customer.id, customer);
+    }
+    return Array.from(changed).map(id => byId.get(id)!);
+};
+
+// Merges one customer into another: its names become aliases of the target, blanks
+// are filled, and the source is marked removed.
+export const mergeCustomers = (source: Customer, target: Customer): [Customer, Customer] => {
+    const now = Date.now();
+    let merged = namesOf(source).reduce(withAlias, target);
+    merged = {
+        ...merged,
+        address: merged.address || source.address,
+        phone: merged.phone || source.phone,
+        defaultGroup: merged.defaultGroup || source.defaultGroup,
+        defaultColor: merged.defaultColor || source.defaultColor,
+        updatedAt: now,
+    };
+    return [merged, { ...source, deletedAt: now, updatedAt: now }];
+};
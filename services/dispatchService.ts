@@ -0,0 +1,189 @@
+import { BillData, DeliveryProof, DeliveryStatus, DispatchManifest, ManifestStop, PackingStatus } from '../types';
+import { getCurrentIdentity } from './packingService';
+import { normaliseCustomerName } from './customerService';
+import { escapeHtml } from './printService';
+
+// --- DISPATCH ---
+// Packed delivery bills for a day are collected into a manifest: one vehicle and
+// driver, and stops in driving order. Sending the run marks its bills out for
+// delivery; each stop is then marked delivered by whoever drops it off.
+// storageService keeps manifests in sync; everything here is pure.
+
+export const DELIVERY_STATUS_LABELS: Record<DeliveryStatus, string> = {
+    [DeliveryStatus.OUT_FOR_DELIVERY]: 'Out for delivery',
+    [DeliveryStatus.DELIVERED]: 'Delivered',
+};
+
+const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+
+// Bills on a run that hasn't been removed
+const billsOnManifests = (manifests: DispatchManifest[]) =>
+    new Set(manifests.filter(m => !m.deletedAt).flatMap(m => m.stops.flatMap(s => s.billIds)));
+
+// Packed delivery bills for the day that aren't on a run yet
+export const getDispatchCandidates = (bills: BillData[], manifests: DispatchManifest[], date: string) => {
+    const onRun = billsOnManifests(manifests);
+    return bills.filter(b =>
+        b.entryDate === date && b.isDelivery && b.status === PackingStatus.PACKED &&
+        !b.deletedAt && !b.deliveryStatus && !onRun.has(b.id));
+};
+
+// --- STOPS ---
+
+// Address parts without PIN codes, e.g. ["12 mg road", "indiranagar", "bangalore"]
+const addressParts = (address: string) =>
+    (address || '')
+        .split(/[,\n]/)
+        .map(part => part.replace(/\b\d{6}\b/g, '').trim())
+        .filter(Boolean);
+
+// The locality a stop is in: the part of the address before the town
+export const areaOf = (address: string) => {
+    const parts = addressParts(address);
+    return parts.length > 1 ? parts[parts.length - 2] : parts[0] || '';
+};
+
+// Most general part first (town, then locality, then street), so neighbours sort together
+const areaKey = (stop: ManifestStop) => addressParts(stop.address).map(p => p.toLowerCase()).reverse().join(' | ');
+
+const sortStopsByArea = (stops: ManifestStop[]) =>
+    [...stops].sort((a, b) => areaKey(a).localeCompare(areaKey(b)) || a.customerName.localeCompare(b.customerName));
+
+const stopKey = (customerName: string, address: string) =>
+    `${normaliseCustomerName(customerName)}|${normaliseCustomerName(address)}`;
+
+// One stop per customer and address, ordered by area
+const buildStops = (bills: BillData[]): ManifestStop[] => {
+    const stops = new Map<string, ManifestStop>();
+    bills.forEach(bill => {
+        const key = stopKey(bill.customerName, bill.address);
+        const stop = stops.get(key);
+        if (stop) stop.billIds.push(bill.id);
+        else stops.set(key, { id: generateId(), customerName: bill.customerName, address: bill.address, billIds: [bill.id] });
+    });
+    return sortStopsByArea(Array.from(stops.values()));
+};
+
+export const createManifest = (date: string, vehicle: string, driver: string, bills: BillData[]): DispatchManifest => {
+    const now = Date.now();
+    return {
+        id: generateId(),
+        date,
+        vehicle: vehicle.trim(),
+        driver: driver.trim(),
+        stops: buildStops(bills),
+        createdAt: now,
+        updatedAt: now,
+        createdBy: getCurrentIdentity(),
+    };
+};
+
+// Bills packed after the run was planned join their customer's stop, or new stops at
+// the end so the order already chosen is kept
+export const addToManifest = (manifest: DispatchManifest, bills: BillData[]): DispatchManifest => {
+    const stops = manifest.stops.map(s => ({ ...s, billIds: [...s.billIds] }));
+    const remaining = bills.filter(bill => {
+        const stop = stops.find(s => stopKey(s.customerName, s.address) === stopKey(bill.customerName, bill.address));
+        if (stop) stop.billIds.push(bill.id);
+        return !stop;
+    });
+    return { ...manifest, stops: [...stops, ...buildStops(remaining)], updatedAt: Date.now() };
+};
+
+export const removeStop = (manifest: DispatchManifest, stopId: string): DispatchManifest =>
+    ({ ...manifest, stops: manifest.stops.filter(s => s.id !== stopId), updatedAt: Date.now() });
+
+export const moveStop = (manifest: DispatchManifest, index: number, offset: number): DispatchManifest => {
+    const target = index + offset;
+    if (target < 0 || target >= manifest.stops.length) return manifest;
+    const stops = [...manifest.stops];
+    const [stop] = stops.splice(index, 1);
+    stops.splice(target, 0, stop);
+    return { ...manifest, stops, updatedAt: Date.now() };
+};
+
+// Sorts the stops by area again, dropping the manual order
+export const resortStops = (manifest: DispatchManifest): DispatchManifest =>
+    ({ ...manifest, stops: sortStopsByArea(manifest.stops), updatedAt: Date.now() });
+
+// --- PROGRESS ---
+
+// The stop's bills that are loaded on this device
+export const getStopBills = (stop: ManifestStop, billsById: Map<string, BillData>) =>
+    stop.billIds.map(id => billsById.get(id)).filter((b): b is BillData => !!b && !b.deletedAt);
+
+export const getStopBoxTotal = (stop: ManifestStop, billsById: Map<string, BillData>) =>
+    getStopBills(stop, billsById).reduce((sum, b) => sum + (b.boxCount || 0), 0);
+
+export const isStopDelivered = (stop: ManifestStop, billsById: Map<string, BillData>) => {
+    const bills = getStopBills(stop, billsById);
+    return bills.length > 0 && bills.every(b => b.deliveryStatus === DeliveryStatus.DELIVERED);
+};
+
+export interface ManifestProgress {
+    totalStops: number;
+    deliveredStops: number;
+    totalBoxes: number;
+}
+
+export const getManifestProgress = (manifest: DispatchManifest, billsById: Map<string, BillData>): ManifestProgress => ({
+    totalStops: manifest.stops.length,
+    deliveredStops: manifest.stops.filter(s => isStopDelivered(s, billsById)).length,
+    totalBoxes: manifest.stops.reduce((sum, s) => sum + getStopBoxTotal(s, billsById), 0),
+});
+
+// --- STATE CHANGES ---
+// These return edited bills for the caller to save
+
+export const dispatchBills = (manifest: DispatchManifest, bills: BillData[]): BillData[] => {
+    const now = Date.now();
+    return bills.map(b => ({ ...b, manifestId: manifest.id, deliveryStatus: DeliveryStatus.OUT_FOR_DELIVERY, dispatchedAt: now, updatedAt: now }));
+};
+
+// Every bill handed over at a stop shares the same proof; each keeps its own copy of
+// the files in the bucket
+export const deliverBills = (bills: BillData[], proof?: DeliveryProof): BillData[] => {
+    const now = Date.now();
+    const who = getCurrentIdentity();
+    return bills
+        .filter(b => b.deliveryStatus !== DeliveryStatus.DELIVERED)
+        .map(b => ({
+            ...b,
+            deliveryStatus: DeliveryStatus.DELIVERED,
+            deliveredAt: now,
+            deliveredBy: who,
+            ...(proof ? { deliveryProof: proof } : {}),
+            updatedAt: now,
+        }));
+};
+
+// --- RUN SHEET ---
+
+export const getRunSheetRows = (manifest: DispatchManifest, billsById: Map<string, BillData>) =>
+    manifest.stops.map((stop, index) => {
+        const bills = getStopBills(stop, billsById);
+        return {
+            'Stop': index + 1,
+            'Customer': stop.customerName,
+            'Area': areaOf(stop.address),
+            'Address': stop.address,
+            'Invoices': bills.map(b => b.invoiceNo || '—').join(', '),
+            'Boxes': getStopBoxTotal(stop, billsById),
+            'Status': isStopDelivered(stop, billsById) ? 'Delivered' : manifest.dispatchedAt ? 'Out for delivery' : 'Planned',
+        };
+    });
+
+export const buildRunSheetHtml = (manifest: DispatchManifest, billsById: Map<string, BillData>) => {
+    const rows = getRunSheetRows(manifest, billsById);
+    const { totalBoxes } = getManifestProgress(manifest, billsById);
+    return `
+<h1>Delivery Run · ${escapeHtml(manifest.date)}</h1>
+<p>Vehicle: <b>${escapeHtml(manifest.vehicle || '—')}</b> &nbsp; Driver: <b>${escapeHtml(manifest.driver || '—')}</b> &nbsp;
+${rows.length} stops · ${totalBoxes} boxes</p>
+<table>
+  <thead><tr><th>#</th><th>Customer</th><th>Address</th><th>Invoices</th><th>Boxes</th><th style="width:25%">Received by (sign)</th></tr></thead>
+  <tbody>
+    ${rows.map(r => `<tr><td>${r['Stop']}</td><td><b>${escapeHtml(r['Customer'])}</b></td><td>${escapeHtml(r['Address'])}</td><td>${escapeHtml(r['Invoices'])}</td><td>${r['Boxes']}</td><td></td></tr>`).join('')}
+  </tbody>
+</table>`;
+};
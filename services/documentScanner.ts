@@ -0,0 +1,278 @@
+// --- DOCUMENT SCANNER ---
+// Finds the bill in a camera frame, straightens it and cleans up the contrast.
+// Plain canvas maths so it runs on any phone without extra downloads. Detection
+// looks for the largest bright region (paper on a darker surface), which covers
+// how bills are photographed at the packing table.
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// Frames are shrunk to this width before detection
+const DETECTION_WIDTH = 320;
+// The page has to cover this share of the frame to count
+const MIN_AREA_RATIO = 0.15;
+const MAX_AREA_RATIO = 0.97;
+// Share of the corner polygon the bright region must fill (rules out odd shapes)
+const MIN_FILL_RATIO = 0.75;
+// Longest side of the straightened output; compressImage shrinks it further
+const MAX_OUTPUT_SIZE = 1400;
+
+let detectionCanvas: HTMLCanvasElement | null = null;
+
+const getDetectionContext = (width: number, height: number) => {
+    if (!detectionCanvas) detectionCanvas = document.createElement('canvas');
+    detectionCanvas.width = width;
+    detectionCanvas.height = height;
+    return detectionCanvas.getContext('2d', { willReadFrequently: true });
+};
+
+// Otsu's method: the grey level that best splits the histogram in two
+const otsuThreshold = (gray: Uint8Array) => {
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < gray.length; i++) histogram[gray[i]]++;
+
+    let sum = 0;
+    for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+    let sumBackground = 0;
+    let weightBackground = 0;
+    let best = 0;
+    let threshold = 127;
+    for (let i = 0; i < 256; i++) {
+        weightBackground += histogram[i];
+        if (weightBackground === 0) continue;
+        const weightForeground = gray.length - weightBackground;
+        if (weightForeground === 0) break;
+        sumBackground += i * histogram[i];
+        const meanBackground = sumBackground / weightBackground;
+        const meanForeground = (sum - sumBackground) / weightForeground;
+        const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+        if (between > best) {
+            best = between;
+            threshold = i;
+        }
+    }
+    return threshold;
+};
+
+const polygonArea = (quad: Quad) => {
+    let area = 0;
+    for (let i = 0; i < 4; i++) {
+        const a = quad[i];
+        const b = quad[(i + 1) % 4];
+        area += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(area) / 2;
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Returns the page corners in source pixel coordinates, or null when no page is visible
+export const detectDocument = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Quad | null => {
+    if (!sourceWidth || !sourceHeight) return null;
+
+    const scale = DETECTION_WIDTH / sourceWidth;
+    const width = DETECTION_WIDTH;
+    const height = Math.max(1, Math.round(sourceHeight * scale));
+    const ctx = getDetectionContext(width, height);
+    if (!ctx) return null;
+
+    ctx.drawImage(source, 0, 0, width, height);
+    const { data } = ctx.getImageData(0, 0, width, height);
+
+    const gray = new Uint8Array(width * height);
+    for (let i = 0; i < gray.length; i++) {
+        gray[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+    const threshold = otsuThreshold(gray);
+
+    // Largest connected bright region (4-neighbour flood fill)
+    const labels = new Int32Array(width * height);
+    const queue = new Int32Array(width * height);
+    let bestLabel = 0;
+    let bestSize = 0;
+    let label = 0;
+    for (let start = 0; start < gray.length; start++) {
+        if (labels[start] || gray[start] <= threshold) continue;
+        label++;
+        let head = 0;
+        let tail = 0;
+        queue[tail++] = start;
+        labels[start] = label;
+        const visit = (n: number) => {
+            if (labels[n] || gray[n] <= threshold) return;
+            labels[n] = label;
+            queue[tail++] = n;
+        };
+        while (head < tail) {
+            const index = queue[head++];
+            const x = index % width;
+            if (x > 0) visit(index - 1);
+            if (x < width - 1) visit(index + 1);
+            if (index >= width) visit(index - width);
+            if (index + width < gray.length) visit(index + width);
+        }
+        if (tail > bestSize) {
+            bestSize = tail;
+            bestLabel = label;
+        }
+    }
+
+    const frameArea = width * height;
+    if (!bestLabel || bestSize < frameArea * MIN_AREA_RATIO || bestSize > frameArea * MAX_AREA_RATIO) return null;
+
+    // Corners are the extreme points along the two diagonals
+    let tl = { x: 0, y: 0, score: Infinity };
+    let br = { x: 0, y: 0, score: -Infinity };
+    let tr = { x: 0, y: 0, score: -Infinity };
+    let bl = { x: 0, y: 0, score: Infinity };
+    for (let i = 0; i < labels.length; i++) {
+        if (labels[i] !== bestLabel) continue;
+        const x = i % width;
+        const y = (i - x) / width;
+        if (x + y < tl.score) tl = { x, y, score: x + y };
+        if (x + y > br.score) br = { x, y, score: x + y };
+        if (x - y > tr.score) tr = { x, y, score: x - y };
+        if (x - y < bl.score) bl = { x, y, score: x - y };
+    }
+
+    const quad: Quad = [tl, tr, br, bl].map(p => ({ x: p.x / scale, y: p.y / scale })) as Quad;
+    const quadArea = polygonArea(quad) * scale * scale;
+    if (quadArea === 0 || bestSize / quadArea < MIN_FILL_RATIO) return null;
+
+    return quad;
+};
+
+// True when every corner stayed within `tolerance` (share of the frame diagonal)
+export const isSameQuad = (a: Quad, b: Quad, frameWidth: number, frameHeight: number, tolerance = 0.02) => {
+    const limit = Math.hypot(frameWidth, frameHeight) * tolerance;
+    return a.every((corner, i) => distance(corner, b[i]) <= limit);
+};
+
+// Solves the 8 unknowns of the homography that maps `from` onto `to`
+const computeHomography = (from: Quad, to: Quad): number[] | null => {
+    const rows: number[][] = [];
+    for (let i = 0; i < 4; i++) {
+        const { x, y } = from[i];
+        const { x: u, y: v } = to[i];
+        rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+        rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+    }
+
+    // Gaussian elimination with partial pivoting
+    for (let col = 0; col < 8; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < 8; r++) {
+            if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+        }
+        if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+        [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+        for (let r = 0; r < 8; r++) {
+            if (r === col) continue;
+            const factor = rows[r][col] / rows[col][col];
+            for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+        }
+    }
+    return rows.map((row, i) => row[8] / row[i]);
+};
+
+// Straightens the page into a flat rectangle (bilinear sampling)
+export const warpPerspective = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement | null => {
+    const [tl, tr, br, bl] = quad;
+    let outWidth = Math.max(distance(tl, tr), distance(bl, br));
+    let outHeight = Math.max(distance(tl, bl), distance(tr, br));
+    const shrink = Math.min(1, MAX_OUTPUT_SIZE / Math.max(outWidth, outHeight));
+    outWidth = Math.max(1, Math.round(outWidth * shrink));
+    outHeight = Math.max(1, Math.round(outHeight * shrink));
+
+    const rect: Quad = [
+        { x: 0, y: 0 },
+        { x: outWidth - 1, y: 0 },
+        { x: outWidth - 1, y: outHeight - 1 },
+        { x: 0, y: outHeight - 1 },
+    ];
+    const h = computeHomography(rect, quad);
+    if (!h) return null;
+
+    const srcCtx = source.getContext('2d');
+    if (!srcCtx) return null;
+    const srcWidth = source.width;
+    const srcHeight = source.height;
+    const src = srcCtx.getImageData(0, 0, srcWidth, srcHeight).data;
+
+    const output = document.createElement('canvas');
+    output.width = outWidth;
+    output.height = outHeight;
+    const outCtx = output.getContext('2d');
+    if (!outCtx) return null;
+    const outImage = outCtx.createImageData(outWidth, outHeight);
+    const out = outImage.data;
+
+    for (let y = 0; y < outHeight; y++) {
+        for (let x = 0; x < outWidth; x++) {
+            const w = h[6] * x + h[7] * y + 1;
+            const sx = Math.min(srcWidth - 1.001, Math.max(0, (h[0] * x + h[1] * y + h[2]) / w));
+            const sy = Math.min(srcHeight - 1.001, Math.max(0, (h[3] * x + h[4] * y + h[5]) / w));
+            const x0 = Math.floor(sx);
+            const y0 = Math.floor(sy);
+            const fx = sx - x0;
+            const fy = sy - y0;
+            const i00 = (y0 * srcWidth + x0) * 4;
+            const i10 = i00 + 4;
+            const i01 = i00 + srcWidth * 4;
+            const i11 = i01 + 4;
+            const o = (y * outWidth + x) * 4;
+            for (let c = 0; c < 3; c++) {
+                const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+                const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+                out[o + c] = top + (bottom - top) * fy;
+            }
+            out[o + 3] = 255;
+        }
+    }
+    outCtx.putImageData(outImage, 0, 0);
+    return output;
+};
+
+// Stretches brightness so the paper is near white and the print near black
+export const enhanceContrast = (canvas: HTMLCanvasElement) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const data = image.data;
+    const pixels = data.length / 4;
+
+    const histogram = new Array(256).fill(0);
+    for (let i = 0; i < data.length; i += 4) {
+        histogram[(data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8]++;
+    }
+
+    // Clip the darkest 2% and brightest 2% (shadows, glare)
+    let low = 0;
+    let high = 255;
+    let count = 0;
+    while (low < 255 && (count += histogram[low]) < pixels * 0.02) low++;
+    count = 0;
+    while (high > 0 && (count += histogram[high]) < pixels * 0.02) high--;
+    if (high - low < 16) return;
+
+    const range = high - low;
+    for (let i = 0; i < data.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+            data[i + c] = Math.min(255, Math.max(0, ((data[i + c] - low) * 255) / range));
+        }
+    }
+    ctx.putImageData(image, 0, 0);
+};
+
+// Full pipeline for a captured frame: crop to the page when one is found, then clean up
+export const scanDocument = (frame: HTMLCanvasElement, quad: Quad | null): HTMLCanvasElement => {
+    const page = quad ? warpPerspective(frame, quad) || frame : frame;
+    enhanceContrast(page);
+    return page;
+};
@@ -0,0 +1,74 @@
+import { ExtractedBillDetails } from '../types';
+import { extractBillDetails, isGeminiAvailable } from './geminiService';
+import { extractBillDetailsLocally } from './localOcrService';
+
+// --- EXTRACTION PROVIDERS ---
+// Anything that can turn the photos of a bill (one per page) into ExtractedBillDetails.
+
+export type ExtractionProviderId = 'gemini' | 'local';
+export type ExtractionPreference = 'auto' | ExtractionProviderId;
+
+export interface ExtractionProvider {
+    id: ExtractionProviderId;
+    label: string;
+    description: string;
+    isAvailable: () => boolean;
+    extract: (base64Images: string[]) => Promise<ExtractedBillDetails>;
+}
+
+export const geminiProvider: ExtractionProvider = {
+    id: 'gemini',
+    label: 'Gemini AI',
+    description: 'Most accurate, reads line items. Needs an API key and internet.',
+    isAvailable: () => isGeminiAvailable() && navigator.onLine,
+    extract: extractBillDetails,
+};
+
+export const localOcrProvider: ExtractionProvider = {
+    id: 'local',
+    label: 'On-device OCR',
+    description: 'Works offline in the browser. Reads invoice no., date and shop; always needs a review.',
+    isAvailable: () => typeof Worker !== 'undefined',
+    extract: extractBillDetailsLocally,
+};
+
+export const EXTRACTION_PROVIDERS: ExtractionProvider[] = [geminiProvider, localOcrProvider];
+
+// --- PREFERENCE ---
+const PREFERENCE_KEY = 'grace_extraction_provider';
+
+export const getExtractionPreference = (): ExtractionPreference => {
+    const stored = localStorage.getItem(PREFERENCE_KEY);
+    return stored === 'gemini' || stored === 'local' ? stored : 'auto';
+};
+
+export const setExtractionPreference = (preference: ExtractionPreference) => {
+    localStorage.setItem(PREFERENCE_KEY, preference);
+};
+
+// Providers to try in order. On-device OCR is always the last resort.
+const getProviderChain = (): ExtractionProvider[] => {
+    const preference = getExtractionPreference();
+    if (preference === 'local') return [localOcrProvider];
+    return [geminiProvider, localOcrProvider].filter(p => p.isAvailable());
+};
+
+// Runs the preferred provider, falling back to the next one when it is unavailable or fails
+export const runExtraction = async (
+    base64Images: string[],
+    onProviderStart?: (provider: ExtractionProvider) => void
+): Promise<ExtractedBillDetails> => {
+    const chain = getProviderChain();
+    let result: ExtractedBillDetails = { customerName: '', address: '', invoiceNo: '', billDate: '', status: 'failed', confidence: {} };
+    let provider: ExtractionProviderId | undefined;
+
+    for (const candidate of chain) {
+        onProviderStart?.(candidate);
+        result = await candidate.extract(base64Images);
+        provider = candidate.id;
+        if (result.status !== 'failed') break;
+        console.warn(`${candidate.label} extraction failed, trying next provider...`);
+    }
+
+    return { ...result, provider };
+};
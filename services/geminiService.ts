@@ -1,29 +1,158 @@
 import { GoogleGenAI, Type } from "@google/genai";
+import { ExtractedBillDetails, ExtractedField } from "../types";
+import { getActiveWorkspace, subscribeToWorkspaces } from "./workspaceService";
 
-export const extractBillDetails = async (base64Image: string): Promise<{ customerName: string; address: string; invoiceNo: string; billDate: string }> => {
-  if (!process.env.API_KEY) {
+// --- CONFIGURATION ---
+// The key and model are set per workspace in Settings. A key baked into the build
+// (GEMINI_API_KEY in .env.local) is used when the workspace has none.
+
+export const GEMINI_MODELS = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', description: 'Fast and accurate. The default.' },
+  { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', description: 'Best on hard-to-read bills, but slower.' },
+  { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', description: 'Cheapest, fine for clean printed bills.' },
+];
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+const getApiKey = () => getActiveWorkspace()?.geminiApiKey || process.env.GEMINI_API_KEY || '';
+const getModel = () => getActiveWorkspace()?.geminiModel || DEFAULT_GEMINI_MODEL;
+
+// --- STATUS ---
+// Shown in the header so a missing or rejected key is never mistaken for a bill
+// that simply had nothing on it.
+
+export interface GeminiStatus {
+  status: 'ready' | 'missing_key' | 'offline' | 'failing';
+  message: string;
+  model: string;
+}
+
+let lastError: string | null = null; // Cleared by the next successful call
+const statusListeners = new Set<(status: GeminiStatus) => void>();
+
+export const getGeminiStatus = (): GeminiStatus => {
+  const model = getModel();
+  if (!getApiKey()) return { status: 'missing_key', message: 'AI not available: no Gemini key is set for this workspace.', model };
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return { status: 'offline', message: 'AI not available while offline.', model };
+  if (lastError) return { status: 'failing', message: `AI not available: ${lastError}`, model };
+  return { status: 'ready', message: `Gemini ready (${model})`, model };
+};
+
+const notifyStatus = () => {
+  const status = getGeminiStatus();
+  statusListeners.forEach(listener => listener(status));
+};
+
+const setLastError = (error: string | null) => {
+  if (error === lastError) return;
+  lastError = error;
+  notifyStatus();
+};
+
+export const subscribeToGeminiStatus = (listener: (status: GeminiStatus) => void) => {
+  statusListeners.add(listener);
+  listener(getGeminiStatus());
+  return () => { statusListeners.delete(listener); };
+};
+
+// A new workspace or key gets a fresh chance
+subscribeToWorkspaces(() => {
+  lastError = null;
+  notifyStatus();
+});
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', notifyStatus);
+  window.addEventListener('offline', notifyStatus);
+}
+
+// Turns an API failure into something an admin can act on
+const describeGeminiError = (error: any): string => {
+  const message = String(error?.message || error || '');
+  if (/api key not valid|api_key_invalid|permission_denied/i.test(message) || (error?.status === 400 && /key/i.test(message))) {
+    return 'the Gemini key was rejected. Check it in Settings.';
+  }
+  if (error?.status === 404 || /not found/i.test(message)) return `the model "${getModel()}" is not available for this key.`;
+  if (error?.status === 429 || /resource_exhausted|quota/i.test(message)) return 'the Gemini quota is used up. Try again later.';
+  if (/failed to fetch|network/i.test(message)) return 'Gemini could not be reached.';
+  return message || 'Gemini request failed.';
+};
+
+const EXTRACTED_FIELDS: ExtractedField[] = ['customerName', 'address', 'invoiceNo', 'billDate'];
+
+const emptyDetails = (status: 'empty' | 'failed'): ExtractedBillDetails => ({
+  customerName: '', address: '', invoiceNo: '', billDate: '', items: [], totalAmount: 0,
+  status,
+  confidence: {},
+});
+
+const clampConfidence = (value: unknown) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(n) ? Math.min(1, Math.max(0, n)) : 0;
+};
+
+const toNumber = (value: unknown) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? '').replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+};
+
+// The model occasionally returns numbers as strings or blank rows; tidy before use.
+// Missing fields get zero confidence, and a bill with no header fields at all is 'empty'.
+const normalizeDetails = (raw: any): ExtractedBillDetails => {
+  const details: ExtractedBillDetails = {
+    customerName: raw?.customerName || '',
+    address: raw?.address || '',
+    invoiceNo: raw?.invoiceNo || '',
+    billDate: raw?.billDate || '',
+    items: Array.isArray(raw?.items)
+      ? raw.items
+          .filter((item: any) => item && typeof item.name === 'string' && item.name.trim())
+          .map((item: any) => ({
+            name: item.name.trim(),
+            quantity: toNumber(item.quantity),
+            unit: (item.unit || '').trim(),
+            amount: toNumber(item.amount),
+          }))
+      : [],
+    totalAmount: toNumber(raw?.totalAmount),
+  };
+
+  details.confidence = Object.fromEntries(
+    EXTRACTED_FIELDS.map(field => [field, details[field] ? clampConfidence(raw?.confidence?.[field]) : 0])
+  );
+  details.status = EXTRACTED_FIELDS.some(field => details[field]) ? 'ok' : 'empty';
+  return details;
+};
+
+export const isGeminiAvailable = () => !!getApiKey();
+
+// Pages are sent together so a bill split across several photos is read as one
+export const extractBillDetails = async (base64Images: string[]): Promise<ExtractedBillDetails> => {
+  const apiKey = getApiKey();
+  if (!apiKey) {
     console.warn("Gemini API Key is missing. Returning empty details.");
-    return { customerName: '', address: '', invoiceNo: '', billDate: '' };
+    return emptyDetails('failed');
   }
 
   try {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const ai = new GoogleGenAI({ apiKey });
     
     // Extract base64 data if it includes the prefix (e.g., data:image/jpeg;base64,...)
-    const cleanBase64 = base64Image.split(',')[1] || base64Image;
+    const imageParts = base64Images.map(image => ({
+      inlineData: {
+        mimeType: 'image/jpeg',
+        data: image.split(',')[1] || image,
+      },
+    }));
+    const pagesNote = base64Images.length > 1
+      ? `These ${base64Images.length} images are consecutive pages of ONE bill; combine them, listing items from every page once. `
+      : '';
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
+      model: getModel(),
       contents: {
         parts: [
+          ...imageParts,
           {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: cleanBase64,
-            },
-          },
-          {
-            text: "Analyze this bill image. Extract the Shop Name (or Customer Name), Full Address (City/Area), Invoice Number, and Bill Date. Return date in YYYY-MM-DD format. For 'customerName', prioritize the Shop/Business Name over a person's name if both are present. If a field is not found, return an empty string.",
+            text: pagesNote + "Analyze this bill image. Extract the Shop Name (or Customer Name), Full Address (City/Area), Invoice Number, and Bill Date. Return date in YYYY-MM-DD format. For 'customerName', prioritize the Shop/Business Name over a person's name if both are present. Also list every product line in 'items' with its name, quantity, unit (e.g. pcs, kg, box) and line amount, and return the bill's grand total as 'totalAmount'. Amounts are plain numbers without currency symbols. If a field is not found, return an empty string (or 0 for numbers, an empty list for items). In 'confidence', rate how sure you are of each of customerName, address, invoiceNo and billDate from 0 (guess or unreadable) to 1 (clearly printed).",
           },
         ],
       },
@@ -36,6 +165,28 @@ export const extractBillDetails = async (base64Image: string): Promise<{ custome
             address: { type: Type.STRING },
             invoiceNo: { type: Type.STRING },
             billDate: { type: Type.STRING },
+            items: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  quantity: { type: Type.NUMBER },
+                  unit: { type: Type.STRING },
+                  amount: { type: Type.NUMBER },
+                },
+              },
+            },
+            totalAmount: { type: Type.NUMBER },
+            confidence: {
+              type: Type.OBJECT,
+              properties: {
+                customerName: { type: Type.NUMBER },
+                address: { type: Type.NUMBER },
+                invoiceNo: { type: Type.NUMBER },
+                billDate: { type: Type.NUMBER },
+              },
+            },
           },
         },
       },
@@ -45,23 +196,27 @@ export const extractBillDetails = async (base64Image: string): Promise<{ custome
     if (text) {
       // Remove markdown code blocks if present to prevent JSON.parse errors
       text = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-      return JSON.parse(text);
+      const details = normalizeDetails(JSON.parse(text));
+      setLastError(null);
+      return details;
     }
     throw new Error("No text returned from Gemini");
   } catch (error) {
     console.error("Gemini Extraction Error:", error);
-    // Fallback to manual entry if AI fails
-    return { customerName: '', address: '', invoiceNo: '', billDate: '' };
+    setLastError(describeGeminiError(error));
+    // Fallback to manual entry if AI fails; the bill lands in the review queue
+    return emptyDetails('failed');
   }
 };
 
 export const sendGeminiChat = async (history: { role: string; parts: { text: string }[] }[], newMessage: string, context: string): Promise<string> => {
-    if (!process.env.API_KEY) return "I need an API Key to chat! (Check metadata.json setup)";
+    const apiKey = getApiKey();
+    if (!apiKey) return "I need a Gemini API key to chat! An admin can add one in Settings.";
     
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const ai = new GoogleGenAI({ apiKey });
         const chat = ai.chats.create({
-            model: 'gemini-2.5-flash',
+            model: getModel(),
             config: {
                 systemInstruction: `You are Grace, a helpful packing assistant. 
                 Current Context: ${context}
@@ -71,9 +226,12 @@ export const sendGeminiChat = async (history: { role: string; parts: { text: str
         });
 
         const result = await chat.sendMessage({ message: newMessage });
+        setLastError(null);
         return result.text || "I didn't catch that.";
     } catch (e: any) {
         console.error("Chat Error", e);
-        return "Sorry, I'm having trouble connecting right now.";
+        const reason = describeGeminiError(e);
+        setLastError(reason);
+        return `Sorry, I can't answer right now: ${reason}`;
     }
 };
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { BillData, BillEvent, PackingStatus, DeliveryStatus } from '../types';
+import { getCurrentIdentity } from './packingService';
+import { describeUser } from './authService';
+import { describeBoxes } from './boxService';
+
+// --- CHANGE HISTORY ---
+// Each save is compared with the version it replaces and every changed field is
+// recorded as an event. Replaying the old values backwards rebuilds any earlier state.
+
+// Bookkeeping that changes on every save, or mirrors another field
+const UNTRACKED_FIELDS = ['id', 'createdAt', 'updatedAt', 'updatedBy', 'createdBy', 'orgId', 'extraction', 'imageUrl', 'deletedBy', 'manifestId'];
+
+export const HISTORY_LABELS: Record<string, string> = {
+    created: 'Bill added',
+    deleted: 'Bill deleted',
+    customerName: 'Customer',
+    address: 'Address',
+    invoiceNo: 'Invoice #',
+    billDate: 'Bill Date',
+    status: 'Status',
+    isDelivery: 'Delivery',
+    hasCRN: 'Return (CRN)',
+    isEditedBill: 'Edited',
+    isAdditionalBill: 'Add-on',
+    boxCount: 'Boxes',
+    boxes: 'Box Breakdown',
+    description: 'Group',
+    colorTheme: 'Color',
+    entryDate: 'Entry Date',
+    packedAt: 'Packed At',
+    packedBy: 'Packed By',
+    imageUrls: 'Pages',
+    items: 'Items',
+    totalAmount: 'Total',
+    deletedAt: 'In Trash Since',
+    deliveryStatus: 'Delivery Status',
+    dispatchedAt: 'Dispatched At',
+    deliveredAt: 'Delivered At',
+    deliveredBy: 'Delivered By',
+    deliveryProof: 'Proof of Delivery',
+    loadedBoxes: 'Boxes Loaded',
+    loadedAt: 'Loaded At',
+};
+
+const generateEventId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+
+const isSameValue = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Events describing how `next` differs from `previous` (a single 'created' event for new bills)
+export const diffBills = (previous: BillData | undefined, next: BillData): BillEvent[] => {
+    const base = {
+        billId: next.id,
+        orgId: next.orgId,
+        changedBy: getCurrentIdentity(),
+        changedAt: next.updatedAt || Date.now(),
+    };
+    if (!previous) {
+        return [{ ...base, id: generateEventId(), field: 'created' }];
+    }
+
+    const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    return Array.from(fields)
+        .filter(field => !UNTRACKED_FIELDS.includes(field))
+        .filter(field => !isSameValue((previous as any)[field], (next as any)[field]))
+        .map(field => ({
+            ...base,
+            id: generateEventId(),
+            field: field as keyof BillData,
+            oldValue: (previous as any)[field] ?? null,
+            newValue: (next as any)[field] ?? null,
+        }));
+};
+
+export const deletionEvent = (bill: BillData): BillEvent => ({
+    id: generateEventId(),
+    billId: bill.id,
+    orgId: bill.orgId,
+    field: 'deleted',
+    changedBy: getCurrentIdentity(),
+    changedAt: Date.now(),
+});
+
+// --- TIMELINE ---
+
+// The events written by one save
+export interface HistoryEntry {
+    changedAt: number;
+    changedBy?: string;
+    events: BillEvent[];
+}
+
+// Newest first, one entry per save
+export const groupHistory = (events: BillEvent[]): HistoryEntry[] => {
+    const entries = new Map<string, HistoryEntry>();
+    [...events]
+        .sort((a, b) => b.changedAt - a.changedAt)
+        .forEach(event => {
+            const key = `${event.changedAt}:${event.changedBy || ''}`;
+            const entry = entries.get(key);
+            if (entry) entry.events.push(event);
+            else entries.set(key, { changedAt: event.changedAt, changedBy: event.changedBy, events: [event] });
+        });
+    return Array.from(entries.values());
+};
+
+export const formatHistoryValue = (field: string, value: any): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (field === 'status') return value === PackingStatus.PARTIAL ? 'Partial' : value === PackingStatus.PACKED ? 'Packed' : 'Pending';
+    if (field === 'deliveryStatus') return value === DeliveryStatus.DELIVERED ? 'Delivered' : 'Out for delivery';
+    if (['packedAt', 'deletedAt', 'dispatchedAt', 'deliveredAt', 'loadedAt'].includes(field)) return new Date(value).toLocaleString();
+    if (field === 'packedBy' || field === 'deliveredBy') return describeUser(value);
+    if (field === 'deliveryProof' && typeof value === 'object') {
+        const photos = Array.isArray(value.photoUrls) ? value.photoUrls.length : 0;
+        return `Received by ${value.receiverName || '—'}${photos > 0 ? `, ${photos} photo${photos === 1 ? '' : 's'}` : ''}${value.signatureUrl ? ', signed' : ''}`;
+    }
+    if (field === 'boxes' && Array.isArray(value)) return describeBoxes(value);
+    if (field === 'loadedBoxes' && Array.isArray(value)) return value.length > 0 ? `Box ${value.join(', ')}` : 'None';
+    if (field === 'imageUrls' && Array.isArray(value)) return `${value.length} page${value.length === 1 ? '' : 's'}`;
+    if (field === 'items' && Array.isArray(value)) {
+        const packed = value.filter((item: any) => item.packedAt).length;
+        return `${value.length} items${packed > 0 ? `, ${packed} packed` : ''}`;
+    }
+    if (Array.isArray(value)) return `${value.length} entries`;
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+// --- REVERT ---
+
+// The bill as it was right after `changedAt`: every later change is undone, newest first.
+// The result is saved like any other edit, so the revert shows up in the history too.
+export const revertBillTo = (bill: BillData, events: BillEvent[], changedAt: number): BillData => {
+    const reverted: any = { ...bill };
+    events
+        .filter(event => event.changedAt > changedAt && event.field !== 'created' && event.field !== 'deleted')
+        .sort((a, b) => b.changedAt - a.changedAt)
+        .forEach(event => {
+            reverted[event.field] = event.oldValue ?? undefined;
+        });
+    if (reverted.imageUrls) reverted.imageUrl = reverted.imageUrls[0] || '';
+    if (!reverted.deletedAt) reverted.deletedBy = undefined;
+    reverted.updatedAt = Date.now();
+    return reverted as BillData;
+};
@@ -0,0 +1,111 @@
+import { BillData } from '../types';
+import { escapeHtml, printHtml } from './printService';
+import { qrSvg } from './qrEncoder';
+import { describeBoxContents, formatWeight } from './boxService';
+
+// --- BOX LABELS ---
+// One label per box, stuck on before loading. The QR code carries the bill id and
+// the box number so a scan at the vehicle can tick off exactly which box it is.
+
+export type LabelSize = 'a4' | 'thermal';
+
+export const LABEL_SIZES: Record<LabelSize, { name: string; hint: string }> = {
+    a4: { name: 'A4 sheet', hint: '8 labels per page (2 × 4)' },
+    thermal: { name: '4 × 6 in', hint: 'One label per page for label printers' },
+};
+
+const CODE_PREFIX = 'GRACE';
+
+export const boxCode = (billId: string, box: number, of: number) => `${CODE_PREFIX}:${billId}:${box}/${of}`;
+
+// Reads a scanned label back; null for anything that isn't one of ours
+export const parseBoxCode = (value: string): { billId: string; box: number; of: number } | null => {
+    const match = /^GRACE:(.+):(\d+)\/(\d+)$/.exec(value.trim());
+    if (!match) return null;
+    return { billId: match[1], box: Number(match[2]), of: Number(match[3]) };
+};
+
+export interface BoxLabel {
+    bill: BillData;
+    box: number;
+    of: number;
+}
+
+// A bill without a box count still gets a single label
+export const labelCountFor = (bill: BillData) => Math.max(bill.boxCount || 0, 1);
+
+export const getBoxLabels = (bills: BillData[]): BoxLabel[] =>
+    bills.flatMap(bill => {
+        const of = labelCountFor(bill);
+        return Array.from({ length: of }, (_, i) => ({ bill, box: i + 1, of }));
+    });
+
+const LABEL_STYLES: Record<LabelSize, string> = {
+    a4: `
+  @page { size: A4; margin: 8mm; }
+  body { padding: 0; }
+  .sheet { display: grid; grid-template-columns: 1fr 1fr; grid-auto-rows: 68mm; }
+  .label { display: grid; grid-template-columns: 30mm 1fr; grid-template-rows: 1fr auto; gap: 2mm 4mm; border: 1px dashed #bbb; padding: 4mm; break-inside: avoid; }
+  .qr { width: 30mm; height: 30mm; }
+  .customer { font-size: 16px; }
+  .box { grid-column: 1 / -1; font-size: 18px; }
+`,
+    thermal: `
+  @page { size: 4in 6in; margin: 0; }
+  body { padding: 0; }
+  .label { display: flex; flex-direction: column; gap: 0.15in; width: 4in; height: 6in; padding: 0.25in; page-break-after: always; }
+  .label:last-child { page-break-after: auto; }
+  .qr { width: 2.4in; height: 2.4in; align-self: center; order: 2; }
+  .details { order: 1; }
+  .box { order: 3; text-align: center; font-size: 32px; }
+  .customer { font-size: 24px; }
+  .address, .meta { font-size: 15px; }
+  .contents { font-size: 13px; -webkit-line-clamp: 6; }
+`,
+};
+
+const SHARED_STYLES = `
+  .label { overflow: hidden; }
+  .qr svg { width: 100%; height: 100%; display: block; }
+  .details { flex: 1; min-width: 0; display: flex; flex-direction: column; gap: 2mm; }
+  .customer { font-weight: 900; line-height: 1.15; }
+  .address { font-size: 11px; color: #333; white-space: pre-line; }
+  .meta { font-size: 11px; }
+  .contents { font-size: 10px; color: #333; display: -webkit-box; -webkit-line-clamp: 3; -webkit-box-orient: vertical; overflow: hidden; }
+  .box { font-weight: 900; }
+`;
+
+// Type, weight and contents when the bill lists its boxes
+const boxDetails = ({ bill, box }: BoxLabel) => {
+    const listed = bill.boxes?.[box - 1];
+    if (!listed) return '';
+    const kind = [listed.type, listed.weightKg ? formatWeight(listed.weightKg) : ''].filter(Boolean).join(' · ');
+    const contents = describeBoxContents(listed);
+    return `${kind ? `<div class="meta"><b>${escapeHtml(kind)}</b></div>` : ''}${contents ? `<div class="contents">${escapeHtml(contents)}</div>` : ''}`;
+};
+
+const renderLabel = (label: BoxLabel) => {
+    const { bill, box, of } = label;
+    return `
+<div class="label">
+  <div class="qr">${qrSvg(boxCode(bill.id, box, of))}</div>
+  <div class="details">
+    <div class="customer">${escapeHtml(bill.customerName || 'Unknown Customer')}</div>
+    <div class="address">${escapeHtml(bill.address)}</div>
+    <div class="meta">Invoice <b>#${escapeHtml(bill.invoiceNo || '—')}</b>${bill.description ? ` · ${escapeHtml(bill.description)}` : ''}</div>
+    ${boxDetails(label)}
+  </div>
+  <div class="box">BOX ${box} OF ${of}</div>
+</div>`;
+};
+
+export const printBoxLabels = (bills: BillData[], size: LabelSize) => {
+    const labels = getBoxLabels(bills);
+    if (labels.length === 0) return;
+    const body = labels.map(renderLabel).join('');
+    printHtml(
+        `Labels (${labels.length})`,
+        size === 'a4' ? `<div class="sheet">${body}</div>` : body,
+        SHARED_STYLES + LABEL_STYLES[size],
+    );
+};
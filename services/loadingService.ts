@@ -0,0 +1,121 @@
+import { BillData } from '../types';
+import { labelCountFor, parseBoxCode } from './labelService';
+
+// --- LOADING CHECK ---
+// Each box label is scanned as it goes on the vehicle and ticked off on its bill, so a
+// bill only counts as loaded once every box it was packed in has been seen. The scanned
+// box numbers live on the bill and sync like any other edit, so several phones can
+// load the same vehicle; their scans are merged rather than raised as an edit conflict.
+// Everything here is pure; the caller saves the edited bill.
+
+export type BoxScanResult =
+    | { kind: 'loaded'; bill: BillData; box: number; complete: boolean; relabel: boolean }
+    | { kind: 'duplicate'; bill: BillData; box: number }
+    | { kind: 'extra'; bill: BillData; box: number } // Label for a box the bill no longer has
+    | { kind: 'other_day'; bill?: BillData } // Not on the list being loaded (or not on this device)
+    | { kind: 'not_a_label' };
+
+export interface LoadingProgress {
+    loaded: number;
+    total: number;
+    complete: boolean;
+}
+
+export const getLoadingProgress = (bill: BillData): LoadingProgress => {
+    const total = labelCountFor(bill);
+    const loaded = (bill.loadedBoxes || []).filter(box => box <= total).length;
+    return { loaded, total, complete: loaded >= total };
+};
+
+export const isFullyLoaded = (bill: BillData) => getLoadingProgress(bill).complete;
+
+export const getDayLoadingSummary = (bills: BillData[]) => {
+    const progress = bills.map(getLoadingProgress);
+    return {
+        totalBills: bills.length,
+        loadedBills: progress.filter(p => p.complete).length,
+        totalBoxes: progress.reduce((sum, p) => sum + p.total, 0),
+        loadedBoxes: progress.reduce((sum, p) => sum + p.loaded, 0),
+    };
+};
+
+// Checks a scanned code against the bills for `date` and ticks its box off
+export const recordBoxScan = (value: string, bills: BillData[], date: string): BoxScanResult => {
+    const code = parseBoxCode(value);
+    if (!code) return { kind: 'not_a_label' };
+
+    const bill = bills.find(b => b.id === code.billId);
+    if (!bill || bill.deletedAt || bill.entryDate !== date) return { kind: 'other_day', bill };
+
+    const total = labelCountFor(bill);
+    if (code.box > total) return { kind: 'extra', bill, box: code.box };
+
+    const loadedBoxes = bill.loadedBoxes || [];
+    if (loadedBoxes.includes(code.box)) return { kind: 'duplicate', bill, box: code.box };
+
+    const now = Date.now();
+    const updated: BillData = {
+        ...bill,
+        loadedBoxes: [...loadedBoxes, code.box].sort((a, b) => a - b),
+        loadedAt: now,
+        updatedAt: now,
+    };
+    return {
+        kind: 'loaded',
+        bill: updated,
+        box: code.box,
+        complete: isFullyLoaded(updated),
+        relabel: code.of !== total, // Printed before the box count changed
+    };
+};
+
+// Starts a bill's loading check over, e.g. after its boxes were taken back off
+export const resetLoading = (bill: BillData): BillData =>
+    ({ ...bill, loadedBoxes: undefined, loadedAt: undefined, updatedAt: Date.now() });
+
+export const describeBoxScan = (result: BoxScanResult): { tone: 'ok' | 'warn' | 'error'; message: string } => {
+    const name = (bill?: BillData) => bill?.customerName || bill?.invoiceNo || 'Untitled bill';
+    switch (result.kind) {
+        case 'loaded': {
+            const { loaded, total } = getLoadingProgress(result.bill);
+            const message = result.complete
+                ? `${name(result.bill)} fully loaded (${total} of ${total})`
+                : `${name(result.bill)}: box ${result.box} loaded (${loaded} of ${total})`;
+            return result.relabel
+                ? { tone: 'warn', message: `${message}. Label is out of date; reprint this bill's labels.` }
+                : { tone: 'ok', message };
+        }
+        case 'duplicate':
+            return { tone: 'warn', message: `Box ${result.box} of ${name(result.bill)} was already scanned` };
+        case 'extra':
+            return { tone: 'error', message: `${name(result.bill)} has only ${labelCountFor(result.bill)} box(es); this label is for box ${result.box}` };
+        case 'other_day':
+            return { tone: 'error', message: result.bill ? `${name(result.bill)} is not on this day's list (${result.bill.entryDate})` : 'This box belongs to a bill that is not on this list' };
+        case 'not_a_label':
+            return { tone: 'error', message: 'Not a box label' };
+    }
+};
+
+// --- MERGING SCANS ---
+
+const SCAN_FIELDS = ['loadedBoxes', 'loadedAt', 'updatedAt', 'updatedBy'];
+
+// When two phones scanned boxes of the same bill and nothing else differs, every box
+// either of them saw counts. Null when the edits need the user, including a reset on
+// either side (a union would bring the cleared boxes straight back).
+export const mergeLoadingScans = (local: BillData, remote: BillData): BillData | null => {
+    if (!local.loadedBoxes?.length || !remote.loadedBoxes?.length) return null;
+    const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+    const onlyScans = Array.from(keys).every(key =>
+        SCAN_FIELDS.includes(key) ||
+        JSON.stringify((local as any)[key]) === JSON.stringify((remote as any)[key]));
+    if (!onlyScans) return null;
+
+    return {
+        ...remote,
+        loadedBoxes: Array.from(new Set([...remote.loadedBoxes, ...local.loadedBoxes])).sort((a, b) => a - b),
+        loadedAt: Math.max(local.loadedAt || 0, remote.loadedAt || 0) || undefined,
+        updatedAt: Math.max(Date.now(), remote.updatedAt + 1),
+        updatedBy: local.updatedBy,
+    };
+};
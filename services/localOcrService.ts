@@ -0,0 +1,169 @@
+import type { Worker as TesseractWorker } from 'tesseract.js';
+import { simd } from 'wasm-feature-detect';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import simdCoreUrl from 'tesseract.js-core/tesseract-core-simd-lstm.wasm.js?url';
+import engDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { ExtractedBillDetails, ExtractedField } from '../types';
+
+// --- ON-DEVICE OCR ---
+// Tesseract runs in a Web Worker, so photos never leave the phone. The worker, its
+// WebAssembly core and the English language data are bundled with the app and served
+// from our own origin, so this fallback still works once the app is loaded offline.
+
+// Heuristic matches are never trusted blindly: confidence is scaled so every
+// on-device result lands in the review queue.
+const HEURISTIC_CONFIDENCE_SCALE = 0.6;
+
+let workerPromise: Promise<TesseractWorker> | null = null;
+
+// The worker starts from a blob URL, so the scripts it imports need full URLs
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+const createOcrWorker = async () => {
+    const [{ createWorker }, hasSimd, response] = await Promise.all([
+        import('tesseract.js'),
+        simd(),
+        fetch(engDataUrl),
+    ]);
+    if (!response.ok) throw new Error(`Could not load OCR language data (${response.status})`);
+    const data = new Uint8Array(await response.arrayBuffer());
+    // Handing the data over directly keeps Tesseract off its CDN; the browser caches the asset
+    return createWorker([{ code: 'eng', data }], 1, {
+        workerPath: absoluteUrl(workerUrl),
+        corePath: absoluteUrl(hasSimd ? simdCoreUrl : coreUrl),
+        cacheMethod: 'none',
+    });
+};
+
+const getWorker = () => {
+    if (!workerPromise) {
+        workerPromise = createOcrWorker()
+            .catch((e) => {
+                workerPromise = null;
+                throw e;
+            });
+    }
+    return workerPromise;
+};
+
+interface OcrLine {
+    text: string;
+    confidence: number; // 0..100 as reported by Tesseract
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const toIsoDate = (year: number, month: number, day: number) => {
+    if (year < 100) year += 2000;
+    if (month < 1 || month > 12 || day < 1 || day > 31) return '';
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Bills are printed day-first (DD/MM/YYYY); ISO dates are accepted as-is
+const parseDate = (text: string): string => {
+    let m = text.match(/\b(\d{4})[\/\-.](\d{1,2})[\/\-.](\d{1,2})\b/);
+    if (m) return toIsoDate(+m[1], +m[2], +m[3]);
+
+    m = text.match(/\b(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2,4})\b/);
+    if (m) return toIsoDate(+m[3], +m[2], +m[1]);
+
+    m = text.match(/\b(\d{1,2})[\s\-]*(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*[\s\-,]*(\d{2,4})\b/i);
+    if (m) return toIsoDate(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1]);
+
+    return '';
+};
+
+const INVOICE_PATTERN = /\b(?:invoice|inv|bill)\s*(?:no|number|num|#)?\.?\s*[:\-#]?\s*([A-Z0-9][A-Z0-9\/\-]{2,})/i;
+const DATE_LABEL_PATTERN = /\b(?:date|dated|dt)\b/i;
+const CUSTOMER_PATTERN = /^\s*(?:m\/s\.?|to\s*[:\-]|bill\s*to\s*[:\-]?|buyer\s*[:\-]?|customer(?:\s*name)?\s*[:\-]|party\s*[:\-]|name\s*[:\-])\s*(.+)$/i;
+const TOTAL_PATTERN = /\b(?:grand\s*total|net\s*amount|total\s*amount|total)\b[^0-9]*([0-9][0-9,]*(?:\.\d{1,2})?)/i;
+
+const lineScore = (line: OcrLine) => (line.confidence / 100) * HEURISTIC_CONFIDENCE_SCALE;
+
+// Pull header fields out of raw OCR lines with label/regex heuristics
+export const parseBillText = (lines: OcrLine[]): ExtractedBillDetails => {
+    const details: ExtractedBillDetails = { customerName: '', address: '', invoiceNo: '', billDate: '', items: [], totalAmount: 0 };
+    const confidence: Partial<Record<ExtractedField, number>> = {};
+
+    lines.forEach((line, index) => {
+        const text = line.text.trim();
+        if (!text) return;
+
+        if (!details.invoiceNo) {
+            const m = text.match(INVOICE_PATTERN);
+            if (m) {
+                details.invoiceNo = m[1];
+                confidence.invoiceNo = lineScore(line);
+            }
+        }
+
+        if (!details.billDate && (DATE_LABEL_PATTERN.test(text) || index < 12)) {
+            const date = parseDate(text);
+            if (date) {
+                details.billDate = date;
+                confidence.billDate = lineScore(line);
+            }
+        }
+
+        if (!details.customerName) {
+            const m = text.match(CUSTOMER_PATTERN);
+            if (m && m[1].trim().length > 2) {
+                details.customerName = m[1].trim();
+                confidence.customerName = lineScore(line);
+
+                // The address usually follows on the next one or two lines
+                const addressLines = lines.slice(index + 1, index + 3)
+                    .map(l => l.text.trim())
+                    .filter(t => t && !INVOICE_PATTERN.test(t) && !DATE_LABEL_PATTERN.test(t) && !/\b(gstin|phone|ph|mob|tel)\b/i.test(t));
+                if (addressLines.length > 0) {
+                    details.address = addressLines.join(', ');
+                    confidence.address = lineScore(lines[index + 1]);
+                }
+            }
+        }
+
+        const total = text.match(TOTAL_PATTERN);
+        if (total) {
+            // Keep the last total on the page; earlier ones tend to be sub-totals
+            details.totalAmount = parseFloat(total[1].replace(/,/g, '')) || details.totalAmount;
+        }
+    });
+
+    // No labelled customer: fall back to the first prominent upper-case line (usually the shop)
+    if (!details.customerName) {
+        const heading = lines.find(l => {
+            const t = l.text.trim();
+            return t.length > 3 && /[A-Z]/.test(t) && t === t.toUpperCase() && /^[A-Z0-9 &.,'\-]+$/.test(t);
+        });
+        if (heading) {
+            details.customerName = heading.text.trim();
+            confidence.customerName = lineScore(heading) / 2;
+        }
+    }
+
+    const found = (['customerName', 'address', 'invoiceNo', 'billDate'] as ExtractedField[]).some(f => details[f]);
+    details.status = found ? 'ok' : 'empty';
+    details.confidence = confidence;
+    return details;
+};
+
+// Each page is recognised in turn and the lines read as one continuous bill
+export const extractBillDetailsLocally = async (base64Images: string[]): Promise<ExtractedBillDetails> => {
+    try {
+        const worker = await getWorker();
+        const lines: OcrLine[] = [];
+        for (const image of base64Images) {
+            const { data } = await worker.recognize(image);
+            lines.push(...((data.lines && data.lines.length > 0)
+                ? data.lines.map(l => ({ text: l.text, confidence: l.confidence }))
+                : data.text.split('\n').map(text => ({ text, confidence: data.confidence }))));
+        }
+        return parseBillText(lines);
+    } catch (error) {
+        console.error("Local OCR Error:", error);
+        return { customerName: '', address: '', invoiceNo: '', billDate: '', items: [], totalAmount: 0, status: 'failed', confidence: {} };
+    }
+};
@@ -0,0 +1,368 @@
+import { BillData, BillConflict, BillEvent, Customer, DeliveryProof, DispatchManifest } from '../types';
+import { DEFAULT_WORKSPACE_ID } from './workspaceService';
+
+// --- INDEXEDDB LOCAL STORE ---
+// Durable on-device copy of every bill (including base64 images that have not
+// been uploaded yet) plus the queue of writes waiting for the cloud (and any it refused), the
+// change history recorded on this device, the customer directory and dispatch
+// manifests. Each workspace has a database of its own.
+
+const DB_NAME = 'grace_packing_local';
+const DB_VERSION = 6;
+const BILLS_STORE = 'bills';
+const QUEUE_STORE = 'sync_queue';
+const META_STORE = 'meta';
+const CONFLICTS_STORE = 'conflicts';
+const EVENTS_STORE = 'bill_events';
+const CUSTOMERS_STORE = 'customers';
+const MANIFESTS_STORE = 'manifests';
+const FAILED_STORE = 'failed_changes';
+
+// baseUpdatedAt is the cloud version the edit started from (undefined for bills never synced)
+export type SyncOperation =
+  | { seq?: number; type: 'upsert'; billId: string; bill: BillData; baseUpdatedAt?: number; queuedAt: number }
+  | { seq?: number; type: 'delete'; billId: string; queuedAt: number };
+
+// A write the cloud refused outright (permissions, the role guard, bad data). It is taken
+// off the queue so the writes behind it can go, and waits here to be retried or discarded.
+export interface FailedChange {
+    billId: string;
+    op: SyncOperation;
+    error: string;
+    failedAt: number;
+}
+
+let dbName = DB_NAME;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Points every following read and write at the workspace's own database.
+// The default workspace (and offline use) keeps the original one.
+export const selectWorkspaceStore = (workspaceId: string | null) => {
+    const name = workspaceId && workspaceId !== DEFAULT_WORKSPACE_ID ? `${DB_NAME}_${workspaceId}` : DB_NAME;
+    if (name === dbName) return;
+    const previous = dbPromise;
+    dbName = name;
+    dbPromise = null;
+    previous?.then(db => db.close()).catch(() => {});
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(BILLS_STORE)) {
+                db.createObjectStore(BILLS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+                db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+            }
+            if (!db.objectStoreNames.contains(META_STORE)) {
+                db.createObjectStore(META_STORE);
+            }
+            if (!db.objectStoreNames.contains(CONFLICTS_STORE)) {
+                db.createObjectStore(CONFLICTS_STORE, { keyPath: 'billId' });
+            }
+            if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+                db.createObjectStore(EVENTS_STORE, { keyPath: 'id' }).createIndex('billId', 'billId');
+            }
+            if (!db.objectStoreNames.contains(CUSTOMERS_STORE)) {
+                db.createObjectStore(CUSTOMERS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(MANIFESTS_STORE)) {
+                db.createObjectStore(MANIFESTS_STORE, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(FAILED_STORE)) {
+                db.createObjectStore(FAILED_STORE, { keyPath: 'billId' });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null;
+            reject(request.error);
+        };
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// --- BILLS ---
+
+export const getAllLocalBills = async (): Promise<BillData[]> => {
+    const db = await openDb();
+    const tx = db.transaction(BILLS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(BILLS_STORE).getAll() as IDBRequest<BillData[]>);
+};
+
+export const getLocalBill = async (id: string): Promise<BillData | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction(BILLS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(BILLS_STORE).get(id) as IDBRequest<BillData | undefined>);
+};
+
+export const putLocalBill = async (bill: BillData) => {
+    const db = await openDb();
+    const tx = db.transaction(BILLS_STORE, 'readwrite');
+    tx.objectStore(BILLS_STORE).put(bill);
+    await transactionDone(tx);
+};
+
+export const deleteLocalBill = async (id: string) => {
+    const db = await openDb();
+    const tx = db.transaction(BILLS_STORE, 'readwrite');
+    tx.objectStore(BILLS_STORE).delete(id);
+    await transactionDone(tx);
+};
+
+// Swap the whole cache for a fresh cloud snapshot (already merged with pending local writes)
+export const replaceLocalBills = async (bills: BillData[]) => {
+    const db = await openDb();
+    const tx = db.transaction(BILLS_STORE, 'readwrite');
+    const store = tx.objectStore(BILLS_STORE);
+    store.clear();
+    bills.forEach(b => store.put(b));
+    await transactionDone(tx);
+};
+
+// --- SYNC QUEUE ---
+
+export const getQueuedOps = async (): Promise<SyncOperation[]> => {
+    const db = await openDb();
+    const tx = db.transaction(QUEUE_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(QUEUE_STORE).getAll() as IDBRequest<SyncOperation[]>);
+};
+
+export const countQueuedOps = async (): Promise<number> => {
+    const db = await openDb();
+    const tx = db.transaction(QUEUE_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(QUEUE_STORE).count());
+};
+
+// Adds an operation, collapsing it into an earlier pending upsert of the same bill
+// so a burst of edits made offline replays as a single write. The earlier op's base
+// version is kept, since that is what the cloud still holds.
+export const enqueueOp = async (op: SyncOperation) => {
+    const db = await openDb();
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = tx.objectStore(QUEUE_STORE);
+    const existing = await requestToPromise(store.getAll() as IDBRequest<SyncOperation[]>);
+
+    const pendingUpsert = existing.find(o => o.type === 'upsert' && o.billId === op.billId);
+    if (op.type === 'upsert' && pendingUpsert?.type === 'upsert') {
+        store.put({ ...op, seq: pendingUpsert.seq, baseUpdatedAt: pendingUpsert.baseUpdatedAt });
+    } else {
+        if (op.type === 'delete' && pendingUpsert) {
+            store.delete(pendingUpsert.seq!);
+        }
+        store.add(op);
+    }
+    await transactionDone(tx);
+};
+
+// Only removes the op if it was not replaced by a newer edit while it was being sent.
+// A replacing edit is rebased onto the version that was just written, unless the cloud
+// refused it and still holds the old one.
+export const removeQueuedOp = async (op: SyncOperation, written = true) => {
+    const db = await openDb();
+    const tx = db.transaction(QUEUE_STORE, 'readwrite');
+    const store = tx.objectStore(QUEUE_STORE);
+    const current = await requestToPromise(store.get(op.seq!) as IDBRequest<SyncOperation | undefined>);
+    if (current && current.queuedAt === op.queuedAt) {
+        store.delete(op.seq!);
+    } else if (written && current?.type === 'upsert' && op.type === 'upsert') {
+        store.put({ ...current, baseUpdatedAt: op.bill.updatedAt });
+    }
+    await transactionDone(tx);
+};
+
+// Once images are uploaded, point the cached bill and any queued write at the public URLs
+// instead of re-uploading the same base64 data on the next sync.
+const swapProofUrls = (proof: DeliveryProof | undefined, replacements: Record<string, string>): DeliveryProof | undefined => proof && ({
+    ...proof,
+    photoUrls: (proof.photoUrls || []).map(url => replacements[url] || url),
+    ...(proof.signatureUrl ? { signatureUrl: replacements[proof.signatureUrl] || proof.signatureUrl } : {}),
+});
+
+const swapImageUrls = (bill: BillData, replacements: Record<string, string>): BillData => ({
+    ...bill,
+    imageUrl: bill.imageUrl && replacements[bill.imageUrl] ? replacements[bill.imageUrl] : bill.imageUrl,
+    imageUrls: bill.imageUrls?.map(url => replacements[url] || url),
+    ...(bill.deliveryProof ? { deliveryProof: swapProofUrls(bill.deliveryProof, replacements) } : {}),
+});
+
+const usesAnyImage = (bill: BillData, replacements: Record<string, string>) =>
+    [bill.imageUrl, ...(bill.imageUrls || []), ...(bill.deliveryProof?.photoUrls || []), bill.deliveryProof?.signatureUrl]
+        .some(url => !!url && url in replacements);
+
+const swapEventImageUrls = (event: BillEvent, replacements: Record<string, string>): BillEvent | null => {
+    if (event.field !== 'imageUrls' && event.field !== 'deliveryProof') return null;
+    const swap = (value: any) => Array.isArray(value)
+        ? value.map(url => replacements[url] || url)
+        : value && typeof value === 'object' ? swapProofUrls(value, replacements) : value;
+    const swapped = { ...event, oldValue: swap(event.oldValue), newValue: swap(event.newValue) };
+    return JSON.stringify(swapped) === JSON.stringify(event) ? null : swapped;
+};
+
+export const replaceLocalImageUrls = async (billId: string, replacements: Record<string, string>) => {
+    const db = await openDb();
+    const tx = db.transaction([BILLS_STORE, QUEUE_STORE, EVENTS_STORE], 'readwrite');
+    const billStore = tx.objectStore(BILLS_STORE);
+    const queueStore = tx.objectStore(QUEUE_STORE);
+    const eventStore = tx.objectStore(EVENTS_STORE);
+
+    const bill = await requestToPromise(billStore.get(billId) as IDBRequest<BillData | undefined>);
+    if (bill && usesAnyImage(bill, replacements)) {
+        billStore.put(swapImageUrls(bill, replacements));
+    }
+
+    const ops = await requestToPromise(queueStore.getAll() as IDBRequest<SyncOperation[]>);
+    ops.forEach(o => {
+        if (o.type === 'upsert' && o.billId === billId && usesAnyImage(o.bill, replacements)) {
+            queueStore.put({ ...o, bill: swapImageUrls(o.bill, replacements) });
+        }
+    });
+
+    const events = await requestToPromise(eventStore.index('billId').getAll(billId) as IDBRequest<BillEvent[]>);
+    events.forEach(event => {
+        const swapped = swapEventImageUrls(event, replacements);
+        if (swapped) eventStore.put(swapped);
+    });
+    await transactionDone(tx);
+};
+
+// --- CONFLICTS ---
+
+export const getConflicts = async (): Promise<BillConflict[]> => {
+    const db = await openDb();
+    const tx = db.transaction(CONFLICTS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(CONFLICTS_STORE).getAll() as IDBRequest<BillConflict[]>);
+};
+
+export const putConflict = async (conflict: BillConflict) => {
+    const db = await openDb();
+    const tx = db.transaction(CONFLICTS_STORE, 'readwrite');
+    tx.objectStore(CONFLICTS_STORE).put(conflict);
+    await transactionDone(tx);
+};
+
+export const deleteConflict = async (billId: string) => {
+    const db = await openDb();
+    const tx = db.transaction(CONFLICTS_STORE, 'readwrite');
+    tx.objectStore(CONFLICTS_STORE).delete(billId);
+    await transactionDone(tx);
+};
+
+// --- FAILED CHANGES ---
+
+export const getFailedChanges = async (): Promise<FailedChange[]> => {
+    const db = await openDb();
+    const tx = db.transaction(FAILED_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(FAILED_STORE).getAll() as IDBRequest<FailedChange[]>);
+};
+
+export const putFailedChange = async (failed: FailedChange) => {
+    const db = await openDb();
+    const tx = db.transaction(FAILED_STORE, 'readwrite');
+    tx.objectStore(FAILED_STORE).put(failed);
+    await transactionDone(tx);
+};
+
+export const deleteFailedChange = async (billId: string) => {
+    const db = await openDb();
+    const tx = db.transaction(FAILED_STORE, 'readwrite');
+    tx.objectStore(FAILED_STORE).delete(billId);
+    await transactionDone(tx);
+};
+
+// --- CHANGE HISTORY ---
+// Events wait here until they reach the cloud; without a cloud they stay for good.
+
+export const addLocalEvents = async (events: BillEvent[]) => {
+    if (events.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    events.forEach(event => store.put(event));
+    await transactionDone(tx);
+};
+
+export const getLocalEvents = async (billId?: string): Promise<BillEvent[]> => {
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readonly');
+    const store = tx.objectStore(EVENTS_STORE);
+    const request = billId ? store.index('billId').getAll(billId) : store.getAll();
+    return requestToPromise(request as IDBRequest<BillEvent[]>);
+};
+
+export const deleteLocalEvents = async (ids: string[]) => {
+    if (ids.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(EVENTS_STORE, 'readwrite');
+    const store = tx.objectStore(EVENTS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(tx);
+};
+
+// --- CUSTOMERS ---
+
+export const getLocalCustomers = async (): Promise<Customer[]> => {
+    const db = await openDb();
+    const tx = db.transaction(CUSTOMERS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(CUSTOMERS_STORE).getAll() as IDBRequest<Customer[]>);
+};
+
+export const putLocalCustomers = async (customers: Customer[]) => {
+    if (customers.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(CUSTOMERS_STORE, 'readwrite');
+    const store = tx.objectStore(CUSTOMERS_STORE);
+    customers.forEach(c => store.put(c));
+    await transactionDone(tx);
+};
+
+// --- MANIFESTS ---
+
+export const getLocalManifests = async (): Promise<DispatchManifest[]> => {
+    const db = await openDb();
+    const tx = db.transaction(MANIFESTS_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(MANIFESTS_STORE).getAll() as IDBRequest<DispatchManifest[]>);
+};
+
+export const putLocalManifests = async (manifests: DispatchManifest[]) => {
+    if (manifests.length === 0) return;
+    const db = await openDb();
+    const tx = db.transaction(MANIFESTS_STORE, 'readwrite');
+    const store = tx.objectStore(MANIFESTS_STORE);
+    manifests.forEach(m => store.put(m));
+    await transactionDone(tx);
+};
+
+// --- META ---
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readonly');
+    return requestToPromise(tx.objectStore(META_STORE).get(key) as IDBRequest<T | undefined>);
+};
+
+export const setMeta = async (key: string, value: unknown) => {
+    const db = await openDb();
+    const tx = db.transaction(META_STORE, 'readwrite');
+    tx.objectStore(META_STORE).put(value, key);
+    await transactionDone(tx);
+};
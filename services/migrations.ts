@@ -0,0 +1,446 @@
+// --- DATABASE MIGRATIONS ---
+// The Supabase schema, one numbered step per change. Each step is safe to run again
+// and records itself in schema_version, which storageService reads on startup to
+// work out which steps an installation is missing.
+// New BillData columns get a new migration here; never edit one that has shipped.
+
+export interface Migration {
+    version: number;
+    name: string;
+    sql: string;
+    // A column this step adds, used to date installations made before schema_version existed.
+    // Steps that only change policies have none; any database that far along records its version.
+    probe?: { table: string; column: string };
+}
+
+// Feature gates for code that needs a table or column from a particular step
+export const HISTORY_SCHEMA_VERSION = 6;
+export const TRASH_SCHEMA_VERSION = 7;
+export const CUSTOMERS_SCHEMA_VERSION = 8;
+export const DISPATCH_SCHEMA_VERSION = 9;
+export const DELIVERY_PROOF_SCHEMA_VERSION = 10;
+export const LOADING_SCHEMA_VERSION = 11;
+export const BOXES_SCHEMA_VERSION = 12;
+export const ORG_IMAGES_SCHEMA_VERSION = 13;
+
+const SCHEMA_VERSION_TABLE_SQL = `-- Tracks which migrations have been applied
+create table if not exists schema_version (
+  version integer primary key,
+  name text not null,
+  applied_at timestamptz default now()
+);
+alter table schema_version enable row level security;
+drop policy if exists "Anyone reads the schema version" on schema_version;
+create policy "Anyone reads the schema version" on schema_version for select to anon, authenticated using (true);`;
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        name: 'Bills table and receipts bucket',
+        probe: { table: 'bills', column: 'id' },
+        sql: `create table if not exists bills (
+  id text primary key,
+  "customerName" text,
+  address text,
+  "invoiceNo" text,
+  "billDate" text,
+  status text,
+  "isDelivery" boolean,
+  "hasCRN" boolean,
+  "isEditedBill" boolean,
+  "isAdditionalBill" boolean,
+  "boxCount" integer,
+  description text,
+  "colorTheme" text,
+  "entryDate" text,
+  "createdAt" bigint,
+  "updatedAt" bigint,
+  "packedAt" bigint,
+  "imageUrl" text
+);
+alter table bills enable row level security;
+insert into storage.buckets (id, name, public) values ('receipts', 'receipts', true)
+on conflict (id) do nothing;`,
+    },
+    {
+        version: 2,
+        name: 'Line items and AI review',
+        probe: { table: 'bills', column: 'items' },
+        sql: `alter table bills add column if not exists items jsonb;
+alter table bills add column if not exists "totalAmount" numeric;
+alter table bills add column if not exists extraction jsonb;`,
+    },
+    {
+        version: 3,
+        name: 'Multi-page bills',
+        probe: { table: 'bills', column: 'imageUrls' },
+        sql: `alter table bills add column if not exists "imageUrls" jsonb;`,
+    },
+    {
+        version: 4,
+        name: 'Accounts and organisations',
+        probe: { table: 'bills', column: 'orgId' },
+        sql: `create table if not exists organisations (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  join_code text unique not null default substr(md5(random()::text), 1, 8),
+  created_at timestamptz default now()
+);
+create table if not exists org_members (
+  org_id uuid references organisations(id) on delete cascade,
+  user_id uuid references auth.users(id) on delete cascade,
+  display_name text,
+  created_at timestamptz default now(),
+  primary key (org_id, user_id)
+);
+create or replace function is_org_member(org uuid) returns boolean
+language sql security definer stable set search_path = public as $$
+  select exists (select 1 from org_members where org_id = org and user_id = auth.uid())
+$$;
+create or replace function create_organisation(org_name text, display_name text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare new_id uuid;
+begin
+  insert into organisations (name) values (org_name) returning id into new_id;
+  insert into org_members (org_id, user_id, display_name) values (new_id, auth.uid(), display_name);
+  return new_id;
+end $$;
+create or replace function join_organisation(code text, display_name text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare found_id uuid;
+begin
+  select id into found_id from organisations where join_code = lower(trim(code));
+  if found_id is null then raise exception 'No organisation with that join code'; end if;
+  insert into org_members (org_id, user_id, display_name) values (found_id, auth.uid(), display_name)
+  on conflict (org_id, user_id) do update set display_name = excluded.display_name;
+  return found_id;
+end $$;
+alter table organisations enable row level security;
+alter table org_members enable row level security;
+drop policy if exists "Members read their organisation" on organisations;
+create policy "Members read their organisation" on organisations for select to authenticated using (is_org_member(id));
+drop policy if exists "Members read their team" on org_members;
+create policy "Members read their team" on org_members for select to authenticated using (is_org_member(org_id));
+drop policy if exists "Members rename themselves" on org_members;
+create policy "Members rename themselves" on org_members for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid());
+
+alter table bills add column if not exists "orgId" uuid references organisations(id);
+alter table bills add column if not exists "createdBy" text;
+alter table bills add column if not exists "updatedBy" text;
+alter table bills add column if not exists "packedBy" text;
+-- Existing bills: after creating your organisation in the app, run
+-- update bills set "orgId" = (select id from organisations limit 1) where "orgId" is null;
+drop policy if exists "Public Access" on bills;
+drop policy if exists "Organisation members" on bills;
+create policy "Organisation members" on bills for all to authenticated using (is_org_member("orgId")) with check (is_org_member("orgId"));
+drop policy if exists "Public Access" on storage.objects;
+drop policy if exists "Signed-in uploads" on storage.objects;
+create policy "Signed-in uploads" on storage.objects for all to authenticated using ( bucket_id = 'receipts' ) with check ( bucket_id = 'receipts' );`,
+    },
+    {
+        version: 5,
+        name: 'Packer, supervisor and admin roles',
+        probe: { table: 'org_members', column: 'role' },
+        sql: `alter table org_members add column if not exists role text not null default 'packer' check (role in ('packer', 'supervisor', 'admin'));
+-- Whoever created the organisation becomes its admin
+update org_members m set role = 'admin'
+where not exists (select 1 from org_members a where a.org_id = m.org_id and a.role = 'admin')
+  and m.created_at = (select min(created_at) from org_members f where f.org_id = m.org_id);
+create or replace function org_role(org uuid) returns text
+language sql security definer stable set search_path = public as $$
+  select role from org_members where org_id = org and user_id = auth.uid()
+$$;
+create or replace function create_organisation(org_name text, display_name text) returns uuid
+language plpgsql security definer set search_path = public as $$
+declare new_id uuid;
+begin
+  insert into organisations (name) values (org_name) returning id into new_id;
+  insert into org_members (org_id, user_id, display_name, role) values (new_id, auth.uid(), display_name, 'admin');
+  return new_id;
+end $$;
+drop policy if exists "Admins manage team" on org_members;
+create policy "Admins manage team" on org_members for update to authenticated using (org_role(org_id) = 'admin') with check (org_role(org_id) = 'admin');
+-- Only admins change roles (members may still rename themselves)
+create or replace function org_members_role_guard() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.role is distinct from old.role and coalesce(org_role(old.org_id), '') <> 'admin' then
+    raise exception 'Only admins can change roles';
+  end if;
+  return new;
+end $$;
+drop trigger if exists org_members_role_guard on org_members;
+create trigger org_members_role_guard before update on org_members for each row execute function org_members_role_guard();
+
+drop policy if exists "Organisation members" on bills;
+drop policy if exists "Members read bills" on bills;
+drop policy if exists "Members add bills" on bills;
+drop policy if exists "Members update bills" on bills;
+drop policy if exists "Admins delete bills" on bills;
+create policy "Members read bills" on bills for select to authenticated using (is_org_member("orgId"));
+create policy "Members add bills" on bills for insert to authenticated with check (is_org_member("orgId"));
+create policy "Members update bills" on bills for update to authenticated using (is_org_member("orgId")) with check (is_org_member("orgId"));
+create policy "Admins delete bills" on bills for delete to authenticated using (org_role("orgId") = 'admin');
+-- Packers may pack; grouping, flags and un-packing need a supervisor or admin
+create or replace function bills_role_guard() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(org_role(old."orgId"), 'packer') = 'packer' and (
+    new.description is distinct from old.description or
+    new."colorTheme" is distinct from old."colorTheme" or
+    new."isDelivery" is distinct from old."isDelivery" or
+    new."hasCRN" is distinct from old."hasCRN" or
+    new."isEditedBill" is distinct from old."isEditedBill" or
+    new."isAdditionalBill" is distinct from old."isAdditionalBill" or
+    (old.status = 'PACKED' and new.status is distinct from 'PACKED')
+  ) then
+    raise exception 'This change needs a supervisor';
+  end if;
+  return new;
+end $$;
+drop trigger if exists bills_role_guard on bills;
+create trigger bills_role_guard before update on bills for each row execute function bills_role_guard();
+
+drop policy if exists "Signed-in uploads" on storage.objects;
+drop policy if exists "Signed-in read" on storage.objects;
+drop policy if exists "Signed-in replace" on storage.objects;
+drop policy if exists "Admins remove images" on storage.objects;
+create policy "Signed-in read" on storage.objects for select to authenticated using ( bucket_id = 'receipts' );
+create policy "Signed-in uploads" on storage.objects for insert to authenticated with check ( bucket_id = 'receipts' );
+create policy "Signed-in replace" on storage.objects for update to authenticated using ( bucket_id = 'receipts' ) with check ( bucket_id = 'receipts' );
+create policy "Admins remove images" on storage.objects for delete to authenticated using ( bucket_id = 'receipts' and exists (select 1 from org_members where user_id = auth.uid() and role = 'admin') );`,
+    },
+    {
+        version: HISTORY_SCHEMA_VERSION,
+        name: 'Bill change history',
+        probe: { table: 'bill_events', column: 'id' },
+        sql: `-- One row per changed field, append-only
+create table if not exists bill_events (
+  id text primary key,
+  "billId" text not null,
+  "orgId" uuid references organisations(id),
+  field text not null,
+  "oldValue" jsonb,
+  "newValue" jsonb,
+  "changedBy" text,
+  "changedAt" bigint not null
+);
+create index if not exists bill_events_bill on bill_events ("billId", "changedAt");
+alter table bill_events enable row level security;
+drop policy if exists "Members read history" on bill_events;
+create policy "Members read history" on bill_events for select to authenticated using (is_org_member("orgId"));
+drop policy if exists "Members record history" on bill_events;
+create policy "Members record history" on bill_events for insert to authenticated with check (is_org_member("orgId"));`,
+    },
+    {
+        version: TRASH_SCHEMA_VERSION,
+        name: 'Trash (soft delete)',
+        probe: { table: 'bills', column: 'deletedAt' },
+        sql: `alter table bills add column if not exists "deletedAt" bigint;
+alter table bills add column if not exists "deletedBy" text;
+create or replace function bills_role_guard() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if coalesce(org_role(old."orgId"), 'packer') = 'packer' and (
+    new.description is distinct from old.description or
+    new."colorTheme" is distinct from old."colorTheme" or
+    new."isDelivery" is distinct from old."isDelivery" or
+    new."hasCRN" is distinct from old."hasCRN" or
+    new."isEditedBill" is distinct from old."isEditedBill" or
+    new."isAdditionalBill" is distinct from old."isAdditionalBill" or
+    (old.status = 'PACKED' and new.status is distinct from 'PACKED')
+  ) then
+    raise exception 'This change needs a supervisor';
+  end if;
+  if coalesce(org_role(old."orgId"), '') <> 'admin' and new."deletedAt" is distinct from old."deletedAt" then
+    raise exception 'Only admins can delete or restore bills';
+  end if;
+  return new;
+end $$;`,
+    },
+    {
+        version: CUSTOMERS_SCHEMA_VERSION,
+        name: 'Customer directory',
+        probe: { table: 'customers', column: 'id' },
+        sql: `-- Learned from bills by every device, so any member may add and update
+create table if not exists customers (
+  "orgId" uuid not null references organisations(id) on delete cascade,
+  id text not null,
+  name text not null,
+  aliases jsonb not null default '[]'::jsonb,
+  address text,
+  phone text,
+  "defaultGroup" text,
+  "defaultColor" text,
+  "createdAt" bigint,
+  "updatedAt" bigint not null,
+  "deletedAt" bigint,
+  primary key ("orgId", id)
+);
+alter table customers enable row level security;
+drop policy if exists "Members read customers" on customers;
+create policy "Members read customers" on customers for select to authenticated using (is_org_member("orgId"));
+drop policy if exists "Members add customers" on customers;
+create policy "Members add customers" on customers for insert to authenticated with check (is_org_member("orgId"));
+drop policy if exists "Members update customers" on customers;
+create policy "Members update customers" on customers for update to authenticated using (is_org_member("orgId")) with check (is_org_member("orgId"));`,
+    },
+    {
+        version: DISPATCH_SCHEMA_VERSION,
+        name: 'Dispatch manifests',
+        probe: { table: 'manifests', column: 'id' },
+        sql: `alter table bills add column if not exists "manifestId" text;
+alter table bills add column if not exists "deliveryStatus" text;
+alter table bills add column if not exists "dispatchedAt" bigint;
+alter table bills add column if not exists "deliveredAt" bigint;
+alter table bills add column if not exists "deliveredBy" text;
+create table if not exists manifests (
+  "orgId" uuid not null references organisations(id) on delete cascade,
+  id text not null,
+  date text not null,
+  vehicle text,
+  driver text,
+  stops jsonb not null default '[]'::jsonb,
+  "createdAt" bigint,
+  "updatedAt" bigint not null,
+  "createdBy" text,
+  "dispatchedAt" bigint,
+  "deletedAt" bigint,
+  primary key ("orgId", id)
+);
+alter table manifests enable row level security;
+-- Every member sees the runs; supervisors and admins plan them
+drop policy if exists "Members read manifests" on manifests;
+create policy "Members read manifests" on manifests for select to authenticated using (is_org_member("orgId"));
+drop policy if exists "Supervisors add manifests" on manifests;
+create policy "Supervisors add manifests" on manifests for insert to authenticated with check (org_role("orgId") in ('supervisor', 'admin'));
+drop policy if exists "Supervisors update manifests" on manifests;
+create policy "Supervisors update manifests" on manifests for update to authenticated using (org_role("orgId") in ('supervisor', 'admin')) with check (org_role("orgId") in ('supervisor', 'admin'));`,
+    },
+    {
+        version: DELIVERY_PROOF_SCHEMA_VERSION,
+        name: 'Proof of delivery',
+        probe: { table: 'bills', column: 'deliveryProof' },
+        sql: `-- Receiver, photo and signature URLs; the files sit in the bucket next to the bill's pages
+alter table bills add column if not exists "deliveryProof" jsonb;`,
+    },
+    {
+        version: LOADING_SCHEMA_VERSION,
+        name: 'Loading check',
+        probe: { table: 'bills', column: 'loadedBoxes' },
+        sql: `-- Box numbers scanned onto the vehicle
+alter table bills add column if not exists "loadedBoxes" jsonb;
+alter table bills add column if not exists "loadedAt" bigint;`,
+    },
+    {
+        version: BOXES_SCHEMA_VERSION,
+        name: 'Box breakdown',
+        probe: { table: 'bills', column: 'boxes' },
+        sql: `-- Type, weight and contents of each box; "boxCount" stays as the total
+alter table bills add column if not exists boxes jsonb;`,
+    },
+    {
+        version: ORG_IMAGES_SCHEMA_VERSION,
+        name: 'Images kept per organisation',
+        sql: `-- Images are uploaded under their organisation's id ("<orgId>/<file>"), so admins can
+-- only remove their own organisation's. Older files sit at the top level and are matched
+-- to a bill by the bill id they start with.
+create or replace function storage_object_org(object_name text) returns uuid
+language sql immutable as $$
+  select case when split_part(object_name, '/', 1) ~* '^[0-9a-f]{8}-([0-9a-f]{4}-){3}[0-9a-f]{12}$'
+    then split_part(object_name, '/', 1)::uuid end
+$$;
+drop policy if exists "Admins remove images" on storage.objects;
+create policy "Admins remove images" on storage.objects for delete to authenticated using (
+  bucket_id = 'receipts' and (
+    org_role(storage_object_org(name)) = 'admin' or
+    (storage_object_org(name) is null and exists (
+      select 1 from bills b where org_role(b."orgId") = 'admin' and objects.name like b.id || '\\_%'
+    ))
+  )
+);`,
+    },
+    {
+        version: 14,
+        name: 'Members only rename themselves',
+        sql: `-- A membership row never moves: only the name (and, for admins, the role) can change.
+-- Without this a member could point their own row at another organisation.
+revoke update on org_members from anon, authenticated;
+grant update (display_name, role) on org_members to authenticated;
+drop policy if exists "Members rename themselves" on org_members;
+create policy "Members rename themselves" on org_members for update to authenticated using (user_id = auth.uid()) with check (user_id = auth.uid() and is_org_member(org_id));`,
+    },
+    {
+        version: 15,
+        name: 'Team changes stay in the organisation',
+        sql: `-- Admins change roles within their own organisation; nobody moves a member (role and all)
+-- into another one. The check sees the table as it was, so the row must already be there.
+create or replace function org_members_role_guard() returns trigger
+language plpgsql security definer set search_path = public as $$
+begin
+  if new.org_id is distinct from old.org_id or new.user_id is distinct from old.user_id then
+    raise exception 'Members cannot be moved to another organisation';
+  end if;
+  if new.role is distinct from old.role and coalesce(org_role(old.org_id), '') <> 'admin' then
+    raise exception 'Only admins can change roles';
+  end if;
+  return new;
+end $$;
+drop policy if exists "Admins manage team" on org_members;
+create policy "Admins manage team" on org_members for update to authenticated using (org_role(org_id) = 'admin') with check (
+  org_role(org_id) = 'admin' and
+  exists (select 1 from org_members m where m.org_id = org_members.org_id and m.user_id = org_members.user_id)
+);`,
+    },
+    {
+        version: 16,
+        name: 'Images read and written per organisation',
+        sql: `-- Pages, proof photos and signatures are read and written only by members of the
+-- organisation whose folder they are in. Older top-level files are matched to their bill.
+drop policy if exists "Signed-in read" on storage.objects;
+drop policy if exists "Signed-in uploads" on storage.objects;
+drop policy if exists "Signed-in replace" on storage.objects;
+create policy "Signed-in read" on storage.objects for select to authenticated using (
+  bucket_id = 'receipts' and (
+    is_org_member(storage_object_org(name)) or
+    (storage_object_org(name) is null and exists (
+      select 1 from bills b where is_org_member(b."orgId") and objects.name like b.id || '\\_%'
+    ))
+  )
+);
+create policy "Signed-in uploads" on storage.objects for insert to authenticated with check ( bucket_id = 'receipts' and is_org_member(storage_object_org(name)) );
+create policy "Signed-in replace" on storage.objects for update to authenticated using ( bucket_id = 'receipts' and is_org_member(storage_object_org(name)) ) with check ( bucket_id = 'receipts' and is_org_member(storage_object_org(name)) );`,
+    },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getPendingMigrations = (remoteVersion: number) =>
+    MIGRATIONS.filter(m => m.version > remoteVersion);
+
+// The migrations are written for the default "bills" table and "receipts" bucket
+export interface SchemaNames {
+    tableName: string;
+    bucketName: string;
+}
+
+// Renames the table and bucket for workspaces that use their own. Storage policies are
+// shared by every bucket in a project, so they get the bucket name in theirs.
+const withNames = (sql: string, { tableName, bucketName }: SchemaNames) => {
+    let named = sql;
+    if (tableName !== 'bills') named = named.replace(/\bbills\b/g, tableName);
+    if (bucketName !== 'receipts') {
+        named = named
+            .replace(/'receipts'/g, `'${bucketName}'`)
+            .replace(/"([^"]+)" on storage\.objects/g, `"$1 (${bucketName})" on storage.objects`);
+    }
+    return named;
+};
+
+// SQL to paste into the Supabase SQL Editor to bring a database at `fromVersion` up to date
+export const buildMigrationSql = (fromVersion = 0, names: SchemaNames = { tableName: 'bills', bucketName: 'receipts' }): string => {
+    const steps = getPendingMigrations(fromVersion).map(m =>
+        `-- Migration ${m.version}: ${m.name}\n${withNames(m.sql, names)}\ninsert into schema_version (version, name) values (${m.version}, '${m.name.replace(/'/g, "''")}') on conflict (version) do nothing;`
+    );
+    return [SCHEMA_VERSION_TABLE_SQL, ...steps].join('\n\n');
+};
@@ -0,0 +1,93 @@
+import { BillData, BillItem, PackingStatus } from '../types';
+import { getCurrentUserId, getCurrentOrgId, getMemberDisplayName } from './authService';
+
+// --- PACKER IDENTITY ---
+// Name of whoever is packing: the signed-in member, else the name set on this device
+const PACKER_NAME_KEY = 'grace_packer_name';
+
+export const getPackerName = (): string => {
+    return getMemberDisplayName() || localStorage.getItem(PACKER_NAME_KEY) || '';
+};
+
+export const setPackerName = (name: string) => {
+    localStorage.setItem(PACKER_NAME_KEY, name.trim());
+};
+
+// Stored on bills as createdBy/updatedBy/packedBy and on ticked items (see describeUser for display)
+export const getCurrentIdentity = (): string | undefined => {
+    return getCurrentUserId() || getPackerName() || undefined;
+};
+
+// Stamps who created and last changed the bill, and which organisation owns it
+export const stampAttribution = (bill: BillData, previous?: BillData): BillData => {
+    const identity = getCurrentIdentity();
+    return {
+        ...bill,
+        orgId: bill.orgId || previous?.orgId || getCurrentOrgId(),
+        createdBy: bill.createdBy || previous?.createdBy || identity,
+        updatedBy: identity || bill.updatedBy,
+    };
+};
+
+// --- ITEM CHECKLIST ---
+
+export const isBillOpen = (bill: BillData) => bill.status !== PackingStatus.PACKED;
+
+export const getPackingProgress = (bill: BillData) => {
+    const items = bill.items || [];
+    const packed = items.filter(item => !!item.packedAt).length;
+    return { packed, total: items.length };
+};
+
+// PENDING when nothing is ticked, PACKED when everything is, PARTIAL in between
+const statusFromItems = (items: BillItem[]): PackingStatus => {
+    const packed = items.filter(item => !!item.packedAt).length;
+    if (packed === 0) return PackingStatus.PENDING;
+    if (packed === items.length) return PackingStatus.PACKED;
+    return PackingStatus.PARTIAL;
+};
+
+const withStatus = (bill: BillData, status: PackingStatus, now: number): BillData => {
+    const wasPacked = bill.status === PackingStatus.PACKED;
+    const isPacked = status === PackingStatus.PACKED;
+    return {
+        ...bill,
+        status,
+        packedAt: isPacked ? (wasPacked && bill.packedAt ? bill.packedAt : now) : undefined,
+        packedBy: isPacked ? (wasPacked && bill.packedBy ? bill.packedBy : getCurrentIdentity()) : undefined,
+        updatedAt: now,
+    };
+};
+
+export const toggleItemPacked = (bill: BillData, itemId: string): BillData => {
+    const now = Date.now();
+    const items = (bill.items || []).map(item => {
+        if (item.id !== itemId) return item;
+        return item.packedAt
+            ? { ...item, packedAt: undefined, packedBy: undefined }
+            : { ...item, packedAt: now, packedBy: getCurrentIdentity() };
+    });
+    return withStatus({ ...bill, items }, statusFromItems(items), now);
+};
+
+// Setting the whole bill keeps the checklist consistent: PACKED ticks every item, PENDING clears them
+export const setBillStatus = (bill: BillData, status: PackingStatus): BillData => {
+    const now = Date.now();
+    const packedBy = getCurrentIdentity();
+    let items = bill.items;
+    if (items && status === PackingStatus.PACKED) {
+        items = items.map(item => item.packedAt ? item : { ...item, packedAt: now, packedBy });
+    } else if (items && status === PackingStatus.PENDING) {
+        items = items.map(item => ({ ...item, packedAt: undefined, packedBy: undefined }));
+    }
+    return withStatus({ ...bill, items }, status, now);
+};
+
+// Adding or removing lines can complete (or reopen) a partly packed bill.
+// Bills whose checklist was never used keep their manually chosen status.
+export const reconcileStatusWithItems = (bill: BillData): BillData => {
+    const items = bill.items || [];
+    if (!items.some(item => !!item.packedAt)) return bill;
+    const status = statusFromItems(items);
+    return status === bill.status ? bill : withStatus(bill, status, bill.updatedAt);
+};
@@ -0,0 +1,55 @@
+import { BillData, PackingStatus, UserRole } from '../types';
+import { getAuthState } from './authService';
+
+// --- ROLES & PERMISSIONS ---
+// Mirrors the checks in the setup SQL (bills_role_guard trigger and delete policy);
+// the UI uses these to hide what the database would reject anyway.
+
+export type Permission =
+    | 'bill:create'
+    | 'bill:pack'      // Tick items, mark packed
+    | 'bill:regroup'   // Group name and colour
+    | 'bill:flags'     // Delivery / CRN / edited / add-on
+    | 'bill:unpack'    // Move a packed bill back to pending or partial
+    | 'bill:delete'
+    | 'config:manage'  // Supabase connection settings
+    | 'images:purge'   // Remove bill photos from storage
+    | 'team:manage'    // Change members' roles
+    | 'customers:manage' // Edit, merge and remove directory entries
+    | 'dispatch:manage';  // Plan, reorder and send out delivery runs
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    packer: ['bill:create', 'bill:pack'],
+    supervisor: ['bill:create', 'bill:pack', 'bill:regroup', 'bill:flags', 'bill:unpack', 'customers:manage', 'dispatch:manage'],
+    admin: ['bill:create', 'bill:pack', 'bill:regroup', 'bill:flags', 'bill:unpack', 'bill:delete', 'config:manage', 'images:purge', 'team:manage', 'customers:manage', 'dispatch:manage'],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    packer: 'Packer',
+    supervisor: 'Supervisor',
+    admin: 'Admin',
+};
+
+// Without a signed-in membership (no cloud configured) the device owner can do everything
+export const getCurrentRole = (): UserRole => {
+    const { status, membership } = getAuthState();
+    return status === 'ready' && membership ? membership.role : 'admin';
+};
+
+export const can = (permission: Permission, role: UserRole = getCurrentRole()) => {
+    return ROLE_PERMISSIONS[role].includes(permission);
+};
+
+// Whether an edit needs more than packing rights (what the database trigger checks)
+export const isEditAllowed = (before: BillData, after: BillData, role: UserRole = getCurrentRole()) => {
+    if (!can('bill:regroup', role) && (before.description !== after.description || before.colorTheme !== after.colorTheme)) return false;
+    if (!can('bill:flags', role) && (
+        before.isDelivery !== after.isDelivery ||
+        before.hasCRN !== after.hasCRN ||
+        before.isEditedBill !== after.isEditedBill ||
+        before.isAdditionalBill !== after.isAdditionalBill
+    )) return false;
+    if (!can('bill:unpack', role) && before.status === PackingStatus.PACKED && after.status !== PackingStatus.PACKED) return false;
+    if (!can('bill:delete', role) && before.deletedAt !== after.deletedAt) return false;
+    return true;
+};
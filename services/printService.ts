@@ -0,0 +1,32 @@
+// --- PRINTING ---
+// Printable sheets (run sheets, labels) open as a plain page in a new window and call
+// the browser's print dialog once everything on it has loaded.
+
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #111; margin: 0; padding: 16px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 12px; }
+  th, td { border: 1px solid #999; padding: 6px; text-align: left; vertical-align: top; }
+  th { background: #eee; }
+  @media print { body { padding: 0; } }
+`;
+
+export const escapeHtml = (value: unknown) =>
+    String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+
+export const printHtml = (title: string, body: string, styles = '') => {
+    const win = window.open('', '_blank');
+    if (!win) {
+        window.alert('Allow pop-ups for this site to print.');
+        return;
+    }
+    win.document.write(`<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title>
+<style>${BASE_STYLES}${styles}</style></head><body>${body}
+<script>window.onload = function () { window.focus(); window.print(); };</script></body></html>`);
+    win.document.close();
+};
@@ -0,0 +1,295 @@
+// --- QR CODE ENCODER ---
+// Enough of the QR spec to print box labels: byte mode, error correction level M
+// (about 15% of a smudged or torn code can be lost), versions 1 to 10 (up to 213 bytes).
+// jsQR and BarcodeDetector read these back in codeScanner.ts.
+
+// Per version: [error correction codewords per block, [blocks, data codewords per block]...]
+const VERSIONS_M: [number, [number, number][]][] = [
+    [10, [[1, 16]]],
+    [16, [[1, 28]]],
+    [26, [[1, 44]]],
+    [18, [[2, 32]]],
+    [24, [[2, 43]]],
+    [16, [[4, 27]]],
+    [18, [[4, 31]]],
+    [22, [[2, 38], [2, 39]]],
+    [22, [[3, 36], [2, 37]]],
+    [26, [[4, 43], [1, 44]]],
+];
+
+const ALIGNMENT_POSITIONS: number[][] = [
+    [], [6, 18], [6, 22], [6, 26], [6, 30], [6, 34], [6, 22, 38], [6, 24, 42], [6, 26, 46], [6, 28, 50],
+];
+
+// --- REED-SOLOMON (GF(256), polynomial 0x11D) ---
+
+const EXP = new Uint8Array(512);
+const LOG = new Uint8Array(256);
+(() => {
+    let x = 1;
+    for (let i = 0; i < 255; i++) {
+        EXP[i] = x;
+        LOG[x] = i;
+        x <<= 1;
+        if (x & 0x100) x ^= 0x11d;
+    }
+    for (let i = 255; i < 512; i++) EXP[i] = EXP[i - 255];
+})();
+
+const multiply = (a: number, b: number) => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+
+const generatorPolynomial = (degree: number) => {
+    let poly = [1];
+    for (let i = 0; i < degree; i++) {
+        const next = new Array(poly.length + 1).fill(0);
+        poly.forEach((coef, j) => {
+            next[j] ^= coef;
+            next[j + 1] ^= multiply(coef, EXP[i]);
+        });
+        poly = next;
+    }
+    return poly;
+};
+
+const errorCorrection = (data: number[], degree: number) => {
+    const generator = generatorPolynomial(degree);
+    const remainder = [...data, ...new Array(degree).fill(0)];
+    for (let i = 0; i < data.length; i++) {
+        const factor = remainder[i];
+        if (factor === 0) continue;
+        for (let j = 0; j < generator.length; j++) remainder[i + j] ^= multiply(generator[j], factor);
+    }
+    return remainder.slice(data.length);
+};
+
+// --- CODEWORDS ---
+
+const dataCapacity = (version: number) =>
+    VERSIONS_M[version - 1][1].reduce((sum, [blocks, size]) => sum + blocks * size, 0);
+
+const countBits = (version: number) => (version < 10 ? 8 : 16);
+
+const pickVersion = (byteLength: number) => {
+    for (let version = 1; version <= VERSIONS_M.length; version++) {
+        if (4 + countBits(version) + byteLength * 8 <= dataCapacity(version) * 8) return version;
+    }
+    throw new Error(`Too much data for a QR code (${byteLength} bytes)`);
+};
+
+const buildCodewords = (bytes: Uint8Array, version: number) => {
+    const bits: number[] = [];
+    const push = (value: number, length: number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+    push(0b0100, 4); // Byte mode
+    push(bytes.length, countBits(version));
+    bytes.forEach(b => push(b, 8));
+
+    const capacityBits = dataCapacity(version) * 8;
+    push(0, Math.min(4, capacityBits - bits.length)); // Terminator
+    while (bits.length % 8 !== 0) bits.push(0);
+
+    const data: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+    for (let pad = 0xec; data.length < capacityBits / 8; pad ^= 0xec ^ 0x11) data.push(pad);
+
+    // Split into blocks, add error correction, then interleave
+    const [ecLength, groups] = VERSIONS_M[version - 1];
+    const dataBlocks: number[][] = [];
+    let offset = 0;
+    groups.forEach(([count, size]) => {
+        for (let i = 0; i < count; i++) {
+            dataBlocks.push(data.slice(offset, offset + size));
+            offset += size;
+        }
+    });
+    const ecBlocks = dataBlocks.map(block => errorCorrection(block, ecLength));
+
+    const result: number[] = [];
+    const longest = Math.max(...dataBlocks.map(b => b.length));
+    for (let i = 0; i < longest; i++) dataBlocks.forEach(block => { if (i < block.length) result.push(block[i]); });
+    for (let i = 0; i < ecLength; i++) ecBlocks.forEach(block => result.push(block[i]));
+    return result;
+};
+
+// --- MATRIX ---
+
+type Grid = boolean[][];
+
+const bchRemainder = (value: number, generator: number, degree: number) => {
+    let rem = value << degree;
+    for (let bit = 31 - Math.clz32(rem); bit >= degree; bit--) {
+        if (rem & (1 << bit)) rem ^= generator << (bit - degree);
+    }
+    return rem;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+    (x, y) => (x + y) % 2 === 0,
+    (x, y) => y % 2 === 0,
+    (x) => x % 3 === 0,
+    (x, y) => (x + y) % 3 === 0,
+    (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+    (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+    (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+    (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+];
+
+// Finders, timing, alignment, version info and the dark module; format info is drawn per mask
+const drawFunctionPatterns = (version: number, modules: Grid, isFunction: Grid) => {
+    const size = modules.length;
+    const set = (x: number, y: number, dark: boolean) => {
+        modules[y][x] = dark;
+        isFunction[y][x] = true;
+    };
+
+    for (let i = 0; i < size; i++) {
+        set(6, i, i % 2 === 0);
+        set(i, 6, i % 2 === 0);
+    }
+
+    const finder = (cx: number, cy: number) => {
+        for (let dy = -4; dy <= 4; dy++) {
+            for (let dx = -4; dx <= 4; dx++) {
+                const x = cx + dx, y = cy + dy;
+                if (x < 0 || y < 0 || x >= size || y >= size) continue;
+                const dist = Math.max(Math.abs(dx), Math.abs(dy));
+                set(x, y, dist !== 2 && dist !== 4);
+            }
+        }
+    };
+    finder(3, 3);
+    finder(size - 4, 3);
+    finder(3, size - 4);
+
+    const positions = ALIGNMENT_POSITIONS[version - 1];
+    positions.forEach((cy, i) => positions.forEach((cx, j) => {
+        const last = positions.length - 1;
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    // Reserve the format areas so data skips them
+    for (let i = 0; i < 9; i++) {
+        set(8, i, false);
+        set(i, 8, false);
+    }
+    for (let i = 0; i < 8; i++) {
+        set(size - 1 - i, 8, false);
+        set(8, size - 1 - i, false);
+    }
+
+    if (version >= 7) {
+        const bits = (version << 12) | bchRemainder(version, 0x1f25, 12);
+        for (let i = 0; i < 18; i++) {
+            const dark = ((bits >>> i) & 1) === 1;
+            const a = size - 11 + (i % 3), b = Math.floor(i / 3);
+            set(a, b, dark);
+            set(b, a, dark);
+        }
+    }
+};
+
+const drawFormatBits = (mask: number, modules: Grid) => {
+    const size = modules.length;
+    const data = (0b00 << 3) | mask; // Level M
+    const bits = ((data << 10) | bchRemainder(data, 0x537, 10)) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    for (let i = 0; i <= 5; i++) modules[i][8] = bit(i);
+    modules[7][8] = bit(6);
+    modules[8][8] = bit(7);
+    modules[8][7] = bit(8);
+    for (let i = 9; i < 15; i++) modules[8][14 - i] = bit(i);
+
+    for (let i = 0; i < 8; i++) modules[8][size - 1 - i] = bit(i);
+    for (let i = 8; i < 15; i++) modules[size - 15 + i][8] = bit(i);
+    modules[size - 8][8] = true; // Always dark
+};
+
+const drawCodewords = (codewords: number[], modules: Grid, isFunction: Grid) => {
+    const size = modules.length;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5; // Skip the vertical timing pattern
+        const upward = ((right + 1) & 2) === 0;
+        for (let vert = 0; vert < size; vert++) {
+            const y = upward ? size - 1 - vert : vert;
+            for (let j = 0; j < 2; j++) {
+                const x = right - j;
+                if (isFunction[y][x]) continue;
+                modules[y][x] = i < codewords.length * 8 && ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+                i++;
+            }
+        }
+    }
+};
+
+// Lower is easier to scan (runs, blocks, finder look-alikes and dark/light balance)
+const penalty = (modules: Grid) => {
+    const size = modules.length;
+    let score = 0;
+    const lines = [
+        ...modules,
+        ...modules.map((_, x) => modules.map(row => row[x])),
+    ];
+    lines.forEach(line => {
+        let run = 1;
+        for (let i = 1; i <= size; i++) {
+            if (i < size && line[i] === line[i - 1]) run++;
+            else {
+                if (run >= 5) score += run - 2;
+                run = 1;
+            }
+        }
+        const text = line.map(d => (d ? '1' : '0')).join('');
+        score += 40 * ((text.match(/(?=10111010000)/g) || []).length + (text.match(/(?=00001011101)/g) || []).length);
+    });
+    for (let y = 0; y < size - 1; y++) {
+        for (let x = 0; x < size - 1; x++) {
+            const c = modules[y][x];
+            if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+        }
+    }
+    const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    score += Math.floor(Math.abs(dark * 20 - size * size * 10) / (size * size)) * 10;
+    return score;
+};
+
+// The module grid for `text` (true = dark), without the quiet zone
+export const encodeQr = (text: string): Grid => {
+    const bytes = new TextEncoder().encode(text);
+    const version = pickVersion(bytes.length);
+    const size = version * 4 + 17;
+    const modules: Grid = Array.from({ length: size }, () => new Array(size).fill(false));
+    const isFunction: Grid = Array.from({ length: size }, () => new Array(size).fill(false));
+
+    drawFunctionPatterns(version, modules, isFunction);
+    drawCodewords(buildCodewords(bytes, version), modules, isFunction);
+
+    let best: Grid | null = null;
+    let bestScore = Infinity;
+    MASKS.forEach((mask, index) => {
+        const masked = modules.map((row, y) => row.map((dark, x) => (!isFunction[y][x] && mask(x, y) ? !dark : dark)));
+        drawFormatBits(index, masked);
+        const score = penalty(masked);
+        if (score < bestScore) {
+            best = masked;
+            bestScore = score;
+        }
+    });
+    return best!;
+};
+
+// Scalable SVG markup with the standard four-module quiet zone
+export const qrSvg = (text: string): string => {
+    const modules = encodeQr(text);
+    const size = modules.length + 8;
+    let path = '';
+    modules.forEach((row, y) => row.forEach((dark, x) => {
+        if (dark) path += `M${x + 4} ${y + 4}h1v1h-1z`;
+    }));
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges"><rect width="${size}" height="${size}" fill="#fff"/><path d="${path}" fill="#000"/></svg>`;
+};
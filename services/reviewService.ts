@@ -0,0 +1,93 @@
+import { BillData, ExtractedBillDetails, ExtractedField, ExtractionReview } from '../types';
+import { getPackerName } from './packingService';
+
+// --- AI EXTRACTION REVIEW ---
+// Below this the field is highlighted and the bill waits in the review queue
+export const LOW_CONFIDENCE_THRESHOLD = 0.7;
+
+export const FIELD_LABELS: Record<ExtractedField, string> = {
+    customerName: 'Customer',
+    address: 'Address',
+    invoiceNo: 'Invoice #',
+    billDate: 'Bill Date',
+};
+
+export const createExtractionReview = (extracted: ExtractedBillDetails): ExtractionReview | undefined => {
+    if (!extracted.status) return undefined;
+    return { status: extracted.status, confidence: extracted.confidence || {}, provider: extracted.provider };
+};
+
+export const isLowConfidence = (bill: BillData, field: ExtractedField) => {
+    const review = bill.extraction;
+    if (!review || review.reviewedAt || review.status !== 'ok') return false;
+    return (review.confidence[field] ?? 0) < LOW_CONFIDENCE_THRESHOLD;
+};
+
+export const getLowConfidenceFields = (bill: BillData): ExtractedField[] => {
+    return (Object.keys(FIELD_LABELS) as ExtractedField[]).filter(field => isLowConfidence(bill, field));
+};
+
+export const needsReview = (bill: BillData) => {
+    const review = bill.extraction;
+    if (!review || review.reviewedAt) return false;
+    return review.status !== 'ok' || getLowConfidenceFields(bill).length > 0;
+};
+
+// A person typing into a field vouches for it
+export const markFieldConfirmed = (bill: BillData, field: string): BillData => {
+    const review = bill.extraction;
+    if (!review || !(field in FIELD_LABELS)) return bill;
+    return { ...bill, extraction: { ...review, confidence: { ...review.confidence, [field]: 1 } } };
+};
+
+export const confirmExtraction = (bill: BillData): BillData => {
+    if (!bill.extraction) return bill;
+    return {
+        ...bill,
+        extraction: { ...bill.extraction, reviewedAt: Date.now(), reviewedBy: getPackerName() || undefined },
+        updatedAt: Date.now(),
+    };
+};
+
+const generateItemId = () => Date.now().toString(36) + Math.random().toString(36).substr(2, 6);
+
+// Folds a re-read of all pages into a bill that already exists. Fields a person typed
+// or confirmed are kept; ticked-off items are never thrown away.
+export const mergePageExtraction = (bill: BillData, extracted: ExtractedBillDetails): BillData => {
+    if (extracted.status === 'failed' || extracted.status === 'empty') return bill;
+
+    const merged: BillData = { ...bill };
+    const confidence = { ...(bill.extraction?.confidence || {}) };
+    const extractedConfidence = extracted.confidence || {};
+
+    (Object.keys(FIELD_LABELS) as ExtractedField[]).forEach(field => {
+        const value = extracted[field];
+        if (!value) return;
+        const current = bill.extraction ? (confidence[field] ?? 0) : (bill[field] ? 1 : 0);
+        const incoming = extractedConfidence[field] ?? 0;
+        if (!bill[field] || (current < 1 && incoming > current)) {
+            merged[field] = value;
+            confidence[field] = incoming;
+        }
+    });
+
+    const extractedItems = (extracted.items || []).map(item => ({ ...item, id: generateItemId() }));
+    const items = bill.items || [];
+    if (extractedItems.length > 0) {
+        if (!items.some(item => item.packedAt)) {
+            merged.items = extractedItems;
+        } else {
+            const known = new Set(items.map(item => item.name.trim().toLowerCase()));
+            merged.items = [...items, ...extractedItems.filter(item => !known.has(item.name.trim().toLowerCase()))];
+        }
+    }
+    if (extracted.totalAmount) merged.totalAmount = extracted.totalAmount;
+
+    merged.extraction = {
+        status: 'ok',
+        confidence,
+        provider: extracted.provider,
+    };
+    merged.updatedAt = Date.now();
+    return merged;
+};
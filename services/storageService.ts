@@ -1,75 +1,246 @@
-import { BillData } from '../types';
+import { BillData, BillConflict, BillEvent, Customer, DispatchManifest, PackingStatus } from '../types';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getActiveWorkspace, getWorkspaces, setActiveWorkspaceId, removeWorkspace, WorkspaceProfile, DEFAULT_TABLE_NAME, DEFAULT_BUCKET_NAME } from './workspaceService';
+import { attachAuthClient, getAuthState, subscribeToAuthState, getCurrentOrgId } from './authService';
+import { stampAttribution, getCurrentIdentity } from './packingService';
+import { diffBills, deletionEvent } from './historyService';
+import { mergeLoadingScans } from './loadingService';
+import { can } from './permissions';
+import { validateBill, screenBills, prepareOutgoingBill } from './validationService';
+import { Migration, MIGRATIONS, LATEST_SCHEMA_VERSION, HISTORY_SCHEMA_VERSION, TRASH_SCHEMA_VERSION, CUSTOMERS_SCHEMA_VERSION, DISPATCH_SCHEMA_VERSION, getPendingMigrations } from './migrations';
+import { getAllLocalBills, getLocalBill, putLocalBill, deleteLocalBill, replaceLocalBills, getQueuedOps, countQueuedOps, enqueueOp, removeQueuedOp, replaceLocalImageUrls, getConflicts, putConflict, deleteConflict, SyncOperation, FailedChange, getFailedChanges, putFailedChange, deleteFailedChange, addLocalEvents, getLocalEvents, deleteLocalEvents, getLocalCustomers, putLocalCustomers, getLocalManifests, putLocalManifests, getMeta, setMeta, selectWorkspaceStore } from './localStore';
 
 // --- CONFIGURATION MANAGEMENT ---
-const CONFIG_KEY = 'grace_packing_supabase_config';
-const BUCKET_NAME = 'receipts';
-const TABLE_NAME = 'bills';
+// Connection details come from the active workspace (see workspaceService)
+const EVENTS_TABLE = 'bill_events';
+const CUSTOMERS_TABLE = 'customers';
+const MANIFESTS_TABLE = 'manifests';
+const SCHEMA_TABLE = 'schema_version';
 
 // State holders
 let supabase: SupabaseClient | null = null;
+let tableName = DEFAULT_TABLE_NAME;
+let bucketName = DEFAULT_BUCKET_NAME;
 
 // Helper to check status
 export const isCloudConfigured = () => {
     return !!supabase;
 };
 
-// Get config from local storage
-export const getStoredConfig = () => {
-    try {
-        const stored = localStorage.getItem(CONFIG_KEY);
-        return stored ? JSON.parse(stored) : null;
-    } catch { return null; }
-};
-
-// Initialize helper
-const init = () => {
+// Builds the client for the active workspace and points the local cache at it
+const connectWorkspace = () => {
+    const workspace = getActiveWorkspace();
+    if (supabase) {
+        supabase.removeAllChannels();
+        supabase.auth.stopAutoRefresh();
+    }
+    supabase = null;
+    tableName = workspace?.tableName || DEFAULT_TABLE_NAME;
+    bucketName = workspace?.bucketName || DEFAULT_BUCKET_NAME;
+    selectWorkspaceStore(workspace?.id ?? null);
     try {
-        const config = getStoredConfig();
-        if (config && config.supabaseUrl && config.supabaseKey) {
-            supabase = createClient(config.supabaseUrl, config.supabaseKey);
-            console.log("Supabase initialized from stored config");
+        if (workspace?.supabaseUrl && workspace.supabaseKey) {
+            supabase = createClient(workspace.supabaseUrl, workspace.supabaseKey);
+            console.log(`Supabase initialized for workspace "${workspace.name}"`);
         }
     } catch (e) {
-        console.error("Failed to auto-initialize Supabase:", e);
-        localStorage.removeItem(CONFIG_KEY);
+        console.error("Failed to initialize Supabase:", e);
     }
+    attachAuthClient(supabase);
 };
 
 // Run init immediately on load
-init();
+connectWorkspace();
 
-// --- SETUP FUNCTIONS ---
+// --- CONNECTION TEST ---
+
+export interface ConnectionCheck {
+    label: string;
+    ok: boolean;
+    message: string;
+}
+
+const TABLE_NAME_PATTERN = /^[a-z_][a-z0-9_]*$/;
+
+// Turns a PostgREST / storage error into something an admin can act on
+const describeConnectionError = (error: { message?: string; code?: string; status?: number } | null, host: string, what: string) => {
+    const message = error?.message || '';
+    if (/failed to fetch|networkerror|load failed/i.test(message)) {
+        return `Could not reach ${host}. Check the Project URL and your internet connection.`;
+    }
+    if (error?.code === 'PGRST301' || /invalid api key|jwt|apikey/i.test(message) || error?.status === 401) {
+        return 'The key was rejected. Copy the anon public key from Project Settings → API.';
+    }
+    if (['42P01', 'PGRST205'].includes(error?.code || '') || /bucket not found/i.test(message)) {
+        return `${what} not found. Check the name, or run the setup SQL for a new project.`;
+    }
+    if (error?.code === '42703') return `${what} has no "id" column. Is this the bills table?`;
+    return `${message || 'Unknown error'}${error?.code ? ` (${error.code})` : ''}`;
+};
 
-export const setupSupabase = (url: string, key: string) => {
+// Queries the profile's table and bucket with a throwaway client, before anything is saved
+export const testWorkspaceConnection = async (profile: WorkspaceProfile): Promise<ConnectionCheck[]> => {
+    let host: string;
     try {
-        const cleanUrl = url.trim();
-        const cleanKey = key.trim();
+        const url = new URL(profile.supabaseUrl.trim());
+        if (!/^https?:$/.test(url.protocol)) throw new Error();
+        host = url.host;
+    } catch {
+        return [{ label: 'Project URL', ok: false, message: 'Not a valid URL. It looks like https://xyz.supabase.co' }];
+    }
+    if (!profile.supabaseKey.trim()) {
+        return [{ label: 'Key', ok: false, message: 'The anon / public key is required.' }];
+    }
+    if (!TABLE_NAME_PATTERN.test(profile.tableName)) {
+        return [{ label: `Table "${profile.tableName}"`, ok: false, message: 'Use lower-case letters, digits and underscores only.' }];
+    }
 
-        if (!cleanUrl || !cleanKey) {
-            throw new Error("Supabase URL and Key are required.");
-        }
+    const client = createClient(profile.supabaseUrl.trim(), profile.supabaseKey.trim(), {
+        auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const checks: ConnectionCheck[] = [];
+    try {
+        const { error: tableError } = await client.from(profile.tableName).select('id').limit(1);
+        const tableMessage = tableError && describeConnectionError(tableError, host, `Table "${profile.tableName}"`);
+        checks.push({ label: `Table "${profile.tableName}"`, ok: !tableError, message: tableMessage || 'Found' });
+        // Unreachable or rejected: the other checks would only repeat it
+        if (tableError && !['42P01', 'PGRST205', '42703'].includes(tableError.code || '')) return checks;
 
-        const config = { supabaseUrl: cleanUrl, supabaseKey: cleanKey };
-        
-        // Test connection by creating client
-        createClient(cleanUrl, cleanKey);
-        
-        // Save and Reload
-        localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
-        window.location.reload(); // Reload to force clean initialization
-        return true;
+        const { error: bucketError } = await client.storage.from(profile.bucketName).list('', { limit: 1 });
+        checks.push({
+            label: `Bucket "${profile.bucketName}"`,
+            ok: !bucketError,
+            message: bucketError ? describeConnectionError(bucketError as any, host, `Bucket "${profile.bucketName}"`) : 'Reachable',
+        });
+
+        const remoteVersion = await readSchemaVersion(client, profile.tableName);
+        checks.push({
+            label: 'Database version',
+            ok: remoteVersion >= LATEST_SCHEMA_VERSION,
+            message: remoteVersion >= LATEST_SCHEMA_VERSION
+                ? `v${remoteVersion}, up to date`
+                : `v${remoteVersion} of v${LATEST_SCHEMA_VERSION}: ${getPendingMigrations(remoteVersion).length} migration(s) to run after saving`,
+        });
     } catch (e: any) {
-        console.error("Setup Error:", e);
-        throw new Error(e.message || "Could not configure Supabase.");
+        checks.push({ label: 'Connection', ok: false, message: describeConnectionError(e, host, 'Table') });
     }
+    return checks;
+};
+
+// --- SWITCHING WORKSPACES ---
+
+// Reconnects to another workspace without reloading. Writes already being sent finish
+// first, so they reach the workspace they were queued in.
+export const switchWorkspace = async (id: string | null) => {
+    if (flushPromise) await flushPromise;
+    activeFeed = null;
+    setCustomers([]);
+    setManifests([]);
+    setActiveWorkspaceId(id);
+    connectWorkspace();
+    missingColumns.clear();
+    schemaCheck = null;
+    setSchemaState({ status: 'unchecked', remoteVersion: null, pending: [], error: null });
+    if (supabase) checkSchemaVersion();
+    await loadSyncState();
+    flushSyncQueue();
+};
+
+// Forgets a workspace on this device; nothing is deleted from its database
+export const removeWorkspaceProfile = async (profile: WorkspaceProfile) => {
+    const isActive = getActiveWorkspace()?.id === profile.id;
+    const unsynced = isActive && syncState.pendingCount > 0
+        ? ` ${syncState.pendingCount} change(s) made here have not synced yet and will wait until it is added again.`
+        : '';
+    if (!window.confirm(`Remove the workspace "${profile.name}" from this device? No data will be deleted from its database.${unsynced}`)) return false;
+    removeWorkspace(profile.id);
+    if (isActive) await switchWorkspace(getWorkspaces()[0]?.id ?? null);
+    return true;
+};
+
+// --- SCHEMA VERSION ---
+// Compares the database with services/migrations.ts so an admin can be told exactly
+// which migrations to run. Until then, features needing newer tables stay off.
+
+export interface SchemaState {
+    status: 'unchecked' | 'current' | 'outdated' | 'error';
+    remoteVersion: number | null; // 0 when the project has no tables yet
+    pending: Migration[];
+    error: string | null;
+}
+
+let schemaState: SchemaState = { status: 'unchecked', remoteVersion: null, pending: [], error: null };
+const schemaListeners = new Set<(state: SchemaState) => void>();
+let schemaCheck: Promise<SchemaState> | null = null;
+
+const setSchemaState = (patch: Partial<SchemaState>) => {
+    schemaState = { ...schemaState, ...patch };
+    schemaListeners.forEach(listener => listener(schemaState));
+};
+
+export const subscribeToSchemaState = (listener: (state: SchemaState) => void) => {
+    schemaListeners.add(listener);
+    listener(schemaState);
+    return () => { schemaListeners.delete(listener); };
 };
 
-export const disconnectCloud = () => {
-    if (window.confirm("Are you sure? This will disconnect the app from the current database. No data will be deleted from the cloud, but you will need to re-enter keys to access it.")) {
-        localStorage.removeItem(CONFIG_KEY);
-        window.location.reload();
+// Unknown versions (not checked yet, or the check failed) are treated as up to date
+const hasSchema = (version: number) => schemaState.remoteVersion === null || schemaState.remoteVersion >= version;
+
+// Undefined table or column, as reported by Postgres or PostgREST
+const isMissingSchemaObject = (error: { code?: string } | null) =>
+    !!error && ['42P01', '42703', 'PGRST204', 'PGRST205'].includes(error.code || '');
+
+// Installations from before schema_version: the last migration whose column exists
+const detectLegacyVersion = async (client: SupabaseClient, billsTable: string) => {
+    let version = 0;
+    for (const migration of MIGRATIONS) {
+        if (!migration.probe) break;
+        const probeTable = migration.probe.table === DEFAULT_TABLE_NAME ? billsTable : migration.probe.table;
+        const { error } = await client.from(probeTable).select(migration.probe.column).limit(1);
+        if (isMissingSchemaObject(error)) break;
+        if (error) throw error;
+        version = migration.version;
     }
+    return version;
+};
+
+const readSchemaVersion = async (client: SupabaseClient, billsTable: string): Promise<number> => {
+    const { data, error } = await client
+        .from(SCHEMA_TABLE)
+        .select('version')
+        .order('version', { ascending: false })
+        .limit(1);
+    if (!error) return (data as { version: number }[])[0]?.version ?? 0;
+    if (isMissingSchemaObject(error)) return detectLegacyVersion(client, billsTable);
+    throw error;
+};
+
+const runSchemaCheck = async (): Promise<SchemaState> => {
+    if (!supabase) return schemaState;
+    try {
+        const remoteVersion = await readSchemaVersion(supabase, tableName);
+
+        if (remoteVersion < LATEST_SCHEMA_VERSION) {
+            console.warn(`Database schema is at version ${remoteVersion}; the app expects ${LATEST_SCHEMA_VERSION}.`);
+        }
+        setSchemaState({
+            status: remoteVersion >= LATEST_SCHEMA_VERSION ? 'current' : 'outdated',
+            remoteVersion,
+            pending: getPendingMigrations(remoteVersion),
+            error: null,
+        });
+    } catch (e: any) {
+        console.error("Failed to check the database schema:", e.message || e);
+        setSchemaState({ status: 'error', error: e.message || 'Could not reach the database' });
+    }
+    return schemaState;
+};
+
+// Runs once per session unless forced (e.g. after the admin has run the migrations)
+export const checkSchemaVersion = (force = false): Promise<SchemaState> => {
+    if (!schemaCheck || force) schemaCheck = runSchemaCheck();
+    return schemaCheck;
 };
 
 // --- IMAGE UTILS ---
@@ -100,6 +271,23 @@ export const compressImage = (base64Str: string, maxWidth = 800, quality = 0.7):
   });
 };
 
+// Reads a picked or captured photo and shrinks it for storage
+export const readImageFile = async (file: File) => {
+  const reader = new FileReader();
+  const rawBase64 = (await new Promise((resolve, reject) => {
+      reader.onload = () => {
+          if (typeof reader.result === 'string') {
+              resolve(reader.result);
+          } else {
+              reject(new Error("Failed to read file"));
+          }
+      };
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(file);
+  })) as string;
+  return compressImage(rawBase64);
+};
+
 const base64ToBlob = (base64: string, mimeType = 'image/jpeg'): Blob => {
     const byteString = atob(base64.split(',')[1]);
     const ab = new ArrayBuffer(byteString.length);
@@ -110,121 +298,443 @@ const base64ToBlob = (base64: string, mimeType = 'image/jpeg'): Blob => {
     return new Blob([ab], { type: mimeType });
 };
 
+// --- BILL PAGES ---
+
+// All pages of a bill in order. Older bills only have the single imageUrl.
+export const getBillImages = (bill: Pick<BillData, 'imageUrl' | 'imageUrls'>): string[] => {
+    if (bill.imageUrls && bill.imageUrls.length > 0) return bill.imageUrls;
+    return bill.imageUrl ? [bill.imageUrl] : [];
+};
+
+// Set the page list, keeping imageUrl pointed at the first page for older clients
+export const withBillImages = <T extends BillData>(bill: T, images: string[]): T => ({
+    ...bill,
+    imageUrls: images,
+    imageUrl: images[0] || '',
+});
+
+// Extraction needs the pixels, so pages already uploaded are downloaded again
+export const loadImageAsBase64 = async (url: string): Promise<string> => {
+    if (url.startsWith('data:')) return url;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Failed to load page image (${response.status})`);
+    const blob = await response.blob();
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+};
+
+// Every file a bill has in the bucket: its pages, then any proof of delivery
+const getBillFiles = (bill: BillData): string[] => [
+    ...getBillImages(bill),
+    ...(bill.deliveryProof?.photoUrls || []),
+    ...(bill.deliveryProof?.signatureUrl ? [bill.deliveryProof.signatureUrl] : []),
+];
+
+// Bucket path for a public URL, or null for images stored elsewhere
+const storagePathFromUrl = (url: string): string | null => {
+    if (!url.includes(`/${bucketName}/`)) return null;
+    const parts = url.split(`/${bucketName}/`);
+    return parts.length === 2 ? decodeURIComponent(parts[1]) : null;
+};
+
+const storagePathsOf = (urls: string[]) =>
+    urls.map(storagePathFromUrl).filter((p): p is string => !!p);
+
+// --- ROW MAPPING ---
+// Rows from an older table lack newer columns (and hold null for empty ones), so reads
+// fill in defaults and writes leave out columns the table turned out not to have.
+// Feeds go through screenBills, which also quarantines rows that can't be shown.
+
+const missingColumns = new Set<string>();
+
+// A single row the caller needs even if it is flawed (conflicts, deletes)
+export const fromRow = (row: any): BillData => validateBill(row).bill;
+
+// Cleared fields are undefined locally; sending them as null clears the column too
+const toRow = (bill: BillData) =>
+  Object.fromEntries(Object.entries(bill)
+      .filter(([key]) => !missingColumns.has(key))
+      .map(([key, value]) => [key, value === undefined ? null : value]));
+
+// PostgREST names the first unknown column it meets; remember it and write without it
+const noteMissingColumn = (error: { code?: string; message?: string } | null) => {
+  if (error?.code !== 'PGRST204') return false;
+  const column = error.message?.match(/'([^']+)' column/)?.[1];
+  if (!column || missingColumns.has(column)) return false;
+  console.warn(`Column "${column}" is missing from the bills table; run the pending migrations. Saving without it.`);
+  missingColumns.add(column);
+  return true;
+};
+
 // --- DATA OPERATIONS ---
 
+const sortByNewest = (bills: BillData[]) => bills.sort((a, b) => b.createdAt - a.createdAt);
+
+// How much history the first load pulls; older entry dates are paged in on demand
+const INITIAL_WINDOW_DAYS = 14;
+
+const daysAgoDateString = (days: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() - days);
+  const local = new Date(d.getTime() - (d.getTimezoneOffset() * 60 * 1000));
+  return local.toISOString().split('T')[0];
+};
+
+// Overlay writes that have not reached the cloud yet
+const overlayPendingOps = async (remote: BillData[]) => {
+  const byId = new Map(remote.map(b => [b.id, b]));
+  const ops = await getQueuedOps();
+  ops.forEach(op => {
+      if (op.type === 'upsert') byId.set(op.billId, op.bill);
+      else byId.delete(op.billId);
+  });
+  return sortByNewest(Array.from(byId.values()));
+};
+
+const hasPendingOp = async (billId: string) => {
+  const ops = await getQueuedOps();
+  return ops.some(op => op.billId === billId);
+};
+
+export const loadLocalBills = async (): Promise<BillData[]> => {
+  try {
+      return sortByNewest(screenBills(await getAllLocalBills(), 'device'));
+  } catch (e) {
+      console.error("Failed to read local bills:", e);
+      return [];
+  }
+};
+
+// The live in-memory view of the table kept by the current subscription
+interface BillFeed {
+  remote: Map<string, BillData>;
+  loadedFrom: string; // Earliest entryDate fully loaded (unpacked bills are always loaded)
+  emit: () => Promise<void>;
+}
+
+let activeFeed: BillFeed | null = null;
+
+// Keep whichever copy is newer so a late snapshot can't undo a realtime event
+const mergeRow = (feed: BillFeed, row: BillData) => {
+  const existing = feed.remote.get(row.id);
+  if (!existing || (row.updatedAt || 0) >= (existing.updatedAt || 0)) {
+      feed.remote.set(row.id, row);
+  }
+};
+
+const logFetchError = (error: { message?: string; code?: string }) => {
+  console.error("Supabase Fetch Error:", error.message || String(error));
+  if (error.code === '42P01') { // Undefined table
+      console.warn(`Table '${tableName}' does not exist. Please run the setup SQL.`);
+  }
+};
+
 export const subscribeToBills = (onUpdate: (bills: BillData[]) => void) => {
+  let active = true;
+
+  // Show the on-device copy straight away; the cloud snapshot replaces it when it arrives
+  loadLocalBills().then(bills => {
+      if (active) onUpdate(bills);
+  });
+
   if (!supabase) {
-      onUpdate([]); 
-      return () => {};
+      return () => { active = false; };
   }
+  // Kept so a workspace switch can't mix this feed with another project
+  const client = supabase;
 
-  const fetchBills = async () => {
+  const feed: BillFeed = {
+      remote: new Map(),
+      loadedFrom: daysAgoDateString(INITIAL_WINDOW_DAYS),
+      emit: async () => {
+          const merged = await overlayPendingOps(Array.from(feed.remote.values()));
+          if (active) onUpdate(merged);
+      },
+  };
+  activeFeed = feed;
+  const isCurrent = () => active && activeFeed === feed;
+
+  // Full snapshot of the recent window plus the whole unpacked backlog and the trash.
+  // Only used on first load and after the realtime channel reconnects.
+  const fetchWindow = async () => {
       try {
-          const { data, error } = await supabase!
-              .from(TABLE_NAME)
+          await checkSchemaVersion();
+          const loadedFrom = daysAgoDateString(INITIAL_WINDOW_DAYS);
+          const filters = [`entryDate.gte.${loadedFrom}`, `status.neq.${PackingStatus.PACKED}`];
+          if (hasSchema(TRASH_SCHEMA_VERSION)) filters.push('deletedAt.not.is.null');
+          const { data, error } = await client
+              .from(tableName)
               .select('*')
+              .or(filters.join(','))
               .order('createdAt', { ascending: false });
           
           if (error) {
-              console.error("Supabase Fetch Error:", error.message || String(error));
-              if (error.code === '42P01') { // Undefined table
-                  console.warn("Table 'bills' does not exist. Please run the setup SQL.");
-              }
+              logFetchError(error);
               return;
           }
-          if (data) onUpdate(data as BillData[]);
+          if (data) {
+              const previous = feed.remote;
+              feed.remote = new Map();
+              feed.loadedFrom = loadedFrom;
+              screenBills(data, 'cloud').forEach(row => {
+                  const known = previous.get(row.id);
+                  feed.remote.set(row.id, known && known.updatedAt > row.updatedAt ? known : row);
+              });
+              const merged = await overlayPendingOps(Array.from(feed.remote.values()));
+              if (!isCurrent()) return;
+              await replaceLocalBills(merged);
+              if (active) onUpdate(merged);
+          }
       } catch (e: any) {
           console.error("Unexpected error during fetch:", e.message || e);
       }
   };
 
+  // Apply a single realtime change without touching the network
+  const applyChange = async (payload: any) => {
+      if (!isCurrent()) return;
+      if (payload.eventType === 'DELETE') {
+          const id = payload.old?.id;
+          if (!id) return;
+          feed.remote.delete(id);
+          if (!(await hasPendingOp(id))) await deleteLocalBill(id);
+      } else {
+          const [row] = screenBills([payload.new], 'cloud');
+          if (!row) return;
+          mergeRow(feed, row);
+          if (!(await hasPendingOp(row.id))) await putLocalBill(feed.remote.get(row.id)!);
+      }
+      await feed.emit();
+  };
+
   // Initial fetch
-  fetchBills();
+  fetchWindow();
 
-  // Subscribe to changes
-  const channel = supabase
-      .channel('public:bills')
-      .on('postgres_changes', { event: '*', schema: 'public', table: TABLE_NAME }, (payload) => {
-          fetchBills();
+  // Subscribe to changes; refetch only when the channel comes back after dropping
+  let hasDropped = false;
+  const channel = client
+      .channel(`public:${tableName}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: tableName }, (payload) => {
+          applyChange(payload).catch(e => console.error("Failed to apply realtime change:", e));
       })
-      .subscribe();
+      .subscribe((status) => {
+          if (status === 'SUBSCRIBED') {
+              if (hasDropped) fetchWindow();
+              hasDropped = false;
+          } else {
+              hasDropped = true;
+          }
+      });
 
   return () => {
-      supabase?.removeChannel(channel);
+      active = false;
+      if (activeFeed === feed) activeFeed = null;
+      client.removeChannel(channel);
   };
 };
 
-export const saveBillToSupabase = async (bill: BillData, imageBase64?: string) => {
+// Page in bills for older entry dates (e.g. when the date navigator moves back)
+export const loadBillsFrom = async (date: string) => {
+  const feed = activeFeed;
+  if (!supabase || !feed || !date || date >= feed.loadedFrom) return;
+
+  const { data, error } = await supabase
+      .from(tableName)
+      .select('*')
+      .gte('entryDate', date)
+      .lt('entryDate', feed.loadedFrom)
+      .order('createdAt', { ascending: false });
+
+  if (error) {
+      logFetchError(error);
+      return;
+  }
+  screenBills(data || [], 'cloud').forEach(row => mergeRow(feed, row));
+  feed.loadedFrom = date;
+  await feed.emit();
+};
+
+// Thrown when a conditional write finds the cloud row was changed by someone else
+export class BillConflictError extends Error {
+  remote: BillData;
+
+  constructor(remote: BillData) {
+    super(`Bill ${remote.id} was changed on another device.`);
+    this.name = 'BillConflictError';
+    this.remote = remote;
+  }
+}
+
+// Thrown when the cloud refuses a write in a way that retrying won't change:
+// row-level security, the role guard trigger, or data the table won't take
+export class SyncRejectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncRejectedError';
+  }
+}
+
+// Postgres permission (42501), raised by a trigger (P0001), bad data (22, 23) and
+// malformed requests (PGRST1xx). Network failures come back without a code.
+const REJECTED_CODES = /^(42501|P0001|22|23|PGRST1)/;
+
+// Storage reports HTTP statuses instead; 4xx is a refusal apart from expired sessions,
+// timeouts and rate limits
+const isRejection = (error: any) => {
+  const status = Number(error?.status);
+  if (status >= 400 && status < 500) return ![401, 408, 429].includes(status);
+  return typeof error?.code === 'string' && REJECTED_CODES.test(error.code);
+};
+
+const cloudError = (message: string, error: any) =>
+  isRejection(error) ? new SyncRejectedError(message) : new Error(message);
+
+// Writes only if the row still has `expectedUpdatedAt` (optimistic concurrency).
+// Without it the bill is treated as new and upserted.
+const writeBillRowOnce = async (bill: BillData, expectedUpdatedAt?: number) => {
+  const row = toRow(bill);
+  if (expectedUpdatedAt === undefined) {
+      const { error } = await supabase!.from(tableName).upsert(row);
+      return error;
+  }
+
+  const { data, error } = await supabase!
+      .from(tableName)
+      .update(row)
+      .eq('id', bill.id)
+      .eq('updatedAt', expectedUpdatedAt)
+      .select('id');
+  if (error) return error;
+  if (data && data.length > 0) return null;
+
+  // Nothing matched: either someone saved a newer version or the row is gone
+  const { data: remote, error: fetchError } = await supabase!
+      .from(tableName)
+      .select('*')
+      .eq('id', bill.id)
+      .maybeSingle();
+  if (fetchError) return fetchError;
+  if (remote) throw new BillConflictError(fromRow(remote));
+
+  const { error: insertError } = await supabase!.from(tableName).upsert(row);
+  return insertError;
+};
+
+const writeBillRow = async (bill: BillData, expectedUpdatedAt?: number) => {
+  while (true) {
+      const error = await writeBillRowOnce(bill, expectedUpdatedAt);
+      if (!error || !noteMissingColumn(error)) return error;
+  }
+};
+
+// Uploads any pages still held as base64, writes the row, then removes stored pages
+// that the saved version no longer references.
+export const saveBillToSupabase = async (bill: BillData, expectedUpdatedAt?: number): Promise<BillData> => {
   if (!supabase) {
       throw new Error("Database not connected. Please configure Supabase.");
   }
 
-  let finalBill = { ...bill };
-  let newUploadedPath: string | null = null;
+  const newUploadedPaths: string[] = [];
+  const rollbackUploads = async () => {
+      if (newUploadedPaths.length > 0) {
+          await supabase!.storage.from(bucketName).remove(newUploadedPaths);
+      }
+  };
   
-  try {
-    // 1. Upload Image to Supabase Storage (if provided)
-    if (imageBase64 && imageBase64.startsWith('data:')) {
-        
-        // CLEANUP: If there is an existing image, delete it first to save space
-        if (bill.imageUrl && bill.imageUrl.includes(`/${BUCKET_NAME}/`)) {
-             try {
-                 const parts = bill.imageUrl.split(`/${BUCKET_NAME}/`);
-                 if (parts.length === 2) {
-                     const oldPath = decodeURIComponent(parts[1]);
-                     await supabase.storage.from(BUCKET_NAME).remove([oldPath]);
-                 }
-             } catch (cleanupError) {
-                 console.warn("Failed to cleanup old image:", cleanupError);
-             }
-        }
+  // Uploads a base64 image under the organisation's folder and the bill's id and returns
+  // its public URL; anything else is already stored and is returned as is
+  const orgId = bill.orgId || getCurrentOrgId();
+  const upload = async (image: string, name: string) => {
+      if (!image.startsWith('data:')) return image;
+      const contentType = image.slice(5, image.indexOf(';')) || 'image/jpeg';
+      const fileName = `${orgId ? `${orgId}/` : ''}${bill.id}_${name}.${contentType === 'image/png' ? 'png' : 'jpg'}`;
+      try {
+          // Upload to Bucket
+          const { data: uploadData, error: uploadError } = await supabase!.storage
+              .from(bucketName)
+              .upload(fileName, base64ToBlob(image, contentType), {
+                  contentType,
+                  upsert: true
+              });
 
-        try {
-            const blob = base64ToBlob(imageBase64);
-            const fileName = `${bill.id}_${Date.now()}.jpg`;
-            
-            // Upload to Bucket
-            const { data: uploadData, error: uploadError } = await supabase.storage
-                .from(BUCKET_NAME)
-                .upload(fileName, blob, {
-                    contentType: 'image/jpeg',
-                    upsert: true
-                });
-
-            if (uploadError) throw uploadError;
-            
-            if (uploadData?.path) {
-                newUploadedPath = uploadData.path;
-            }
+          if (uploadError) throw uploadError;
 
-            // Get Public URL
-            const { data: urlData } = supabase.storage
-                .from(BUCKET_NAME)
-                .getPublicUrl(fileName);
-            
-            finalBill.imageUrl = urlData.publicUrl;
+          if (uploadData?.path) {
+              newUploadedPaths.push(uploadData.path);
+          }
 
-        } catch (storageError: any) {
-            console.error("Supabase Storage Upload Error:", storageError.message || storageError);
-            throw new Error(`Image Upload Failed: ${storageError.message || 'Unknown error'}`);
+          // Get Public URL
+          const { data: urlData } = supabase!.storage
+              .from(bucketName)
+              .getPublicUrl(fileName);
+          return urlData.publicUrl;
+      } catch (storageError: any) {
+          await rollbackUploads();
+          console.error("Supabase Storage Upload Error:", storageError.message || storageError);
+          throw cloudError(`Image Upload Failed: ${storageError.message || 'Unknown error'}`, storageError);
+      }
+  };
+  
+  try {
+    // 1. Upload new pages (and proof of delivery) to Supabase Storage
+    const pages = getBillImages(bill);
+    const finalPages: string[] = [];
+    for (let i = 0; i < pages.length; i++) {
+        finalPages.push(await upload(pages[i], `${Date.now()}_${i + 1}`));
+    }
+    let finalBill = pages.length > 0 ? withBillImages(bill, finalPages) : { ...bill };
+
+    const proof = bill.deliveryProof;
+    if (proof) {
+        const photoUrls: string[] = [];
+        for (let i = 0; i < proof.photoUrls.length; i++) {
+            photoUrls.push(await upload(proof.photoUrls[i], `pod_${Date.now()}_${i + 1}`));
         }
-    } 
+        const signatureUrl = proof.signatureUrl ? await upload(proof.signatureUrl, `signature_${Date.now()}`) : undefined;
+        finalBill = { ...finalBill, deliveryProof: { ...proof, photoUrls, ...(signatureUrl ? { signatureUrl } : {}) } };
+    }
+
+    // Files the cloud currently holds, so dropped ones can be cleaned up after the write
+    let previousFiles: string[] = [];
+    if (expectedUpdatedAt !== undefined) {
+        const { data: previous } = await supabase
+            .from(tableName)
+            .select('*')
+            .eq('id', bill.id)
+            .maybeSingle();
+        if (previous) previousFiles = getBillFiles(fromRow(previous));
+    }
     
-    // 2. Upsert Data to Table
-    // Crucial: We only save the URL, not the base64, keeping the DB small.
-    const { error: dbError } = await supabase
-        .from(TABLE_NAME)
-        .upsert(finalBill);
+    // 2. Write Data to Table (rejecting stale edits)
+    // Crucial: We only save the URLs, not the base64, keeping the DB small.
+    let dbError;
+    try {
+        dbError = await writeBillRow(finalBill, expectedUpdatedAt);
+    } catch (conflict) {
+        await rollbackUploads();
+        throw conflict;
+    }
 
     if (dbError) {
-        // ROLLBACK: If DB save fails, delete the just-uploaded image so it doesn't become orphaned
-        if (newUploadedPath) {
-             await supabase.storage.from(BUCKET_NAME).remove([newUploadedPath]);
-        }
+        // ROLLBACK: If DB save fails, delete the just-uploaded pages so they don't become orphaned
+        await rollbackUploads();
         console.error("Supabase DB Upsert Error:", dbError.message || String(dbError));
-        throw new Error(`Database Save Failed: ${dbError.message || 'Check console for details'}`);
+        throw cloudError(`Database Save Failed: ${dbError.message || 'Check console for details'}`, dbError);
+    }
+
+    // 3. CLEANUP: Remove pages and photos that were deleted from the bill
+    const finalFiles = getBillFiles(finalBill);
+    const removedPaths = storagePathsOf(previousFiles.filter(url => !finalFiles.includes(url)));
+    if (removedPaths.length > 0) {
+        const { error: cleanupError } = await supabase.storage.from(bucketName).remove(removedPaths);
+        if (cleanupError) console.warn("Failed to cleanup removed pages:", cleanupError.message);
     }
 
+    return finalBill;
   } catch (e) {
     console.error("Error saving bill to Supabase:", e);
     throw e;
@@ -234,39 +744,526 @@ export const saveBillToSupabase = async (bill: BillData, imageBase64?: string) =
 export const deleteBillFromSupabase = async (id: string) => {
   if (!supabase) return;
   try {
-    // 1. Fetch bill details first to get the image URL
-    const { data: bill, error: fetchError } = await supabase
-        .from(TABLE_NAME)
-        .select('imageUrl')
+    // 1. Fetch bill details first to get the page URLs
+    const { data: bill } = await supabase
+        .from(tableName)
+        .select('*')
         .eq('id', id)
-        .single();
+        .maybeSingle();
     
-    // 2. Delete the image from Storage Bucket (if it exists)
-    if (bill && bill.imageUrl && bill.imageUrl.includes(`/${BUCKET_NAME}/`)) {
-         const parts = bill.imageUrl.split(`/${BUCKET_NAME}/`);
-         if (parts.length === 2) {
-             const filePath = decodeURIComponent(parts[1]); // Ensure spaces/chars are handled
-             console.log("Deleting associated image:", filePath);
-             const { error: storageError } = await supabase.storage
-                .from(BUCKET_NAME)
-                .remove([filePath]);
-             
-             if (storageError) {
-                 console.warn("Warning: Could not delete associated image file:", storageError.message);
-             }
+    // 2. Delete every page and proof photo from the Storage Bucket
+    const filePaths = bill ? storagePathsOf(getBillFiles(fromRow(bill))) : [];
+    if (filePaths.length > 0) {
+         console.log("Deleting associated images:", filePaths);
+         const { error: storageError } = await supabase.storage
+            .from(bucketName)
+            .remove(filePaths);
+         
+         if (storageError) {
+             console.warn("Warning: Could not delete associated image files:", storageError.message);
          }
     }
 
     // 3. Delete the record from the Database
-    const { error } = await supabase.from(TABLE_NAME).delete().eq('id', id);
+    const { data: deleted, error } = await supabase.from(tableName).delete().eq('id', id).select('id');
     if (error) {
         console.error("Error deleting bill metadata:", error.message || error);
+        throw cloudError(`Database Delete Failed: ${error.message || 'Check console for details'}`, error);
+    }
+    // Row-level security skips rows it won't let this user delete instead of failing
+    if (bill && !deleted?.length) {
+        throw new SyncRejectedError('Database Delete Failed: only admins can delete bills forever');
     }
   } catch (e) {
     console.error("Error deleting bill from Supabase:", e);
+    throw e;
+  }
+};
+
+// --- CHANGE HISTORY ---
+
+// Sends history recorded on this device. Bills with a write still queued are held back
+// so their events go up with the uploaded page URLs rather than base64 data.
+const pushBillEvents = async () => {
+  if (!hasSchema(HISTORY_SCHEMA_VERSION)) return; // Kept on the device until the table exists
+  const pendingBills = new Set((await getQueuedOps()).map(op => op.billId));
+  const events = (await getLocalEvents()).filter(e => !pendingBills.has(e.billId));
+  if (events.length === 0) return;
+
+  const orgId = getCurrentOrgId();
+  const { error } = await supabase!
+      .from(EVENTS_TABLE)
+      .upsert(events.map(e => ({ ...e, orgId: e.orgId || orgId })), { onConflict: 'id', ignoreDuplicates: true });
+  if (error) {
+      console.error("Supabase History Save Error:", error.message || String(error));
+      throw new Error(`History Save Failed: ${error.message || 'Check console for details'}`);
   }
+  await deleteLocalEvents(events.map(e => e.id));
+};
+
+// Every recorded change to a bill, oldest first: the cloud history plus anything not yet synced
+export const getBillHistory = async (billId: string): Promise<BillEvent[]> => {
+  const byId = new Map<string, BillEvent>();
+  if (supabase && getAuthState().status === 'ready' && hasSchema(HISTORY_SCHEMA_VERSION)) {
+      const { data, error } = await supabase
+          .from(EVENTS_TABLE)
+          .select('*')
+          .eq('billId', billId)
+          .order('changedAt', { ascending: true });
+      if (error) console.error("Failed to load bill history:", error.message || error);
+      (data as BillEvent[] || []).forEach(e => byId.set(e.id, e));
+  }
+  (await getLocalEvents(billId)).forEach(e => byId.set(e.id, e));
+  return Array.from(byId.values()).sort((a, b) => a.changedAt - b.changedAt);
+};
+
+// --- CUSTOMERS ---
+// The directory is kept on the device and sent up after the bill queue. Edits go up
+// as whole rows; when two devices change the same customer the last one sent wins.
+
+const CUSTOMERS_PUSHED_META_KEY = 'customersPushedAt';
+
+let customers: Customer[] = [];
+const customerListeners = new Set<(customers: Customer[]) => void>();
+
+const setCustomers = (next: Customer[]) => {
+  customers = next;
+  customerListeners.forEach(listener => listener(customers));
 };
 
+// Includes removed customers (deletedAt), so learning doesn't bring them back
+export const subscribeToCustomers = (listener: (customers: Customer[]) => void) => {
+  customerListeners.add(listener);
+  listener(customers);
+  return () => { customerListeners.delete(listener); };
+};
+
+const customerFromRow = (row: any): Customer => ({
+  id: row.id,
+  orgId: row.orgId ?? undefined,
+  name: row.name || '',
+  aliases: Array.isArray(row.aliases) ? row.aliases.filter((a: unknown) => typeof a === 'string') : [],
+  address: row.address || '',
+  phone: row.phone || '',
+  defaultGroup: row.defaultGroup || '',
+  defaultColor: row.defaultColor || undefined,
+  createdAt: Number(row.createdAt) || 0,
+  updatedAt: Number(row.updatedAt) || 0,
+  deletedAt: row.deletedAt ? Number(row.deletedAt) : undefined,
+});
+
+// The device copy first, then anything newer from the cloud
+export const loadCustomers = async (): Promise<Customer[]> => {
+  const client = supabase;
+  const local = await getLocalCustomers();
+  if (client !== supabase) return customers; // Switched workspace meanwhile
+  setCustomers(local);
+  if (!client || getAuthState().status !== 'ready' || !hasSchema(CUSTOMERS_SCHEMA_VERSION)) return customers;
+
+  const { data, error } = await client.from(CUSTOMERS_TABLE).select('*');
+  if (client !== supabase) return customers;
+  if (error) {
+    console.error("Failed to load customers:", error.message || error);
+    return customers;
+  }
+  const byId = new Map(local.map(c => [c.id, c]));
+  const newer = (data || []).map(customerFromRow).filter(c => c.id && c.updatedAt > (byId.get(c.id)?.updatedAt ?? -1));
+  await putLocalCustomers(newer);
+  newer.forEach(c => byId.set(c.id, c));
+  setCustomers(Array.from(byId.values()));
+  return customers;
+};
+
+export const saveCustomers = async (changed: Customer[]) => {
+  if (changed.length === 0) return;
+  const orgId = getCurrentOrgId();
+  const stamped = changed.map(c => (c.orgId || !orgId ? c : { ...c, orgId }));
+  await putLocalCustomers(stamped);
+  const byId = new Map(customers.map(c => [c.id, c]));
+  stamped.forEach(c => byId.set(c.id, c));
+  setCustomers(Array.from(byId.values()));
+  flushSyncQueue();
+};
+
+// Sends customers changed since the last push
+const pushCustomers = async () => {
+  if (!hasSchema(CUSTOMERS_SCHEMA_VERSION)) return; // Kept on the device until the table exists
+  const orgId = getCurrentOrgId();
+  if (!orgId) return;
+  const pushedAt = (await getMeta<number>(CUSTOMERS_PUSHED_META_KEY)) ?? 0;
+  const changed = (await getLocalCustomers()).filter(c => c.updatedAt > pushedAt);
+  if (changed.length === 0) return;
+
+  const rows = changed.map(c => ({
+    ...c,
+    orgId: c.orgId || orgId,
+    defaultColor: c.defaultColor ?? null,
+    deletedAt: c.deletedAt ?? null,
+  }));
+  const { error } = await supabase!.from(CUSTOMERS_TABLE).upsert(rows, { onConflict: 'orgId,id' });
+  if (error) {
+      console.error("Supabase Customer Save Error:", error.message || String(error));
+      throw new Error(`Customer Save Failed: ${error.message || 'Check console for details'}`);
+  }
+  await setMeta(CUSTOMERS_PUSHED_META_KEY, Math.max(...changed.map(c => c.updatedAt)));
+};
+
+// --- DISPATCH MANIFESTS ---
+// Synced like the customer directory. The bills on a run carry their own delivery
+// status, so drivers only ever save bills, never the manifest.
+
+const MANIFESTS_PUSHED_META_KEY = 'manifestsPushedAt';
+
+let manifests: DispatchManifest[] = [];
+const manifestListeners = new Set<(manifests: DispatchManifest[]) => void>();
+
+const setManifests = (next: DispatchManifest[]) => {
+  manifests = next;
+  manifestListeners.forEach(listener => listener(manifests));
+};
+
+export const subscribeToManifests = (listener: (manifests: DispatchManifest[]) => void) => {
+  manifestListeners.add(listener);
+  listener(manifests);
+  return () => { manifestListeners.delete(listener); };
+};
+
+const manifestFromRow = (row: any): DispatchManifest => ({
+  id: row.id,
+  orgId: row.orgId ?? undefined,
+  date: row.date || '',
+  vehicle: row.vehicle || '',
+  driver: row.driver || '',
+  stops: Array.isArray(row.stops)
+      ? row.stops
+          .filter((s: any) => s && typeof s === 'object' && Array.isArray(s.billIds))
+          .map((s: any) => ({ id: String(s.id), customerName: s.customerName || '', address: s.address || '', billIds: s.billIds.map(String) }))
+      : [],
+  createdAt: Number(row.createdAt) || 0,
+  updatedAt: Number(row.updatedAt) || 0,
+  createdBy: row.createdBy ?? undefined,
+  dispatchedAt: row.dispatchedAt ? Number(row.dispatchedAt) : undefined,
+  deletedAt: row.deletedAt ? Number(row.deletedAt) : undefined,
+});
+
+// The device copy first, then anything newer from the cloud
+export const loadManifests = async (): Promise<DispatchManifest[]> => {
+  const client = supabase;
+  const local = await getLocalManifests();
+  if (client !== supabase) return manifests; // Switched workspace meanwhile
+  setManifests(local);
+  if (!client || getAuthState().status !== 'ready' || !hasSchema(DISPATCH_SCHEMA_VERSION)) return manifests;
+
+  const { data, error } = await client.from(MANIFESTS_TABLE).select('*');
+  if (client !== supabase) return manifests;
+  if (error) {
+    console.error("Failed to load manifests:", error.message || error);
+    return manifests;
+  }
+  const byId = new Map(local.map(m => [m.id, m]));
+  const newer = (data || []).map(manifestFromRow).filter(m => m.id && m.updatedAt > (byId.get(m.id)?.updatedAt ?? -1));
+  await putLocalManifests(newer);
+  newer.forEach(m => byId.set(m.id, m));
+  setManifests(Array.from(byId.values()));
+  return manifests;
+};
+
+export const saveManifest = async (manifest: DispatchManifest) => {
+  const orgId = getCurrentOrgId();
+  const stamped = manifest.orgId || !orgId ? manifest : { ...manifest, orgId };
+  await putLocalManifests([stamped]);
+  setManifests([...manifests.filter(m => m.id !== stamped.id), stamped]);
+  flushSyncQueue();
+};
+
+const pushManifests = async () => {
+  if (!hasSchema(DISPATCH_SCHEMA_VERSION)) return; // Kept on the device until the table exists
+  const orgId = getCurrentOrgId();
+  if (!orgId) return;
+  const pushedAt = (await getMeta<number>(MANIFESTS_PUSHED_META_KEY)) ?? 0;
+  const changed = (await getLocalManifests()).filter(m => m.updatedAt > pushedAt);
+  if (changed.length === 0) return;
+
+  const rows = changed.map(m => ({
+    ...m,
+    orgId: m.orgId || orgId,
+    createdBy: m.createdBy ?? null,
+    dispatchedAt: m.dispatchedAt ?? null,
+    deletedAt: m.deletedAt ?? null,
+  }));
+  const { error } = await supabase!.from(MANIFESTS_TABLE).upsert(rows, { onConflict: 'orgId,id' });
+  if (error) {
+      console.error("Supabase Manifest Save Error:", error.message || String(error));
+      throw new Error(`Manifest Save Failed: ${error.message || 'Check console for details'}`);
+  }
+  await setMeta(MANIFESTS_PUSHED_META_KEY, Math.max(...changed.map(m => m.updatedAt)));
+};
+
+// --- OFFLINE-FIRST SYNC QUEUE ---
+// Every write lands in IndexedDB first and is replayed against Supabase in order
+// whenever the cloud is reachable. The UI never waits on the network.
+
+export interface SyncState {
+    pendingCount: number;
+    lastSyncedAt: number | null;
+    isFlushing: boolean;
+    isOnline: boolean;
+    lastError: string | null;
+    conflicts: BillConflict[];
+    failedChanges: FailedChange[];
+}
+
+const LAST_SYNC_META_KEY = 'lastSyncedAt';
+const RETRY_INTERVAL_MS = 30000;
+
+let syncState: SyncState = {
+    pendingCount: 0,
+    lastSyncedAt: null,
+    isFlushing: false,
+    isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+    lastError: null,
+    conflicts: [],
+    failedChanges: [],
+};
+const syncListeners = new Set<(state: SyncState) => void>();
+let flushPromise: Promise<void> | null = null;
+
+const setSyncState = (patch: Partial<SyncState>) => {
+    syncState = { ...syncState, ...patch };
+    syncListeners.forEach(listener => listener(syncState));
+};
+
+const refreshPendingCount = async () => {
+    try {
+        setSyncState({ pendingCount: await countQueuedOps() });
+    } catch (e) {
+        console.error("Failed to count queued operations:", e);
+    }
+};
+
+export const subscribeToSyncState = (listener: (state: SyncState) => void) => {
+    syncListeners.add(listener);
+    listener(syncState);
+    return () => { syncListeners.delete(listener); };
+};
+
+// Persist locally and queue for the cloud. Base64 images stay on the bill until uploaded.
+// The cached copy being replaced is the version this edit is based on.
+export const saveBill = async (edited: BillData) => {
+    const previous = await getLocalBill(edited.id);
+    const bill = stampAttribution(prepareOutgoingBill(edited), previous);
+    await putLocalBill(bill);
+    await addLocalEvents(diffBills(previous, bill));
+    await enqueueOp({ type: 'upsert', billId: bill.id, bill, baseUpdatedAt: previous?.updatedAt, queuedAt: Date.now() });
+    await refreshPendingCount();
+    flushSyncQueue();
+};
+
+// --- TRASH ---
+// Deleting moves a bill to the trash (deletedAt tombstone). Only "delete forever"
+// or the retention purge remove the row and its pages.
+
+const TRASH_RETENTION_KEY = 'grace_trash_retention_days';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getTrashRetentionDays = (): number => {
+    const days = parseInt(localStorage.getItem(TRASH_RETENTION_KEY) || '', 10);
+    return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number) => {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(Math.max(1, Math.round(days))));
+};
+
+export const trashBill = async (bill: BillData): Promise<BillData> => {
+    const now = Date.now();
+    const trashed = { ...bill, deletedAt: now, deletedBy: getCurrentIdentity(), updatedAt: now };
+    await saveBill(trashed);
+    return trashed;
+};
+
+export const restoreBill = async (bill: BillData): Promise<BillData> => {
+    const restored = { ...bill, deletedAt: undefined, deletedBy: undefined, updatedAt: Date.now() };
+    await saveBill(restored);
+    return restored;
+};
+
+export const deleteBillForever = async (id: string) => {
+    const previous = await getLocalBill(id);
+    await deleteLocalBill(id);
+    if (previous) await addLocalEvents([deletionEvent(previous)]);
+    await enqueueOp({ type: 'delete', billId: id, queuedAt: Date.now() });
+    await refreshPendingCount();
+    flushSyncQueue();
+};
+
+// Permanently deletes bills that have sat in the trash past the retention period.
+// Only devices allowed to purge run it; the database would refuse anyone else.
+export const purgeExpiredTrash = async (): Promise<string[]> => {
+    if (!can('images:purge')) return [];
+    const cutoff = Date.now() - getTrashRetentionDays() * DAY_MS;
+    const expired = (await getAllLocalBills()).filter(b => b.deletedAt && b.deletedAt < cutoff);
+    for (const bill of expired) {
+        await deleteBillForever(bill.id);
+    }
+    return expired.map(b => b.id);
+};
+
+type UpsertOperation = Extract<SyncOperation, { type: 'upsert' }>;
+
+// Sends one queued edit and points the local copies at any pages it uploaded.
+// A conflicting edit is parked for the user to merge; the cache now follows the cloud.
+// Returns the op as it was finally written.
+const pushUpsert = async (op: UpsertOperation): Promise<UpsertOperation> => {
+    try {
+        const saved = await saveBillToSupabase(op.bill, op.baseUpdatedAt);
+        const localFiles = getBillFiles(op.bill);
+        const savedFiles = getBillFiles(saved);
+        const uploaded: Record<string, string> = {};
+        localFiles.forEach((file, i) => {
+            if (file.startsWith('data:') && savedFiles[i]) uploaded[file] = savedFiles[i];
+        });
+        if (Object.keys(uploaded).length > 0) {
+            await replaceLocalImageUrls(op.billId, uploaded);
+        }
+        return op;
+    } catch (e) {
+        if (!(e instanceof BillConflictError)) throw e;
+        // Box scans from two phones loading the same vehicle merge by themselves
+        const scans = mergeLoadingScans(op.bill, e.remote);
+        if (scans) {
+            // The cache only follows if nothing newer was saved on this device meanwhile
+            if ((await getLocalBill(op.billId))?.updatedAt === op.bill.updatedAt) await putLocalBill(scans);
+            return pushUpsert({ ...op, bill: scans, baseUpdatedAt: e.remote.updatedAt });
+        }
+        // Its history never happened; resolving records the merge instead.
+        await deleteLocalEvents((await getLocalEvents(op.billId)).map(ev => ev.id));
+        await putConflict({ billId: op.billId, local: op.bill, remote: e.remote, detectedAt: Date.now() });
+        await putLocalBill(e.remote);
+        setSyncState({ conflicts: await getConflicts() });
+        return op;
+    }
+};
+
+// Takes a refused write off the queue so the ones behind it can go. Like a conflict,
+// its history is dropped and the cache goes back to the cloud copy, if one is loaded.
+const parkFailedChange = async (op: SyncOperation, error: string) => {
+    console.warn(`Change to bill ${op.billId} was refused:`, error);
+    await deleteLocalEvents((await getLocalEvents(op.billId)).map(ev => ev.id));
+    await putFailedChange({ billId: op.billId, op, error, failedAt: Date.now() });
+    const remote = activeFeed?.remote.get(op.billId);
+    if (remote) await putLocalBill(remote);
+    setSyncState({ failedChanges: await getFailedChanges() });
+};
+
+export const flushSyncQueue = (): Promise<void> => {
+    // Row-level security rejects writes until someone in an organisation is signed in
+    if (!supabase || !syncState.isOnline || getAuthState().status !== 'ready') return Promise.resolve();
+    if (flushPromise) return flushPromise;
+
+    flushPromise = (async () => {
+        setSyncState({ isFlushing: true });
+        try {
+            // Re-read the queue after every op so edits made mid-sync are picked up in order
+            while (true) {
+                const [op] = await getQueuedOps();
+                if (!op) break;
+
+                let sent: SyncOperation = op;
+                let written = true;
+                try {
+                    if (op.type === 'upsert') {
+                        sent = await pushUpsert(op);
+                    } else {
+                        await deleteBillFromSupabase(op.billId);
+                    }
+                } catch (e) {
+                    // Anything else (offline, 5xx) pauses the queue to be retried as is
+                    if (!(e instanceof SyncRejectedError)) throw e;
+                    await parkFailedChange(op, e.message);
+                    written = false;
+                }
+
+                await removeQueuedOp(sent, written);
+                const now = Date.now();
+                await setMeta(LAST_SYNC_META_KEY, now);
+                setSyncState({ lastSyncedAt: now, lastError: null });
+                await refreshPendingCount();
+            }
+            await pushBillEvents();
+            await pushCustomers();
+            await pushManifests();
+        } catch (e: any) {
+            console.warn("Sync paused, will retry:", e.message || e);
+            setSyncState({ lastError: e.message || 'Sync failed' });
+        } finally {
+            flushPromise = null;
+            setSyncState({ isFlushing: false });
+            // Drop overlays for writes that are no longer pending (e.g. parked as conflicts or refused)
+            activeFeed?.emit();
+        }
+    })();
+    return flushPromise;
+};
+
+// Save the user's field-by-field merge on top of the cloud version
+export const resolveConflict = async (billId: string, merged: BillData) => {
+    await deleteConflict(billId);
+    setSyncState({ conflicts: await getConflicts() });
+    await saveBill(merged);
+};
+
+// Sends a refused change again, e.g. once an admin has granted the role it needed.
+// It goes through saveBill so it is based on whatever the device now holds.
+export const retryFailedChange = async (billId: string) => {
+    const failed = (await getFailedChanges()).find(f => f.billId === billId);
+    await deleteFailedChange(billId);
+    setSyncState({ failedChanges: await getFailedChanges() });
+    if (!failed) return;
+    if (failed.op.type === 'upsert') await saveBill({ ...failed.op.bill, updatedAt: Date.now() });
+    else await deleteBillForever(billId);
+};
+
+// Gives up on a refused change; the cloud copy stands
+export const discardFailedChange = async (billId: string) => {
+    await deleteFailedChange(billId);
+    setSyncState({ failedChanges: await getFailedChanges() });
+};
+
+// Sync status kept in the active workspace's local store
+const loadSyncState = async () => {
+    try {
+        const lastSyncedAt = await getMeta<number>(LAST_SYNC_META_KEY);
+        setSyncState({ lastSyncedAt: lastSyncedAt ?? null, conflicts: await getConflicts(), failedChanges: await getFailedChanges(), lastError: null });
+        await refreshPendingCount();
+    } catch (e) {
+        console.error("Failed to initialise local store:", e);
+    }
+};
+
+const initSync = async () => {
+    await loadSyncState();
+
+    checkSchemaVersion();
+
+    window.addEventListener('online', () => {
+        setSyncState({ isOnline: true });
+        flushSyncQueue();
+    });
+    window.addEventListener('offline', () => setSyncState({ isOnline: false }));
+    subscribeToAuthState(state => {
+        if (state.status === 'ready') flushSyncQueue();
+    });
+    setInterval(() => {
+        if (syncState.pendingCount > 0) flushSyncQueue();
+    }, RETRY_INTERVAL_MS);
+
+    flushSyncQueue();
+};
+
+initSync();
+
 // --- COLOR PALETTE (UI Helpers) ---
 export const COLOR_PALETTE = [
   { name: 'slate', bg: 'bg-slate-50', border: 'border-slate-200', text: 'text-slate-900', ring: 'ring-slate-500' },
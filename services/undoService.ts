@@ -0,0 +1,77 @@
+import { BillData } from '../types';
+
+// --- SESSION UNDO ---
+// Bulk actions record each bill before and after the change. Undoing puts back only
+// the fields the action touched, so edits made since (here or on another device) stay.
+// The stack lives for the session only.
+
+export interface BillChange {
+    before: BillData;
+    after: BillData;
+}
+
+export interface UndoEntry {
+    id: string;
+    label: string; // e.g. "Packed 4 bills"
+    changes: BillChange[];
+    createdAt: number;
+}
+
+const MAX_UNDO_ENTRIES = 20;
+// Saved on every write anyway; restoring them would fake who changed the bill last
+const BOOKKEEPING_FIELDS = ['updatedAt', 'updatedBy'];
+
+let undoStack: UndoEntry[] = []; // Newest first
+const undoListeners = new Set<(stack: UndoEntry[]) => void>();
+
+const setUndoStack = (stack: UndoEntry[]) => {
+    undoStack = stack;
+    undoListeners.forEach(listener => listener(undoStack));
+};
+
+export const subscribeToUndoStack = (listener: (stack: UndoEntry[]) => void) => {
+    undoListeners.add(listener);
+    listener(undoStack);
+    return () => { undoListeners.delete(listener); };
+};
+
+export const recordUndo = (label: string, changes: BillChange[]): UndoEntry | null => {
+    if (changes.length === 0) return null;
+    const entry: UndoEntry = {
+        id: Date.now().toString(36) + Math.random().toString(36).substr(2, 6),
+        label,
+        changes,
+        createdAt: Date.now(),
+    };
+    setUndoStack([entry, ...undoStack].slice(0, MAX_UNDO_ENTRIES));
+    return entry;
+};
+
+// Undo entries only make sense in the workspace they were recorded in
+export const clearUndoStack = () => setUndoStack([]);
+
+// Removes the given entry and everything newer, newest first (the order to undo them in)
+export const takeUndoEntries = (entryId: string): UndoEntry[] => {
+    const index = undoStack.findIndex(entry => entry.id === entryId);
+    if (index === -1) return [];
+    const taken = undoStack.slice(0, index + 1);
+    setUndoStack(undoStack.slice(index + 1));
+    return taken;
+};
+
+const changedFields = ({ before, after }: BillChange) => {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(keys).filter(key =>
+        !BOOKKEEPING_FIELDS.includes(key) &&
+        JSON.stringify((before as any)[key]) !== JSON.stringify((after as any)[key])
+    );
+};
+
+// The current bill with the change's fields set back to their earlier values
+export const undoChange = (current: BillData, change: BillChange): BillData => {
+    const reverted: any = { ...current, updatedAt: Date.now() };
+    changedFields(change).forEach(field => {
+        reverted[field] = (change.before as any)[field];
+    });
+    return reverted as BillData;
+};
@@ -0,0 +1,350 @@
+import { BillData, BillItem, BoxContent, PackedBox, PackingStatus, DeliveryStatus, ExtractionReview, ExtractedField } from '../types';
+
+// --- RECORD VALIDATION ---
+// Rows from the table (or an old on-device cache) are not trusted to match BillData.
+// Fixable values are coerced and defaulted; a row that cannot be placed on a day at all
+// is quarantined into the data problems list instead of reaching the UI.
+
+export type DataProblemSource = 'cloud' | 'device' | 'outgoing';
+
+export interface DataProblem {
+    key: string; // source + row id, so a repeat of the same bad row replaces the old report
+    billId?: string;
+    source: DataProblemSource;
+    problems: string[]; // Why the row was quarantined
+    fixes: string[]; // What was coerced on the way
+    raw: unknown; // The row exactly as received
+    detectedAt: number;
+}
+
+export interface BillValidation {
+    bill: BillData; // Best-effort coerced copy, even when there are problems
+    problems: string[];
+    fixes: string[];
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const STATUSES = Object.values(PackingStatus) as string[];
+const DELIVERY_STATUSES = Object.values(DeliveryStatus) as string[];
+const EXTRACTION_STATUSES: ExtractionReview['status'][] = ['ok', 'empty', 'failed'];
+const EXTRACTED_FIELDS: ExtractedField[] = ['customerName', 'address', 'invoiceNo', 'billDate'];
+
+const toLocalDateString = (timestamp: number) => {
+    const d = new Date(timestamp);
+    const local = new Date(d.getTime() - (d.getTimezoneOffset() * 60 * 1000));
+    return local.toISOString().split('T')[0];
+};
+
+// Validates one record against BillData, collecting what had to be fixed
+export const validateBill = (raw: unknown): BillValidation => {
+    const row: Record<string, any> = raw && typeof raw === 'object' && !Array.isArray(raw) ? raw as Record<string, any> : {};
+    const problems: string[] = [];
+    const fixes: string[] = [];
+    if (row !== raw) problems.push('Not a record');
+
+    const text = (field: string): string => {
+        const value = row[field];
+        if (value === undefined || value === null) return '';
+        if (typeof value === 'string') return value;
+        if (typeof value === 'number' || typeof value === 'boolean') {
+            fixes.push(`${field} was a ${typeof value}`);
+            return String(value);
+        }
+        fixes.push(`${field} was not text and was cleared`);
+        return '';
+    };
+
+    const optionalText = (field: string): string | undefined => {
+        const value = row[field];
+        if (value === undefined || value === null || value === '') return undefined;
+        return text(field);
+    };
+
+    const flag = (field: string): boolean => {
+        const value = row[field];
+        if (value === undefined || value === null || typeof value === 'boolean') return !!value;
+        fixes.push(`${field} was ${JSON.stringify(value)}`);
+        return value === 1 || value === 'true' || value === '1';
+    };
+
+    const number = (value: any): number | undefined => {
+        if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+        if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value);
+        return undefined;
+    };
+
+    // Timestamps are epoch milliseconds; accept numeric text and ISO dates too
+    const timestamp = (field: string): number | undefined => {
+        const value = row[field];
+        if (value === undefined || value === null) return undefined;
+        if (typeof value === 'number' && Number.isFinite(value)) return value;
+        const parsed = number(value) ?? (typeof value === 'string' ? Date.parse(value) : NaN);
+        if (Number.isFinite(parsed)) {
+            fixes.push(`${field} was text`);
+            return parsed;
+        }
+        fixes.push(`${field} was not a time and was cleared`);
+        return undefined;
+    };
+
+    const id = typeof row.id === 'string' || typeof row.id === 'number' ? String(row.id).trim() : '';
+    if (!id) problems.push('Missing id');
+
+    const status = typeof row.status === 'string' ? row.status.toUpperCase() : '';
+    if (row.status !== undefined && row.status !== null && row.status !== status) {
+        fixes.push(STATUSES.includes(status) ? 'status was lower case' : `Unknown status ${JSON.stringify(row.status)} read as pending`);
+    }
+
+    let boxCount = number(row.boxCount);
+    if (row.boxCount !== undefined && row.boxCount !== null && typeof row.boxCount !== 'number') {
+        fixes.push(`boxCount was ${JSON.stringify(row.boxCount)}`);
+    }
+    if (boxCount !== undefined && (boxCount < 0 || !Number.isInteger(boxCount))) {
+        fixes.push(`boxCount ${boxCount} rounded`);
+        boxCount = Math.max(0, Math.round(boxCount));
+    }
+
+    const createdAt = timestamp('createdAt');
+    const updatedAt = timestamp('updatedAt');
+
+    // Entry date decides which day a bill is listed on; without one the row can't be shown
+    let entryDate = typeof row.entryDate === 'string' ? row.entryDate.trim() : '';
+    if (entryDate && !DATE_PATTERN.test(entryDate)) {
+        const parsed = Date.parse(entryDate);
+        entryDate = Number.isFinite(parsed) ? toLocalDateString(parsed) : '';
+        fixes.push(entryDate ? 'entryDate was not YYYY-MM-DD' : 'entryDate was unreadable');
+    } else if (entryDate.length > 10) {
+        entryDate = entryDate.slice(0, 10);
+    }
+    if (!entryDate && createdAt) {
+        entryDate = toLocalDateString(createdAt);
+        fixes.push('entryDate was missing and was taken from createdAt');
+    }
+    if (!entryDate) problems.push('Missing entry date');
+
+    let items: BillItem[] | undefined;
+    if (Array.isArray(row.items)) {
+        items = row.items
+            .filter((item: any) => item && typeof item === 'object')
+            .map((item: any, index: number): BillItem => ({
+                ...item,
+                id: item.id ? String(item.id) : `${id}-item-${index + 1}`,
+                name: typeof item.name === 'string' ? item.name : String(item.name ?? ''),
+                quantity: number(item.quantity) ?? 0,
+                unit: typeof item.unit === 'string' ? item.unit : '',
+                amount: number(item.amount) ?? 0,
+                packedAt: number(item.packedAt),
+            }));
+        if (items!.length !== row.items.length) fixes.push('Unreadable items were dropped');
+    } else if (row.items !== undefined && row.items !== null) {
+        fixes.push('items was not a list and was cleared');
+    }
+
+    let boxes: PackedBox[] | undefined;
+    if (Array.isArray(row.boxes)) {
+        boxes = row.boxes
+            .filter((box: any) => box && typeof box === 'object')
+            .map((box: any, index: number): PackedBox => ({
+                id: box.id ? String(box.id) : `${id}-box-${index + 1}`,
+                type: typeof box.type === 'string' ? box.type : '',
+                weightKg: number(box.weightKg),
+                contents: Array.isArray(box.contents)
+                    ? box.contents
+                        .filter((c: any) => c && typeof c === 'object')
+                        .map((c: any): BoxContent => ({
+                            ...(c.itemId ? { itemId: String(c.itemId) } : {}),
+                            name: typeof c.name === 'string' ? c.name : String(c.name ?? ''),
+                            quantity: number(c.quantity) ?? 0,
+                        }))
+                    : [],
+            }));
+        if (boxes!.length !== row.boxes.length) fixes.push('Unreadable boxes were dropped');
+        if (boxes!.length > 0 && boxCount !== boxes!.length) {
+            fixes.push(`boxCount ${boxCount ?? 0} did not match the ${boxes!.length} listed boxes`);
+            boxCount = boxes!.length;
+        }
+    } else if (row.boxes !== undefined && row.boxes !== null) {
+        fixes.push('boxes was not a list and was cleared');
+    }
+
+    let imageUrls: string[] | undefined;
+    if (Array.isArray(row.imageUrls)) {
+        imageUrls = row.imageUrls.filter((url: any) => typeof url === 'string' && url);
+        if (imageUrls!.length !== row.imageUrls.length) fixes.push('Unreadable pages were dropped');
+    } else if (row.imageUrls !== undefined && row.imageUrls !== null) {
+        fixes.push('imageUrls was not a list and was cleared');
+    }
+
+    let deliveryStatus = typeof row.deliveryStatus === 'string' ? row.deliveryStatus.toUpperCase() : undefined;
+    if (row.deliveryStatus !== undefined && row.deliveryStatus !== null && !DELIVERY_STATUSES.includes(deliveryStatus || '')) {
+        fixes.push(`Unknown delivery status ${JSON.stringify(row.deliveryStatus)} was cleared`);
+        deliveryStatus = undefined;
+    }
+
+    let deliveryProof: BillData['deliveryProof'];
+    if (row.deliveryProof && typeof row.deliveryProof === 'object' && !Array.isArray(row.deliveryProof)) {
+        const proof = row.deliveryProof;
+        deliveryProof = {
+            receiverName: typeof proof.receiverName === 'string' ? proof.receiverName : '',
+            photoUrls: Array.isArray(proof.photoUrls) ? proof.photoUrls.filter((url: any) => typeof url === 'string' && url) : [],
+            ...(typeof proof.signatureUrl === 'string' && proof.signatureUrl ? { signatureUrl: proof.signatureUrl } : {}),
+        };
+    } else if (row.deliveryProof !== undefined && row.deliveryProof !== null) {
+        fixes.push('deliveryProof was unreadable and was cleared');
+    }
+
+    let loadedBoxes: number[] | undefined;
+    if (Array.isArray(row.loadedBoxes)) {
+        const boxes = row.loadedBoxes.map((box: any) => number(box)).filter((box: number | undefined): box is number => !!box && box > 0 && Number.isInteger(box));
+        loadedBoxes = Array.from(new Set<number>(boxes)).sort((a, b) => a - b);
+        if (loadedBoxes.length !== row.loadedBoxes.length) fixes.push('Unreadable or repeated loaded boxes were dropped');
+    } else if (row.loadedBoxes !== undefined && row.loadedBoxes !== null) {
+        fixes.push('loadedBoxes was not a list and was cleared');
+    }
+
+    // An unknown status reads as failed so the bill still goes to review
+    let extraction: ExtractionReview | undefined;
+    if (row.extraction && typeof row.extraction === 'object' && !Array.isArray(row.extraction)) {
+        const review = row.extraction;
+        const confidence: Partial<Record<ExtractedField, number>> = {};
+        if (review.confidence && typeof review.confidence === 'object') {
+            EXTRACTED_FIELDS.forEach(field => {
+                const score = number(review.confidence[field]);
+                if (score !== undefined) confidence[field] = Math.min(1, Math.max(0, score));
+            });
+        }
+        const reviewedAt = number(review.reviewedAt);
+        if (!EXTRACTION_STATUSES.includes(review.status)) fixes.push(`Unknown extraction status ${JSON.stringify(review.status)} read as failed`);
+        extraction = {
+            status: EXTRACTION_STATUSES.includes(review.status) ? review.status : 'failed',
+            confidence,
+            ...(typeof review.provider === 'string' && review.provider ? { provider: review.provider } : {}),
+            ...(reviewedAt !== undefined ? { reviewedAt } : {}),
+            ...(typeof review.reviewedBy === 'string' && review.reviewedBy ? { reviewedBy: review.reviewedBy } : {}),
+        };
+    } else if (row.extraction !== undefined && row.extraction !== null) {
+        fixes.push('extraction was unreadable and was cleared');
+    }
+
+    const bill: BillData = {
+        id,
+        imageUrl: optionalText('imageUrl'),
+        imageUrls,
+        customerName: text('customerName'),
+        address: text('address'),
+        invoiceNo: text('invoiceNo'),
+        billDate: text('billDate'),
+        items,
+        totalAmount: number(row.totalAmount),
+        extraction,
+        status: (STATUSES.includes(status) ? status : PackingStatus.PENDING) as PackingStatus,
+        isDelivery: flag('isDelivery'),
+        hasCRN: flag('hasCRN'),
+        isEditedBill: flag('isEditedBill'),
+        isAdditionalBill: flag('isAdditionalBill'),
+        boxCount: boxCount ?? 0,
+        boxes,
+        description: text('description'),
+        colorTheme: optionalText('colorTheme'),
+        entryDate,
+        createdAt: createdAt ?? 0,
+        updatedAt: updatedAt ?? createdAt ?? 0,
+        packedAt: timestamp('packedAt'),
+        orgId: optionalText('orgId'),
+        createdBy: optionalText('createdBy'),
+        updatedBy: optionalText('updatedBy'),
+        packedBy: optionalText('packedBy'),
+        manifestId: optionalText('manifestId'),
+        deliveryStatus: deliveryStatus as DeliveryStatus | undefined,
+        dispatchedAt: timestamp('dispatchedAt'),
+        deliveredAt: timestamp('deliveredAt'),
+        deliveredBy: optionalText('deliveredBy'),
+        deliveryProof,
+        loadedBoxes,
+        loadedAt: timestamp('loadedAt'),
+        deletedAt: timestamp('deletedAt'),
+        deletedBy: optionalText('deletedBy'),
+    };
+
+    // Leave absent fields absent; a field cleared on purpose stays so the save clears the column
+    Object.keys(bill).forEach(key => {
+        if ((bill as any)[key] === undefined && !(key in row)) delete (bill as any)[key];
+    });
+
+    return { bill, problems, fixes };
+};
+
+// --- DATA PROBLEMS ---
+// Quarantined rows for this session, shown in the Data Problems panel
+
+let dataProblems: DataProblem[] = [];
+const problemListeners = new Set<(problems: DataProblem[]) => void>();
+
+const setDataProblems = (problems: DataProblem[]) => {
+    dataProblems = problems;
+    problemListeners.forEach(listener => listener(dataProblems));
+};
+
+export const subscribeToDataProblems = (listener: (problems: DataProblem[]) => void) => {
+    problemListeners.add(listener);
+    listener(dataProblems);
+    return () => { problemListeners.delete(listener); };
+};
+
+export const dismissDataProblem = (key: string) => {
+    setDataProblems(dataProblems.filter(problem => problem.key !== key));
+};
+
+const problemKey = (source: DataProblemSource, raw: unknown, result: BillValidation) =>
+    `${source}:${result.bill.id || JSON.stringify(raw).slice(0, 80)}`;
+
+// Valid records come back coerced; invalid ones are reported and left out
+export const screenBills = (rows: unknown[], source: DataProblemSource): BillData[] => {
+    const accepted: BillData[] = [];
+    let next = dataProblems;
+    let changed = false; // Listeners only hear about reports that were added or cleared
+    rows.forEach(raw => {
+        const result = validateBill(raw);
+        const key = problemKey(source, raw, result);
+        if (next.some(problem => problem.key === key)) {
+            next = next.filter(problem => problem.key !== key);
+            changed = true;
+        }
+        if (result.problems.length === 0) {
+            if (result.fixes.length > 0) console.warn(`Bill ${result.bill.id} needed fixing:`, result.fixes.join('; '));
+            accepted.push(result.bill);
+            return;
+        }
+        console.error(`Quarantined a bill from ${source}:`, result.problems.join('; '), raw);
+        next = [{
+            key,
+            billId: result.bill.id || undefined,
+            source,
+            problems: result.problems,
+            fixes: result.fixes,
+            raw,
+            detectedAt: Date.now(),
+        }, ...next];
+        changed = true;
+    });
+    if (changed) setDataProblems(next);
+    return accepted;
+};
+
+// Thrown when a bill about to be saved can't be made valid
+export class InvalidBillError extends Error {
+    problems: string[];
+
+    constructor(problems: string[]) {
+        super(`Bill can't be saved: ${problems.join(', ')}.`);
+        this.name = 'InvalidBillError';
+        this.problems = problems;
+    }
+}
+
+// Coerces a bill before it is cached and queued for the cloud
+export const prepareOutgoingBill = (bill: BillData): BillData => {
+    const [accepted] = screenBills([bill], 'outgoing');
+    if (!accepted) throw new InvalidBillError(validateBill(bill).problems);
+    return accepted;
+};
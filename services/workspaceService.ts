@@ -0,0 +1,119 @@
+// --- WORKSPACES ---
+// Each warehouse is a named profile: its own Supabase project (or table and bucket
+// within one), Gemini key and defaults. storageService connects to the active one;
+// every workspace also gets its own on-device cache and sync queue.
+
+export interface WorkspaceProfile {
+    id: string;
+    name: string; // e.g. "Main Warehouse"
+    supabaseUrl: string;
+    supabaseKey: string;
+    bucketName: string;
+    tableName: string;
+    geminiApiKey?: string;
+    geminiModel?: string; // Unset uses geminiService's default
+    defaultBoxCount: number; // Pre-filled on new bills
+}
+
+export interface WorkspaceState {
+    workspaces: WorkspaceProfile[];
+    activeId: string | null;
+}
+
+const WORKSPACES_KEY = 'grace_workspaces';
+const ACTIVE_WORKSPACE_KEY = 'grace_active_workspace';
+// The single config saved before workspaces existed
+const LEGACY_CONFIG_KEY = 'grace_packing_supabase_config';
+
+// The first workspace keeps the original local cache, so nothing is re-downloaded
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const DEFAULT_BUCKET_NAME = 'receipts';
+export const DEFAULT_TABLE_NAME = 'bills';
+
+const workspaceListeners = new Set<(state: WorkspaceState) => void>();
+
+const readWorkspaces = (): WorkspaceProfile[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(WORKSPACES_KEY) || 'null');
+        if (Array.isArray(stored)) return stored;
+
+        const legacy = JSON.parse(localStorage.getItem(LEGACY_CONFIG_KEY) || 'null');
+        if (legacy?.supabaseUrl && legacy?.supabaseKey) {
+            const migrated = [createWorkspace({ id: DEFAULT_WORKSPACE_ID, name: 'Main Warehouse', supabaseUrl: legacy.supabaseUrl, supabaseKey: legacy.supabaseKey })];
+            localStorage.setItem(WORKSPACES_KEY, JSON.stringify(migrated));
+            localStorage.setItem(ACTIVE_WORKSPACE_KEY, DEFAULT_WORKSPACE_ID);
+            localStorage.removeItem(LEGACY_CONFIG_KEY);
+            return migrated;
+        }
+    } catch (e) {
+        console.error("Failed to read workspaces:", e);
+    }
+    return [];
+};
+
+let workspaceState: WorkspaceState = (() => {
+    const workspaces = readWorkspaces();
+    const storedId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+    const activeId = workspaces.some(w => w.id === storedId) ? storedId : workspaces[0]?.id ?? null;
+    return { workspaces, activeId };
+})();
+
+const setWorkspaceState = (state: WorkspaceState) => {
+    workspaceState = state;
+    localStorage.setItem(WORKSPACES_KEY, JSON.stringify(state.workspaces));
+    if (state.activeId) localStorage.setItem(ACTIVE_WORKSPACE_KEY, state.activeId);
+    else localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+    workspaceListeners.forEach(listener => listener(workspaceState));
+};
+
+export const subscribeToWorkspaces = (listener: (state: WorkspaceState) => void) => {
+    workspaceListeners.add(listener);
+    listener(workspaceState);
+    return () => { workspaceListeners.delete(listener); };
+};
+
+export const getWorkspaces = () => workspaceState.workspaces;
+
+export const getActiveWorkspace = (): WorkspaceProfile | null =>
+    workspaceState.workspaces.find(w => w.id === workspaceState.activeId) || null;
+
+export const getDefaultBoxCount = () => getActiveWorkspace()?.defaultBoxCount ?? 0;
+
+// With no other workspace the new one takes over the default (offline) cache
+const nextWorkspaceId = () => workspaceState.workspaces.length > 0 ? Date.now().toString(36) : DEFAULT_WORKSPACE_ID;
+
+// A profile with defaults filled in
+export const createWorkspace = (fields: Partial<WorkspaceProfile> = {}): WorkspaceProfile => ({
+    id: fields.id || nextWorkspaceId(),
+    name: fields.name?.trim() || 'New Workspace',
+    supabaseUrl: fields.supabaseUrl?.trim() || '',
+    supabaseKey: fields.supabaseKey?.trim() || '',
+    bucketName: fields.bucketName?.trim() || DEFAULT_BUCKET_NAME,
+    tableName: fields.tableName?.trim() || DEFAULT_TABLE_NAME,
+    geminiApiKey: fields.geminiApiKey?.trim() || undefined,
+    geminiModel: fields.geminiModel || undefined,
+    defaultBoxCount: Math.max(0, Math.round(fields.defaultBoxCount || 0)),
+});
+
+// Adds or updates a profile. Does not switch to it; see storageService.switchWorkspace.
+export const saveWorkspace = (profile: WorkspaceProfile) => {
+    const cleaned = createWorkspace(profile);
+    const exists = workspaceState.workspaces.some(w => w.id === cleaned.id);
+    setWorkspaceState({
+        ...workspaceState,
+        workspaces: exists
+            ? workspaceState.workspaces.map(w => w.id === cleaned.id ? cleaned : w)
+            : [...workspaceState.workspaces, cleaned],
+    });
+    return cleaned;
+};
+
+export const removeWorkspace = (id: string) => {
+    const workspaces = workspaceState.workspaces.filter(w => w.id !== id);
+    const activeId = workspaceState.activeId === id ? null : workspaceState.activeId;
+    setWorkspaceState({ workspaces, activeId });
+};
+
+export const setActiveWorkspaceId = (id: string | null) => {
+    setWorkspaceState({ ...workspaceState, activeId: id });
+};
@@ -1,15 +1,73 @@
 export enum PackingStatus {
   PENDING = 'PENDING',
+  PARTIAL = 'PARTIAL', // Some line items packed, the rest still to go
   PACKED = 'PACKED',
 }
 
+// Where a delivery bill is once it has left on a dispatch manifest
+export enum DeliveryStatus {
+  OUT_FOR_DELIVERY = 'OUT_FOR_DELIVERY',
+  DELIVERED = 'DELIVERED',
+}
+
+// A product line printed on the bill
+export interface BillItem {
+  id: string;
+  name: string;
+  quantity: number;
+  unit: string; // e.g. 'pcs', 'kg', 'box'
+  amount: number; // Line total as printed
+
+  // Packing checklist
+  packedAt?: number; // Set when the item is ticked off
+  packedBy?: string; // Who ticked it (user id, or the device's packer name when signed out)
+}
+
+// An item (or part of one) packed into a box
+export interface BoxContent {
+  itemId?: string; // Line on the bill; missing for things typed in by hand
+  name: string; // Kept so the box still reads right if the line is edited away
+  quantity: number;
+}
+
+// One carton, bag or crate of a bill
+export interface PackedBox {
+  id: string;
+  type: string; // Size or kind, e.g. 'Large', 'Bag'
+  weightKg?: number;
+  contents: BoxContent[];
+}
+
+// Header fields the AI reads and reports a confidence for
+export type ExtractedField = 'customerName' | 'address' | 'invoiceNo' | 'billDate';
+
+// How the AI extraction went for a bill, kept until someone confirms the details
+export interface ExtractionReview {
+  status: 'ok' | 'empty' | 'failed';
+  confidence: Partial<Record<ExtractedField, number>>; // 0..1 per field
+  provider?: string; // Which extraction provider read the bill
+  reviewedAt?: number; // Set once a person has checked the details
+  reviewedBy?: string;
+}
+
+// Evidence recorded when a delivery bill is handed over
+export interface DeliveryProof {
+  receiverName: string;
+  photoUrls: string[]; // Signed copy or drop-off; base64 until the sync queue uploads them
+  signatureUrl?: string; // Drawn on screen (PNG); base64 until uploaded
+}
+
 export interface BillData {
   id: string;
-  imageUrl?: string; // Base64 string of the bill
+  imageUrl?: string; // Base64 string of the bill (first page)
+  imageUrls?: string[]; // Every page of the bill in order; imageUrl mirrors the first
   customerName: string;
   address: string;
   invoiceNo: string;
   billDate: string; // Date printed on the bill
+  items?: BillItem[]; // Product lines (extracted or entered manually)
+  totalAmount?: number; // Bill total as printed
+  extraction?: ExtractionReview; // Only present for bills read from a photo
   
   // Status & Flags
   status: PackingStatus;
@@ -19,7 +77,8 @@ export interface BillData {
   isAdditionalBill: boolean;
   
   // Packing Details
-  boxCount: number;
+  boxCount: number; // Always boxes.length once the boxes are listed
+  boxes?: PackedBox[]; // Optional per-box breakdown
   description: string; // Used for grouping (Shop Name)
   colorTheme?: string; // New: explicitly selected color theme name (e.g. 'blue')
   
@@ -28,6 +87,104 @@ export interface BillData {
   createdAt: number; // Timestamp
   updatedAt: number; // Timestamp
   packedAt?: number; // Timestamp when status changed to PACKED
+
+  // Attribution (auth user ids; older bills may hold a device name instead)
+  orgId?: string; // Organisation that owns the bill (row-level security)
+  createdBy?: string;
+  updatedBy?: string;
+  packedBy?: string;
+
+  // Dispatch (delivery bills only)
+  manifestId?: string; // Manifest the bill left on
+  deliveryStatus?: DeliveryStatus;
+  dispatchedAt?: number;
+  deliveredAt?: number;
+  deliveredBy?: string;
+  deliveryProof?: DeliveryProof;
+
+  // Loading check (box labels scanned as they go on the vehicle)
+  loadedBoxes?: number[]; // Box numbers scanned so far
+  loadedAt?: number; // When the last box was scanned
+
+  // Trash (soft delete); purged for good after the retention period
+  deletedAt?: number;
+  deletedBy?: string;
+}
+
+// What the AI reads off a bill photo
+export interface ExtractedBillDetails {
+  customerName: string;
+  address: string;
+  invoiceNo: string;
+  billDate: string;
+  items?: Omit<BillItem, 'id'>[];
+  totalAmount?: number;
+  status?: ExtractionReview['status'];
+  confidence?: ExtractionReview['confidence'];
+  provider?: string;
+}
+
+// What a member of the organisation is allowed to do (see permissions.ts)
+export type UserRole = 'packer' | 'supervisor' | 'admin';
+
+// One field change in a bill's history (bill_events table). Every save records one
+// event per changed field, all sharing the same changedAt.
+export interface BillEvent {
+  id: string;
+  billId: string;
+  orgId?: string;
+  field: keyof BillData | 'created' | 'deleted';
+  oldValue?: any;
+  newValue?: any;
+  changedBy?: string; // Auth user id, or the device name before sign-in
+  changedAt: number;
+}
+
+// A shop learned from bills (customers table), used for autocomplete and to tidy
+// up names read off photos
+export interface Customer {
+  id: string; // Derived from the name, so devices learning the same shop agree
+  orgId?: string;
+  name: string;
+  aliases: string[]; // Other spellings seen on bills
+  address: string;
+  phone: string;
+  defaultGroup: string; // Pre-fills the bill's group (description)
+  defaultColor?: string;
+  createdAt: number;
+  updatedAt: number;
+  deletedAt?: number; // Removed or merged into another customer
+}
+
+// One drop on a delivery run: every bill for the same customer and address
+export interface ManifestStop {
+  id: string;
+  customerName: string;
+  address: string;
+  billIds: string[];
+}
+
+// A vehicle's delivery run for a day (manifests table)
+export interface DispatchManifest {
+  id: string;
+  orgId?: string;
+  date: string; // YYYY-MM-DD entry date the bills were packed on
+  vehicle: string;
+  driver: string;
+  stops: ManifestStop[]; // In driving order
+  createdAt: number;
+  updatedAt: number;
+  createdBy?: string;
+  dispatchedAt?: number; // Unset while the run is still being planned
+  deletedAt?: number;
+}
+
+// A local edit that was rejected because someone else saved the bill first
+export interface BillConflict {
+  billId: string;
+  local: BillData;  // The edit made on this device
+  remote: BillData; // What the cloud currently holds
+  detectedAt: number;
 }
 
 export interface DayGroup {